@@ -1,5 +1,10 @@
 import { defineConfig } from '@vscode/test-cli';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 
 export default defineConfig({
 	files: 'out/test/**/*.test.js',
+	// Tests which watch the workspace need a folder to be open.
+	workspaceFolder: mkdtempSync(join(tmpdir(), 'symbolizer-for-vex-v5-')),
 });
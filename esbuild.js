@@ -23,30 +23,55 @@ const esbuildProblemMatcherPlugin = {
 	},
 };
 
-async function main() {
-	const ctx = await esbuild.context({
+/**
+ * @type {import('esbuild').BuildOptions[]}
+ */
+const builds = [
+	{
 		entryPoints: [
 			'src/extension.ts'
 		],
+		outfile: 'dist/extension.js',
+		external: ['vscode'],
+	},
+	{
+		// The VS Code-free core, for scripts and bots.
+		entryPoints: [
+			'src/core/index.ts'
+		],
+		outfile: 'dist/core.js',
+	},
+	{
+		entryPoints: [
+			'src/cli.ts'
+		],
+		outfile: 'dist/cli.js',
+		banner: { js: '#!/usr/bin/env node' },
+	},
+];
+
+async function main() {
+	const contexts = await Promise.all(builds.map((options) => esbuild.context({
+		...options,
 		bundle: true,
 		format: 'cjs',
 		minify: production,
 		sourcemap: !production,
 		sourcesContent: false,
 		platform: 'node',
-		outfile: 'dist/extension.js',
-		external: ['vscode'],
 		logLevel: 'silent',
 		plugins: [
 			/* add to the end of plugins array */
 			esbuildProblemMatcherPlugin,
 		],
-	});
+	})));
 	if (watch) {
-		await ctx.watch();
+		await Promise.all(contexts.map((ctx) => ctx.watch()));
 	} else {
-		await ctx.rebuild();
-		await ctx.dispose();
+		for (const ctx of contexts) {
+			await ctx.rebuild();
+			await ctx.dispose();
+		}
 	}
 }
 
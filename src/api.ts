@@ -0,0 +1,111 @@
+import * as vscode from "vscode";
+import {
+    CodeObjectLocator,
+    CodeObjectReader,
+    ResolvedSymbol,
+    Symbolizer,
+} from "./symbolization.js";
+import { FilesystemConvention } from "./locators.js";
+import { ProjectDiscovery } from "./projects.js";
+
+export type {
+    CodeObjectLocator,
+    CodeObjectReader,
+    ResolvedFrame,
+    ResolvedLocation,
+    ResolvedSymbol,
+    RemoteSource,
+} from "./symbolization.js";
+export type { FilesystemConvention } from "./locators.js";
+
+/**
+ * The API which this extension's `activate` function returns, so that other extensions can symbolize
+ * addresses and teach the symbolizer about their build layouts:
+ *
+ * ```ts
+ * const extension = vscode.extensions.getExtension<SymbolizerApi>("vexide.symbolizer-for-vex-v5");
+ * const api = await extension?.activate();
+ * ```
+ */
+export interface SymbolizerApi {
+    /**
+     * Symbolizes many addresses at once, such as every frame in a backtrace.
+     * @param addresses the addresses to symbolize, as `0x`-prefixed hexadecimal numbers
+     * @param folder a directory inside the project to search for code objects in
+     * @returns the result for each address, in the same order as `addresses`
+     */
+    resolve(
+        addresses: string[],
+        folder: vscode.Uri,
+    ): Promise<PromiseSettledResult<ResolvedSymbol>[]>;
+
+    /**
+     * Symbolizes an address and opens its source location, just like the Jump to Address command.
+     * @param address the address to jump to, as a `0x`-prefixed hexadecimal number
+     * @param folder a directory inside the project to search for code objects in, or undefined to use
+     * the project the user is working on
+     */
+    jumpToAddress(address: string, folder?: vscode.Uri): Promise<void>;
+
+    /**
+     * Adds a way of finding code objects. It's tried before the built-in locators.
+     * @param locator the locator to add
+     * @returns a disposable which removes the locator
+     */
+    registerCodeObjectLocator(locator: CodeObjectLocator): vscode.Disposable;
+
+    /**
+     * Adds a way of reading code objects. It's tried before the readers from the user's settings, so
+     * it should only report that it's working if it can read every code object.
+     * @param reader the reader to add
+     * @returns a disposable which removes the reader
+     */
+    registerCodeObjectReader(reader: CodeObjectReader): vscode.Disposable;
+
+    /**
+     * Adds a place where code objects are built to, which is searched along with the PROS, VEXcode and
+     * vexide build directories.
+     * @param convention the convention to add
+     * @returns a disposable which removes the convention
+     */
+    registerFilesystemConvention(
+        convention: FilesystemConvention,
+    ): vscode.Disposable;
+}
+
+/**
+ * Creates the API for other extensions.
+ * @param symbolizer the symbolizer to expose
+ * @param projects the projects in the workspace
+ * @param registerConvention adds a filesystem convention to the symbolizer's locators
+ * @returns the API
+ */
+export function createApi(
+    symbolizer: Symbolizer,
+    projects: ProjectDiscovery,
+    registerConvention: (convention: FilesystemConvention) => vscode.Disposable,
+): SymbolizerApi {
+    return {
+        async resolve(addresses, folder) {
+            return symbolizer.resolveToSymbols(
+                addresses,
+                await projects.getProject(folder),
+            );
+        },
+        async jumpToAddress(address, folder) {
+            await symbolizer.jumpToAddress(
+                address,
+                folder && (await projects.getProject(folder)),
+            );
+        },
+        registerCodeObjectLocator(locator) {
+            return symbolizer.registerLocator(locator);
+        },
+        registerCodeObjectReader(reader) {
+            return symbolizer.registerReader(reader);
+        },
+        registerFilesystemConvention(convention) {
+            return registerConvention(convention);
+        },
+    };
+}
@@ -0,0 +1,224 @@
+import * as vscode from "vscode";
+import {
+    CodeObjectLocator,
+    CodeObjectReader,
+    ResolvedSymbol,
+} from "./symbolization.js";
+import { output } from "./logs.js";
+
+/**
+ * Globs matching the directories which PROS, VEXcode and vexide write code objects to.
+ */
+const BUILD_OUTPUT_GLOBS = [
+    "**/bin/**",
+    "**/build/**",
+    "**/target/armv7a-vex-v5/**",
+];
+
+/**
+ * Watches the places code objects are built to, so that cached information about them can be thrown
+ * away when they change.
+ */
+export class CodeObjectWatcher implements vscode.Disposable {
+    readonly #onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    /**
+     * Fires with the URI of a file or directory when it is created, changed or deleted.
+     */
+    readonly onDidChange = this.#onDidChange.event;
+
+    #disposables: vscode.Disposable[] = [];
+    /**
+     * The watchers for the extra globs, which are replaced when the workspace folders change.
+     */
+    #extraDisposables: vscode.Disposable[] = [];
+
+    constructor(
+        /**
+         * Extra globs to watch, relative to each workspace folder, such as the `extraCodeObjectGlobs`
+         * setting.
+         */
+        public readonly extraGlobs: string[] = [],
+    ) {
+        for (const glob of BUILD_OUTPUT_GLOBS) {
+            this.#watch(glob, this.#disposables);
+        }
+        this.#watchExtraGlobs();
+        this.#disposables.push(
+            vscode.workspace.onDidChangeWorkspaceFolders(() =>
+                this.#watchExtraGlobs(),
+            ),
+        );
+    }
+
+    #watchExtraGlobs() {
+        for (const disposable of this.#extraDisposables) {
+            disposable.dispose();
+        }
+        this.#extraDisposables = [];
+
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            for (const glob of this.extraGlobs) {
+                this.#watch(
+                    new vscode.RelativePattern(folder, glob),
+                    this.#extraDisposables,
+                );
+            }
+        }
+    }
+
+    #watch(glob: vscode.GlobPattern, disposables: vscode.Disposable[]) {
+        const fire = (uri: vscode.Uri) => this.#onDidChange.fire(uri);
+        const watcher = vscode.workspace.createFileSystemWatcher(glob);
+        disposables.push(
+            watcher,
+            watcher.onDidCreate(fire),
+            watcher.onDidChange(fire),
+            watcher.onDidDelete(fire),
+        );
+    }
+
+    dispose() {
+        for (const disposable of [
+            ...this.#disposables,
+            ...this.#extraDisposables,
+        ]) {
+            disposable.dispose();
+        }
+        this.#onDidChange.dispose();
+    }
+}
+
+/**
+ * Remembers which code objects a locator found until the build output changes, so the project doesn't
+ * have to be searched again for every address.
+ */
+export class CachingCodeObjectLocator implements CodeObjectLocator {
+    #found = new Map<string, Promise<vscode.Uri[]>>();
+
+    constructor(
+        public readonly locator: CodeObjectLocator,
+        watcher: CodeObjectWatcher,
+    ) {
+        watcher.onDidChange(() => this.#found.clear());
+    }
+
+    get name() {
+        return this.locator.name;
+    }
+
+    findObjectUris(folder: vscode.Uri): Promise<vscode.Uri[]> {
+        const key = folder.toString();
+        let found = this.#found.get(key);
+        if (!found) {
+            found = this.locator.findObjectUris(folder);
+            // Failures might not happen next time, so don't remember them.
+            found.catch(() => this.#found.delete(key));
+            this.#found.set(key, found);
+        } else {
+            output.appendLine(`Reusing the code objects found in ${folder}`);
+        }
+        return found;
+    }
+}
+
+/**
+ * Remembers the symbols a reader resolved, keyed by code object, modification time and address, so that
+ * repeated addresses don't have to be read again.
+ */
+export class CachingCodeObjectReader implements CodeObjectReader {
+    #symbols = new Map<
+        string,
+        { mtime: number; symbols: Map<number, ResolvedSymbol> }
+    >();
+    #listener: vscode.Disposable;
+
+    constructor(
+        public readonly reader: CodeObjectReader,
+        watcher: CodeObjectWatcher,
+    ) {
+        // The modification time already catches rebuilt code objects, but deleted ones should be
+        // forgotten too so their symbols don't use up memory.
+        this.#listener = watcher.onDidChange((uri) => {
+            const prefix = uri.toString();
+            for (const key of this.#symbols.keys()) {
+                if (key.startsWith(prefix)) {
+                    this.#symbols.delete(key);
+                }
+            }
+        });
+    }
+
+    get name() {
+        return this.reader.name;
+    }
+
+    isWorking(): Promise<boolean> {
+        return this.reader.isWorking();
+    }
+
+    async resolveToSymbolInObject(
+        address: string,
+        codeObject: vscode.Uri,
+    ): Promise<ResolvedSymbol> {
+        const [result] = await this.resolveToSymbolsInObject(
+            [address],
+            codeObject,
+        );
+        if (result.status === "rejected") {
+            throw result.reason;
+        }
+        return result.value;
+    }
+
+    async resolveToSymbolsInObject(
+        addresses: string[],
+        codeObject: vscode.Uri,
+    ): Promise<PromiseSettledResult<ResolvedSymbol>[]> {
+        const { mtime } = await vscode.workspace.fs.stat(codeObject);
+        const key = codeObject.toString();
+        let cached = this.#symbols.get(key);
+        if (!cached || cached.mtime !== mtime) {
+            cached = { mtime, symbols: new Map() };
+            this.#symbols.set(key, cached);
+        }
+        const { symbols } = cached;
+
+        // The same address can be printed with or without leading zeros, so compare them as numbers.
+        const missing = Array.from(
+            new Set(addresses.map((address) => Number.parseInt(address))),
+        ).filter((address) => !symbols.has(address));
+        output.appendLine(
+            `${addresses.length - missing.length} of ${addresses.length} addresses were already resolved in ${codeObject.fsPath}`,
+        );
+
+        const failures = new Map<number, unknown>();
+        if (missing.length > 0) {
+            const results = await this.reader.resolveToSymbolsInObject(
+                missing.map((address) => `0x${address.toString(16)}`),
+                codeObject,
+            );
+            results.forEach((result, index) => {
+                if (result.status === "fulfilled") {
+                    symbols.set(missing[index], result.value);
+                } else {
+                    // Failures might not happen next time, so don't remember them.
+                    failures.set(missing[index], result.reason);
+                }
+            });
+        }
+
+        return addresses.map((address) => {
+            const number = Number.parseInt(address);
+            const symbol = symbols.get(number);
+            return symbol
+                ? { status: "fulfilled", value: symbol }
+                : { status: "rejected", reason: failures.get(number) };
+        });
+    }
+
+    dispose() {
+        this.#listener.dispose();
+        this.#symbols.clear();
+        this.reader.dispose();
+    }
+}
@@ -0,0 +1,166 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { parseArgs } from "node:util";
+import {
+    CodeObjectLocator,
+    CrashLog,
+    RecentPathCodeObjectLocator,
+    Symbolizer,
+    createDefaultReaders,
+    formatSymbolizedCrash,
+    parseAddressList,
+    parseCrashLogs,
+    setLogger,
+    toSymbolizedCrashJson,
+} from "./core/index.js";
+
+const USAGE = `Usage: symbolizer-for-vex-v5 [options] <project-dir> [crash-log]
+
+Symbolizes the crashes in a crash log from a PROS, vexide or VEXcode program. The crash log is read
+from standard input if it isn't given or is "-".
+
+Options:
+  --json                      Print the symbolized crashes as JSON
+  --code-object <path>        Use a code object instead of searching the project (can be repeated)
+  --llvm-symbolizer <path>    The path of llvm-symbolizer
+  --addr2line <path>          The path of addr2line
+  --show-rust-hashes          Keep the hashes at the end of Rust symbol names
+  --verbose                   Log what the symbolizer is doing to standard error
+  -h, --help                  Show this message`;
+
+/**
+ * Reads a crash log from a file, or from standard input if the path is `-`.
+ */
+async function readCrashLog(file: string): Promise<string> {
+    if (file !== "-") {
+        return await fs.readFile(file, "utf8");
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+        chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Finds the crashes in a crash log, or treats every address in it as a frame if it isn't in a known
+ * format.
+ */
+function findCrashes(text: string): CrashLog[] {
+    const logs = parseCrashLogs(text).filter((log) => log.frames.length > 0);
+    if (logs.length > 0) {
+        return logs;
+    }
+    const addresses = parseAddressList(text);
+    return addresses ? [addresses] : [];
+}
+
+async function main(): Promise<number> {
+    let args;
+    try {
+        args = parseArgs({
+            allowPositionals: true,
+            options: {
+                json: { type: "boolean" },
+                "code-object": { type: "string", multiple: true },
+                "llvm-symbolizer": { type: "string" },
+                addr2line: { type: "string" },
+                "show-rust-hashes": { type: "boolean" },
+                verbose: { type: "boolean" },
+                help: { type: "boolean", short: "h" },
+            },
+        });
+    } catch (err) {
+        console.error(err instanceof Error ? err.message : String(err));
+        console.error(USAGE);
+        return 2;
+    }
+
+    const { values, positionals } = args;
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (positionals.length < 1 || positionals.length > 2) {
+        console.error(USAGE);
+        return 2;
+    }
+
+    if (values.verbose) {
+        setLogger({ appendLine: (value) => console.error(value) });
+    }
+
+    const [projectDir, crashLogFile = "-"] = positionals;
+    const logs = findCrashes(await readCrashLog(crashLogFile));
+    if (logs.length === 0) {
+        console.error("No crashes or addresses were found in the crash log.");
+        return 1;
+    }
+
+    const codeObjects = values["code-object"]?.map((file) =>
+        path.resolve(file),
+    );
+    const locators: CodeObjectLocator[] = codeObjects
+        ? [
+              {
+                  name: "Command line",
+                  findObjectPaths: () => Promise.resolve(codeObjects),
+              },
+          ]
+        : [new RecentPathCodeObjectLocator()];
+    const symbolizer = new Symbolizer(
+        locators,
+        createDefaultReaders({
+            llvmSymbolizerPath: values["llvm-symbolizer"],
+            addr2linePath: values.addr2line,
+        }),
+        values["show-rust-hashes"],
+    );
+
+    try {
+        const crashes = [];
+        for (const log of logs) {
+            crashes.push({
+                log,
+                frames: await symbolizer.symbolizeCrashLog(
+                    log,
+                    path.resolve(projectDir),
+                ),
+            });
+        }
+
+        if (values.json) {
+            console.log(
+                JSON.stringify(
+                    crashes.map(({ log, frames }) =>
+                        toSymbolizedCrashJson(log, frames),
+                    ),
+                    undefined,
+                    2,
+                ),
+            );
+        } else {
+            console.log(
+                crashes
+                    .map(({ log, frames }) =>
+                        formatSymbolizedCrash(log, frames),
+                    )
+                    .join("\n\n"),
+            );
+        }
+    } finally {
+        symbolizer.dispose();
+    }
+    return 0;
+}
+
+main().then(
+    (code) => (process.exitCode = code),
+    (err) => {
+        console.error(
+            `Couldn't symbolize crash log: ${err instanceof Error ? err.message : String(err)}`,
+        );
+        process.exitCode = 1;
+    },
+);
@@ -0,0 +1,325 @@
+import * as vscode from "vscode";
+import * as path from "node:path";
+import { platform } from "node:process";
+import {
+    AddressValidity,
+    CodeObjectLocator,
+    CodeObjectReader,
+} from "./symbolization.js";
+import {
+    FilesystemConvention,
+    GlobFilesystemConvention,
+    RecentCodeObjectLocator,
+    SimpleFilesystemConvention,
+    VEXCodeFilesystemConvention,
+    VexideFilesystemConvention,
+} from "./locators.js";
+import {
+    BuiltinCodeObjectReader,
+    GNUBinutilsCodeObjectReader,
+    LLVMCodeObjectReader,
+    PROSToolchainCodeObjectReader,
+    getPROSToolchainBinUri,
+} from "./readers.js";
+import {
+    CachingCodeObjectLocator,
+    CachingCodeObjectReader,
+    CodeObjectWatcher,
+} from "./caching.js";
+import { PrefixSourcePathRule, SourcePathMapper } from "./sourcePaths.js";
+import { ObjdumpDisassembler } from "./disassembly.js";
+import { PROS_CODE_OBJECT_PATHS } from "./core/locators.js";
+
+/**
+ * The section of the user's settings which belongs to this extension.
+ */
+export const CONFIGURATION_SECTION = "symbolizer-for-vex-v5";
+
+/**
+ * A kind of code object reader which can be listed in the `readerOrder` setting.
+ */
+export type ReaderKind =
+    | "llvm"
+    | "prosToolchain"
+    | "armEmbeddedToolchain"
+    | "gnuBinutils"
+    | "builtin";
+
+/**
+ * The user's settings for this extension.
+ */
+export interface SymbolizerSettings {
+    /**
+     * The path of `llvm-symbolizer`, or an empty string to find it on the `PATH`.
+     */
+    llvmSymbolizerPath: string;
+    /**
+     * The path of `addr2line`, or an empty string to find it on the `PATH`.
+     */
+    addr2linePath: string;
+    /**
+     * The readers to try, in order of preference.
+     */
+    readerOrder: ReaderKind[];
+    /**
+     * Glob patterns, relative to the workspace folder, which match extra code objects.
+     */
+    extraCodeObjectGlobs: string[];
+    /**
+     * How to decide whether an address can be symbolized.
+     */
+    addressValidity: AddressValidity;
+    /**
+     * Source path prefixes from debug info, mapped to the local directories or URLs which replace them.
+     */
+    sourcePathMappings: Record<string, string>;
+    /**
+     * Whether demangled Rust symbols keep the hashes which tell different versions of a crate apart.
+     */
+    showRustSymbolHashes: boolean;
+    /**
+     * The serial device or pseudo-terminal which the crash monitor reads, or an empty string to ask.
+     */
+    crashMonitorDevice: string;
+    /**
+     * Whether the crash monitor starts reading its device when the extension is activated.
+     */
+    crashMonitorAutoStart: boolean;
+}
+
+/**
+ * Reads the extension's settings, filling in the defaults for anything which isn't set.
+ * @returns the settings
+ */
+export function readSettings(): SymbolizerSettings {
+    const configuration = vscode.workspace.getConfiguration(
+        CONFIGURATION_SECTION,
+    );
+    return {
+        llvmSymbolizerPath: configuration.get("llvmSymbolizerPath", ""),
+        addr2linePath: configuration.get("addr2linePath", ""),
+        readerOrder: configuration.get<ReaderKind[]>("readerOrder", [
+            "llvm",
+            "prosToolchain",
+            "armEmbeddedToolchain",
+            "gnuBinutils",
+            "builtin",
+        ]),
+        extraCodeObjectGlobs: configuration.get("extraCodeObjectGlobs", []),
+        addressValidity: configuration.get("addressValidity", "programImages"),
+        sourcePathMappings: configuration.get("sourcePathMappings", {}),
+        showRustSymbolHashes: configuration.get("showRustSymbolHashes", false),
+        crashMonitorDevice: configuration.get("crashMonitor.device", ""),
+        crashMonitorAutoStart: configuration.get(
+            "crashMonitor.autoStart",
+            false,
+        ),
+    };
+}
+
+/**
+ * Creates the code object readers listed in the settings.
+ * @param settings the settings to follow
+ * @param context the extension's context, used to find the PROS toolchain
+ * @param watcher the watcher which invalidates the readers' caches
+ * @returns the readers, in order of preference
+ */
+export function createReaders(
+    settings: SymbolizerSettings,
+    context: vscode.ExtensionContext,
+    watcher: CodeObjectWatcher,
+): CodeObjectReader[] {
+    // Each kind is only used once, even if it's listed more than once.
+    const readers = Array.from(new Set(settings.readerOrder)).flatMap(
+        (kind): CodeObjectReader[] => {
+            switch (kind) {
+                case "llvm": {
+                    if (settings.llvmSymbolizerPath) {
+                        return [
+                            new LLVMCodeObjectReader(
+                                "LLVM",
+                                settings.llvmSymbolizerPath,
+                            ),
+                        ];
+                    }
+
+                    const readers = [new LLVMCodeObjectReader()];
+                    if (platform === "darwin") {
+                        // We like LLVM more than GNU Binutils (because it gives us column numbers) so it's worth the extra
+                        // effort here of checking for a Homebrew install.
+                        // Linux package managers don't need their own CodeObjectReader instances because they usually put
+                        // their tools in the $PATH of all processes, whereas Homebrew only puts it in the $PATH of shells.
+                        readers.push(
+                            new LLVMCodeObjectReader(
+                                "Homebrew LLVM",
+                                "/opt/homebrew/opt/llvm/bin/llvm-symbolizer",
+                            ),
+                        );
+                    }
+                    return readers;
+                }
+                case "prosToolchain":
+                    // "And this is where I'd put my VEXCode arm-none-eabi-addr2line...if I had one!"
+                    // VEXCode doesn't ship with a symbolizer.
+                    // The Rustup `llvm-tools` component also doesn't ship with a symbolizer.
+                    return [
+                        new PROSToolchainCodeObjectReader(
+                            vscode.Uri.joinPath(context.globalStorageUri, ".."),
+                        ),
+                    ];
+                case "armEmbeddedToolchain":
+                    return [
+                        new GNUBinutilsCodeObjectReader(
+                            "ARM Embedded Toolchain",
+                            "arm-none-eabi-addr2line",
+                        ),
+                    ];
+                case "gnuBinutils":
+                    return [
+                        new GNUBinutilsCodeObjectReader(
+                            "GNU Binutils",
+                            settings.addr2linePath || "addr2line",
+                        ),
+                    ];
+                case "builtin":
+                    // Last resort for machines without any toolchain installed, such as school laptops.
+                    return [new BuiltinCodeObjectReader()];
+                default:
+                    return [];
+            }
+        },
+    );
+    return readers.map(
+        (reader) => new CachingCodeObjectReader(reader, watcher),
+    );
+}
+
+/**
+ * Creates the disassemblers which come with the tools listed in the `readerOrder` setting, so that the
+ * same toolchain is used for both.
+ * @param settings the settings to follow
+ * @param context the extension's context, used to find the PROS toolchain
+ * @returns the disassemblers, in order of preference
+ */
+export function createDisassemblers(
+    settings: SymbolizerSettings,
+    context: vscode.ExtensionContext,
+): ObjdumpDisassembler[] {
+    return Array.from(new Set(settings.readerOrder)).flatMap(
+        (kind): ObjdumpDisassembler[] => {
+            switch (kind) {
+                case "llvm": {
+                    if (settings.llvmSymbolizerPath) {
+                        // `llvm-objdump` is installed next to `llvm-symbolizer`.
+                        const { dir, ext } = path.parse(
+                            settings.llvmSymbolizerPath,
+                        );
+                        return [
+                            new ObjdumpDisassembler(
+                                "LLVM",
+                                path.join(dir, `llvm-objdump${ext}`),
+                            ),
+                        ];
+                    }
+
+                    const disassemblers = [
+                        new ObjdumpDisassembler("LLVM", "llvm-objdump"),
+                    ];
+                    if (platform === "darwin") {
+                        disassemblers.push(
+                            new ObjdumpDisassembler(
+                                "Homebrew LLVM",
+                                "/opt/homebrew/opt/llvm/bin/llvm-objdump",
+                            ),
+                        );
+                    }
+                    return disassemblers;
+                }
+                case "prosToolchain":
+                    return [
+                        new ObjdumpDisassembler(
+                            "PROS Toolchain",
+                            vscode.Uri.joinPath(
+                                getPROSToolchainBinUri(
+                                    vscode.Uri.joinPath(
+                                        context.globalStorageUri,
+                                        "..",
+                                    ),
+                                ),
+                                "arm-none-eabi-objdump",
+                            ).fsPath,
+                        ),
+                    ];
+                case "armEmbeddedToolchain":
+                    return [
+                        new ObjdumpDisassembler(
+                            "ARM Embedded Toolchain",
+                            "arm-none-eabi-objdump",
+                        ),
+                    ];
+                case "gnuBinutils": {
+                    // The host's `objdump` usually can't disassemble ARM, so it's only used when the
+                    // configured `addr2line` is from an ARM toolchain, which comes with a matching objdump.
+                    const addr2line = settings.addr2linePath;
+                    if (
+                        !addr2line ||
+                        !path.basename(addr2line).startsWith("arm-none-eabi-")
+                    ) {
+                        return [];
+                    }
+                    return [
+                        new ObjdumpDisassembler(
+                            "GNU Binutils",
+                            addr2line.replace(
+                                /addr2line(?=[^\\/]*$)/,
+                                "objdump",
+                            ),
+                        ),
+                    ];
+                }
+                default:
+                    // The built-in reader can't disassemble.
+                    return [];
+            }
+        },
+    );
+}
+
+/**
+ * Creates the code object locators, including one convention for each extra glob in the settings.
+ * @param settings the settings to follow
+ * @param watcher the watcher which invalidates the locators' caches
+ * @param extraConventions conventions which other extensions have registered
+ * @returns the locators, in order of preference
+ */
+export function createLocators(
+    settings: SymbolizerSettings,
+    watcher: CodeObjectWatcher,
+    extraConventions: FilesystemConvention[] = [],
+): CodeObjectLocator[] {
+    const locator = new RecentCodeObjectLocator([
+        new SimpleFilesystemConvention("PROS", PROS_CODE_OBJECT_PATHS),
+        new VEXCodeFilesystemConvention(),
+        new VexideFilesystemConvention(),
+        ...settings.extraCodeObjectGlobs.map(
+            (glob) => new GlobFilesystemConvention(glob),
+        ),
+        ...extraConventions,
+    ]);
+    return [new CachingCodeObjectLocator(locator, watcher)];
+}
+
+/**
+ * Creates the source path mapper, including one rule for each mapping in the settings.
+ * @param settings the settings to follow
+ * @returns the mapper
+ */
+export function createSourcePathMapper(
+    settings: SymbolizerSettings,
+): SourcePathMapper {
+    return new SourcePathMapper(
+        Object.entries(settings.sourcePathMappings).map(
+            ([from, to]) => new PrefixSourcePathRule(from, to),
+        ),
+    );
+}
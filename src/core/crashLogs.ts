@@ -0,0 +1,521 @@
+/**
+ * The framework which printed a crash log.
+ */
+export type CrashLogKind = "PROS" | "vexide" | "VEXcode" | "Unknown";
+
+/**
+ * An address from a crash log which can be symbolized.
+ */
+export interface CrashFrame {
+    /**
+     * The address, formatted as a `0x`-prefixed hexadecimal number.
+     */
+    address: string;
+    /**
+     * A description of where the address came from, such as "Frame 3" or "Program counter".
+     */
+    label: string;
+    /**
+     * The index of the line in the original text which contains the address.
+     */
+    line: number;
+}
+
+/**
+ * A crash dump or panic message recognized in program output.
+ */
+export interface CrashLog {
+    kind: CrashLogKind;
+    /**
+     * The headline of the crash, such as "DATA ABORT EXCEPTION".
+     */
+    title: string;
+    /**
+     * Any extra lines describing the crash, such as a panic message or the task which was running.
+     */
+    details: string[];
+    /**
+     * The register values printed in the dump, keyed by lowercase register name.
+     */
+    registers: Map<string, string>;
+    /**
+     * The addresses which should be symbolized, in the order they were printed.
+     */
+    frames: CrashFrame[];
+    /**
+     * The index of the first line of the crash in the original text.
+     */
+    startLine: number;
+    /**
+     * The index of the last line of the crash in the original text.
+     */
+    endLine: number;
+}
+
+const PROS_HEADER_PATTERN =
+    /^\s*((?:DATA ABORT|PREFETCH ABORT|UNDEFINED INSTRUCTION) EXCEPTION)/i;
+const PROS_REGISTER_PATTERN =
+    /\b(r\d{1,2}|sp|lr|pc|cpsr|spsr|dfsr|dfar|ifsr|ifar)\s*(?:\(([a-z]+)\))?\s*[:=]\s*(0x[0-9a-f]+)/gi;
+const PROS_DETAIL_PATTERN = /^\s*(CURRENT TASK|HEAP USED|STACK REMAINING)/i;
+const BARE_ADDRESS_PATTERN = /^\s*(0x[0-9a-f]+)\s*$/i;
+
+const VEXIDE_PANIC_PATTERN = /^\s*panicked at\b/;
+const VEXIDE_BACKTRACE_HEADER_PATTERN = /^\s*stack backtrace:\s*$/i;
+const VEXIDE_FRAME_PATTERN = /^\s*(\d+):\s*(0x[0-9a-f]+)\b/i;
+
+const PREFIXED_ADDRESS_PATTERN = /\b0x[0-9a-f]+\b/gi;
+const LOOSE_ADDRESS_PATTERN = /\b0x[0-9a-f]+\b|\b[0-9a-f]{8}\b/gi;
+/**
+ * The memory which user programs are loaded into. Addresses without a `0x` prefix are only trusted
+ * inside of it, so that numbers such as timestamps aren't mistaken for them.
+ */
+const USER_MEMORY_START = 0x3800000;
+const USER_MEMORY_END = 0x8000000;
+
+const VEXCODE_HEADER_PATTERN = /Memory Permission Error/i;
+const VEXCODE_ADDRESS_PATTERN = /\b(?:0x)?([0-9a-f]{7,8})\b/i;
+
+/**
+ * Descriptions of the registers which hold code addresses, keyed by every name they're printed with.
+ */
+const REGISTER_LABELS = new Map([
+    ["pc", "Program counter"],
+    ["r15", "Program counter"],
+    ["lr", "Link register"],
+    ["r14", "Link register"],
+    ["sp", "Stack pointer"],
+    ["r13", "Stack pointer"],
+    ["dfar", "Data fault address"],
+    ["ifar", "Instruction fault address"],
+]);
+/**
+ * Registers which hold flags rather than addresses, so they shouldn't be symbolized.
+ */
+const STATUS_REGISTERS = new Set(["cpsr", "spsr", "dfsr", "ifsr"]);
+
+/**
+ * How many lines a crash dump can span before we give up on finding the rest of it.
+ */
+const MAX_DUMP_LINES = 80;
+
+/**
+ * Removes terminal color codes, shell integration sequences and carriage returns from program output.
+ */
+function cleanLine(line: string) {
+    return line
+        .replace(/\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g, "")
+        .replace(/\x1b\[[0-9;?]*[a-zA-Z]/g, "")
+        .replace(/\r$/, "");
+}
+
+/**
+ * Formats an address so that all frames look alike no matter how they were printed.
+ */
+export function normalizeAddress(address: string) {
+    const digits = address.replace(/^0x/i, "");
+    return `0x${digits.toLowerCase()}`;
+}
+
+/**
+ * An address found in a single line of output.
+ */
+export interface LineAddress {
+    /**
+     * The address, exactly as it was printed.
+     */
+    address: string;
+    /**
+     * The index in the line at which the address starts.
+     */
+    index: number;
+    /**
+     * A description of what the address is, such as "Frame 3" or "Link register".
+     */
+    label: string;
+}
+
+/**
+ * Finds every address in a line of output and works out what each one is from the crash formats the
+ * line could be a part of, such as `r14 (lr) = 0x0380abcd` or vexide's `3: 0x38012f0`.
+ * @param line the line to search
+ * @returns the addresses, in the order they appear in the line
+ */
+export function findAddressesInLine(line: string): LineAddress[] {
+    const found = new Map<number, LineAddress | undefined>();
+
+    for (const match of line.matchAll(PROS_REGISTER_PATTERN)) {
+        const [text, name, alias, value] = match;
+        const index = match.index + text.length - value.length;
+        const register = (alias ?? name).toLowerCase();
+        if (STATUS_REGISTERS.has(name.toLowerCase())) {
+            // Remember the position so the value isn't picked up as a plain address below.
+            found.set(index, undefined);
+            continue;
+        }
+
+        found.set(index, {
+            address: value,
+            index,
+            label:
+                REGISTER_LABELS.get(register) ??
+                REGISTER_LABELS.get(name.toLowerCase()) ??
+                `Register ${name.toLowerCase()}`,
+        });
+    }
+
+    const frame = VEXIDE_FRAME_PATTERN.exec(line);
+    if (frame) {
+        const index = frame.index + frame[0].length - frame[2].length;
+        found.set(index, {
+            address: frame[2],
+            index,
+            label: `Frame ${frame[1]}`,
+        });
+    }
+
+    for (const match of line.matchAll(PREFIXED_ADDRESS_PATTERN)) {
+        if (!found.has(match.index)) {
+            found.set(match.index, {
+                address: match[0],
+                index: match.index,
+                label: "Address",
+            });
+        }
+    }
+
+    return Array.from(found.values())
+        .filter((address) => address !== undefined)
+        .sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Finds every crash dump in some program output.
+ * @param text the output to search
+ * @returns the crashes, in the order they were printed
+ */
+export function parseCrashLogs(text: string): CrashLog[] {
+    const lines = text.split("\n").map(cleanLine);
+    const logs: CrashLog[] = [];
+
+    let index = 0;
+    while (index < lines.length) {
+        const log =
+            parseProsDump(lines, index) ??
+            parseVexidePanic(lines, index) ??
+            parseVEXcodeError(lines, index);
+        if (log) {
+            logs.push(log);
+            index = log.endLine + 1;
+        } else {
+            index += 1;
+        }
+    }
+
+    return logs;
+}
+
+/**
+ * Finds crash dumps in output which arrives a little at a time, like from a serial port or a terminal.
+ * A crash is only reported once two more lines arrive after it, since until then more of it may be coming.
+ */
+export class CrashLogCollector {
+    #lines: string[] = [];
+    #partialLine = "";
+
+    /**
+     * Adds some output.
+     * @param text the output, which doesn't have to end at a line break
+     * @returns the crashes which this output completed
+     */
+    write(text: string): CrashLog[] {
+        const lines = (this.#partialLine + text).split("\n");
+        this.#partialLine = lines.pop() ?? "";
+        this.#lines.push(...lines);
+        return this.#collect(false);
+    }
+
+    /**
+     * Reports the crashes which haven't been completed yet, such as when the output has gone quiet.
+     * @returns the crashes
+     */
+    flush(): CrashLog[] {
+        if (this.#partialLine) {
+            this.#lines.push(this.#partialLine);
+            this.#partialLine = "";
+        }
+        return this.#collect(true);
+    }
+
+    #collect(isFinished: boolean): CrashLog[] {
+        const logs = parseCrashLogs(this.#lines.join("\n"));
+        // Parsers look one line past the end of a crash, such as for a backtrace after a blank line.
+        const complete = isFinished
+            ? logs
+            : logs.filter((log) => log.endLine < this.#lines.length - 2);
+        const incomplete = logs.at(complete.length);
+
+        // Keep a few lines in case they're the start of a VEXcode error whose address hasn't arrived.
+        const consumed = complete.at(-1)?.endLine ?? -1;
+        const keepFrom = isFinished
+            ? this.#lines.length
+            : (incomplete?.startLine ??
+              Math.max(consumed + 1, this.#lines.length - 3));
+        this.#lines = this.#lines.slice(keepFrom);
+        return complete;
+    }
+}
+
+/**
+ * Finds the first crash dump in some program output.
+ * @param text the output to search
+ * @returns the crash, or undefined if the output doesn't contain one
+ */
+export function parseCrashLog(text: string): CrashLog | undefined {
+    return parseCrashLogs(text)[0];
+}
+
+/**
+ * Treats every address in some text as a frame. This is useful for text which isn't in a known format,
+ * such as a crash log that lost its line breaks when it was pasted.
+ * @param text the text to search
+ * @returns a crash log containing the addresses, or undefined if there aren't any
+ */
+export function parseAddressList(text: string): CrashLog | undefined {
+    const lines = text.split("\n").map(cleanLine);
+    const frames = lines.flatMap((line, index) =>
+        Array.from(line.matchAll(LOOSE_ADDRESS_PATTERN))
+            .filter(([text]) => {
+                const address = Number.parseInt(text, 16);
+                return (
+                    /^0x/i.test(text) ||
+                    (address >= USER_MEMORY_START && address < USER_MEMORY_END)
+                );
+            })
+            .map((match) => ({
+                address: normalizeAddress(match[0]),
+                label: "",
+                line: index,
+            })),
+    );
+    if (frames.length === 0) {
+        return undefined;
+    }
+
+    frames.forEach((frame, index) => (frame.label = `Address ${index + 1}`));
+    return {
+        kind: "Unknown",
+        title: "Addresses",
+        details: [],
+        registers: new Map(),
+        frames,
+        startLine: 0,
+        endLine: lines.length - 1,
+    };
+}
+
+/**
+ * Parses a PROS exception dump such as:
+ *
+ * ```text
+ * DATA ABORT EXCEPTION
+ *
+ * PC: 0x380a1f8
+ * CURRENT TASK: User Operator Control (PROS)
+ * REGISTERS AT ABORT
+ *  r0: 0x00000000  r1: 0x0380c6d0  r2: 0x00000001  r3: 0x00000000
+ *  ...
+ * BEGIN STACK TRACE
+ *     0x380a1f8
+ *     0x380b060
+ * END OF TRACE
+ * HEAP USED: 1832 bytes
+ * STACK REMAINING AT ABORT: 8106 bytes
+ * ```
+ */
+function parseProsDump(lines: string[], start: number): CrashLog | undefined {
+    const header = PROS_HEADER_PATTERN.exec(lines[start]);
+    if (!header) {
+        return undefined;
+    }
+
+    const log: CrashLog = {
+        kind: "PROS",
+        title: header[1].toUpperCase(),
+        details: [],
+        registers: new Map(),
+        frames: [],
+        startLine: start,
+        endLine: start,
+    };
+
+    let isInTrace = false;
+    let hasEndedTrace = false;
+    const end = Math.min(lines.length, start + MAX_DUMP_LINES);
+    for (let index = start + 1; index < end; index++) {
+        const line = lines[index];
+
+        if (hasEndedTrace && !PROS_DETAIL_PATTERN.test(line)) {
+            break;
+        }
+        if (PROS_HEADER_PATTERN.test(line)) {
+            break;
+        }
+        log.endLine = index;
+
+        if (/BEGIN STACK TRACE/i.test(line)) {
+            isInTrace = true;
+        } else if (/END OF TRACE/i.test(line)) {
+            isInTrace = false;
+            hasEndedTrace = true;
+        } else if (isInTrace) {
+            const match = BARE_ADDRESS_PATTERN.exec(line);
+            if (match) {
+                log.frames.push({
+                    address: normalizeAddress(match[1]),
+                    label: `Frame ${log.frames.length}`,
+                    line: index,
+                });
+            }
+        } else if (PROS_DETAIL_PATTERN.test(line)) {
+            log.details.push(line.trim());
+        } else {
+            for (const match of line.matchAll(PROS_REGISTER_PATTERN)) {
+                log.registers.set(
+                    match[1].toLowerCase(),
+                    normalizeAddress(match[3]),
+                );
+            }
+        }
+    }
+
+    // Older kernels don't print a stack trace, so the program counter is the best we've got.
+    const pc = log.registers.get("pc");
+    if (log.frames.length === 0 && pc) {
+        const pcLine = lines.findIndex(
+            (line, index) =>
+                index >= start &&
+                index <= log.endLine &&
+                /\bPC\s*:/i.test(line),
+        );
+        log.frames.push({
+            address: pc,
+            label: "Program counter",
+            line: pcLine,
+        });
+    }
+
+    return log;
+}
+
+/**
+ * Parses a vexide panic message and backtrace such as:
+ *
+ * ```text
+ * panicked at src/main.rs:10:5:
+ * called `Option::unwrap()` on a `None` value
+ *
+ * stack backtrace:
+ *   0: 0x380175c
+ *   1: 0x3804a12 - <unknown>
+ * ```
+ */
+function parseVexidePanic(
+    lines: string[],
+    start: number,
+): CrashLog | undefined {
+    const isPanic = VEXIDE_PANIC_PATTERN.test(lines[start]);
+    if (!isPanic && !VEXIDE_BACKTRACE_HEADER_PATTERN.test(lines[start])) {
+        return undefined;
+    }
+
+    const log: CrashLog = {
+        kind: "vexide",
+        title: isPanic ? lines[start].trim().replace(/:$/, "") : "Backtrace",
+        details: [],
+        registers: new Map(),
+        frames: [],
+        startLine: start,
+        endLine: start,
+    };
+
+    let isInTrace = !isPanic;
+    const end = Math.min(lines.length, start + MAX_DUMP_LINES);
+    for (let index = start + 1; index < end; index++) {
+        const line = lines[index];
+
+        if (isInTrace) {
+            const match = VEXIDE_FRAME_PATTERN.exec(line);
+            if (!match) {
+                break;
+            }
+            log.frames.push({
+                address: normalizeAddress(match[2]),
+                label: `Frame ${match[1]}`,
+                line: index,
+            });
+        } else if (VEXIDE_BACKTRACE_HEADER_PATTERN.test(line)) {
+            isInTrace = true;
+        } else if (VEXIDE_PANIC_PATTERN.test(line)) {
+            break;
+        } else if (line.trim()) {
+            log.details.push(line.trim());
+        } else if (
+            log.details.length > 0 &&
+            !/backtrace/i.test(lines[index + 1] ?? "")
+        ) {
+            // A blank line after the message only continues the panic if a backtrace follows it.
+            break;
+        }
+
+        log.endLine = index;
+    }
+
+    return log;
+}
+
+/**
+ * Parses the text of VEXcode's error screen, which shows the address of the faulting instruction:
+ *
+ * ```text
+ * Memory Permission Error !
+ * 03801A24
+ * ```
+ */
+function parseVEXcodeError(
+    lines: string[],
+    start: number,
+): CrashLog | undefined {
+    const header = VEXCODE_HEADER_PATTERN.exec(lines[start]);
+    if (!header) {
+        return undefined;
+    }
+
+    const end = Math.min(lines.length, start + 4);
+    for (let index = start; index < end; index++) {
+        // The address may be on the same line as the heading, so don't look at the heading itself.
+        const text =
+            index === start
+                ? lines[index].slice(header.index + header[0].length)
+                : lines[index];
+        const match = VEXCODE_ADDRESS_PATTERN.exec(text);
+        if (match) {
+            return {
+                kind: "VEXcode",
+                title: "Memory Permission Error",
+                details: [],
+                registers: new Map([["pc", normalizeAddress(match[1])]]),
+                frames: [
+                    {
+                        address: normalizeAddress(match[1]),
+                        label: "Program counter",
+                        line: index,
+                    },
+                ],
+                startLine: start,
+                endLine: index,
+            };
+        }
+    }
+
+    return undefined;
+}
@@ -0,0 +1,1632 @@
+/**
+ * The final component of a legacy Rust symbol, which is a hash of the crate and the function's type.
+ */
+const LEGACY_HASH_PATTERN = /^h[0-9a-f]{16}$/;
+
+/**
+ * The names of the basic types in v0 symbols, keyed by their tag.
+ */
+const V0_BASIC_TYPES: Record<string, string> = {
+    a: "i8",
+    b: "bool",
+    c: "char",
+    d: "f64",
+    e: "str",
+    f: "f32",
+    h: "u8",
+    i: "isize",
+    j: "usize",
+    l: "i32",
+    m: "u32",
+    n: "i128",
+    o: "u128",
+    p: "_",
+    s: "i16",
+    t: "u16",
+    u: "()",
+    v: "...",
+    x: "i64",
+    y: "u64",
+    z: "!",
+};
+
+/**
+ * The escape sequences which legacy symbols use for characters that can't appear in identifiers.
+ */
+const LEGACY_ESCAPES: Record<string, string> = {
+    SP: "@",
+    BP: "*",
+    RF: "&",
+    LT: "<",
+    GT: ">",
+    LP: "(",
+    RP: ")",
+    C: ",",
+};
+
+/**
+ * The names of the builtin types in Itanium C++ symbols, keyed by their tag.
+ */
+const ITANIUM_BUILTIN_TYPES: Record<string, string> = {
+    v: "void",
+    w: "wchar_t",
+    b: "bool",
+    c: "char",
+    a: "signed char",
+    h: "unsigned char",
+    s: "short",
+    t: "unsigned short",
+    i: "int",
+    j: "unsigned int",
+    l: "long",
+    m: "unsigned long",
+    x: "long long",
+    y: "unsigned long long",
+    n: "__int128",
+    o: "unsigned __int128",
+    f: "float",
+    d: "double",
+    e: "long double",
+    g: "__float128",
+    z: "...",
+};
+
+/**
+ * The names of the builtin types in Itanium C++ symbols whose tags start with `D`, keyed by the rest of
+ * their tag.
+ */
+const ITANIUM_EXTENDED_BUILTIN_TYPES: Record<string, string> = {
+    a: "auto",
+    c: "decltype(auto)",
+    d: "decimal64",
+    e: "decimal128",
+    f: "decimal32",
+    h: "half",
+    i: "char32_t",
+    n: "decltype(nullptr)",
+    s: "char16_t",
+    u: "char8_t",
+};
+
+/**
+ * The suffixes which Itanium C++ symbols add to template arguments to show the type of an integer.
+ */
+const ITANIUM_LITERAL_SUFFIXES: Record<string, string> = {
+    i: "",
+    j: "u",
+    l: "l",
+    m: "ul",
+    x: "ll",
+    y: "ull",
+};
+
+/**
+ * The abbreviations which Itanium C++ symbols use for common parts of the standard library.
+ */
+const ITANIUM_STANDARD_SUBSTITUTIONS: Record<string, string> = {
+    a: "std::allocator",
+    b: "std::basic_string",
+    s: "std::string",
+    i: "std::istream",
+    o: "std::ostream",
+    d: "std::iostream",
+};
+
+/**
+ * The operators in Itanium C++ symbols, keyed by their two-letter codes.
+ */
+const ITANIUM_OPERATORS: Record<string, string> = {
+    nw: " new",
+    na: " new[]",
+    dl: " delete",
+    da: " delete[]",
+    aw: " co_await",
+    ps: "+",
+    ng: "-",
+    ad: "&",
+    de: "*",
+    co: "~",
+    pl: "+",
+    mi: "-",
+    ml: "*",
+    dv: "/",
+    rm: "%",
+    an: "&",
+    or: "|",
+    eo: "^",
+    aS: "=",
+    pL: "+=",
+    mI: "-=",
+    mL: "*=",
+    dV: "/=",
+    rM: "%=",
+    aN: "&=",
+    oR: "|=",
+    eO: "^=",
+    ls: "<<",
+    rs: ">>",
+    lS: "<<=",
+    rS: ">>=",
+    eq: "==",
+    ne: "!=",
+    lt: "<",
+    gt: ">",
+    le: "<=",
+    ge: ">=",
+    ss: "<=>",
+    nt: "!",
+    aa: "&&",
+    oo: "||",
+    pp: "++",
+    mm: "--",
+    cm: ",",
+    pm: "->*",
+    pt: "->",
+    cl: "()",
+    ix: "[]",
+    qu: "?",
+};
+
+/**
+ * Decodes an identifier which v0 mangling encoded with Punycode. Rust uses `_` instead of `-` to separate
+ * the ASCII characters from the encoded ones.
+ * @param input the encoded identifier
+ * @returns the decoded identifier
+ */
+function decodePunycode(input: string): string {
+    const split = input.lastIndexOf("_");
+    const output = split >= 0 ? Array.from(input.substring(0, split)) : [];
+    const encoded = input.substring(split + 1);
+
+    // These are the parameters from RFC 3492.
+    let n = 128;
+    let i = 0;
+    let bias = 72;
+    let pos = 0;
+    while (pos < encoded.length) {
+        const oldI = i;
+        let weight = 1;
+        for (let k = 36; ; k += 36) {
+            const char = encoded.charCodeAt(pos++);
+            let digit: number;
+            if (char >= 0x61 && char <= 0x7a) {
+                digit = char - 0x61;
+            } else if (char >= 0x30 && char <= 0x39) {
+                digit = char - 0x30 + 26;
+            } else {
+                throw new Error("Invalid Punycode digit");
+            }
+
+            i += digit * weight;
+            const threshold = k <= bias ? 1 : k >= bias + 26 ? 26 : k - bias;
+            if (digit < threshold) {
+                break;
+            }
+            weight *= 36 - threshold;
+        }
+
+        const length = output.length + 1;
+        let delta =
+            oldI === 0
+                ? Math.floor((i - oldI) / 700)
+                : Math.floor((i - oldI) / 2);
+        delta += Math.floor(delta / length);
+        let k = 0;
+        while (delta > 455) {
+            delta = Math.floor(delta / 35);
+            k += 36;
+        }
+        bias = k + Math.floor((36 * delta) / (delta + 38));
+
+        n += Math.floor(i / length);
+        i %= length;
+        output.splice(i, 0, String.fromCodePoint(n));
+        i++;
+    }
+    return output.join("");
+}
+
+/**
+ * Demangles symbols which use Rust's v0 mangling scheme (`_R...`). Paths and types are printed as they
+ * are read, in the same style as `rustc-demangle`.
+ */
+class V0Demangler {
+    #pos = 0;
+    #depth = 0;
+    /**
+     * How many lifetimes have been introduced by `for<...>` binders around the current position.
+     */
+    #boundLifetimes = 0;
+
+    constructor(
+        /**
+         * The symbol, without its `_R` prefix.
+         */
+        public readonly input: string,
+        /**
+         * Whether to show the hashes which tell different versions of a crate apart.
+         */
+        public readonly showHashes: boolean,
+    ) {}
+
+    demangle(): string {
+        // Symbols can start with an encoding version, but only version 0 exists.
+        if (this.#isDigit(this.#peek())) {
+            if (this.#decimal() !== 0) {
+                throw new Error("Unsupported encoding version");
+            }
+        }
+
+        const name = this.#path(true);
+
+        // The crate which instantiated a generic function isn't shown, and neither is anything added by
+        // LLVM, like `.llvm.1234`.
+        if (this.#pos < this.input.length && /[A-Z]/.test(this.#peek()!)) {
+            this.#path(false);
+        }
+        if (this.#pos < this.input.length && !/^[.$]/.test(this.#peek()!)) {
+            throw new Error("Unexpected characters after the symbol");
+        }
+        return name;
+    }
+
+    #peek(): string | undefined {
+        return this.input[this.#pos];
+    }
+
+    #next(): string {
+        const char = this.input[this.#pos++];
+        if (char === undefined) {
+            throw new Error("Unexpected end of symbol");
+        }
+        return char;
+    }
+
+    #eat(char: string): boolean {
+        if (this.#peek() === char) {
+            this.#pos++;
+            return true;
+        }
+        return false;
+    }
+
+    #isDigit(char: string | undefined) {
+        return char !== undefined && char >= "0" && char <= "9";
+    }
+
+    #decimal(): number {
+        // Zero is never followed by more digits, so `00` is two numbers.
+        if (this.#eat("0")) {
+            return 0;
+        }
+
+        const start = this.#pos;
+        while (this.#isDigit(this.#peek())) {
+            this.#pos++;
+        }
+        if (this.#pos === start) {
+            throw new Error("Invalid decimal number");
+        }
+        return Number.parseInt(this.input.substring(start, this.#pos));
+    }
+
+    /**
+     * Reads a base-62 number, where `_` is 0 and every other number is written minus one before a `_`.
+     */
+    #base62(): number {
+        if (this.#eat("_")) {
+            return 0;
+        }
+
+        let value = 0;
+        for (;;) {
+            const char = this.#next();
+            if (char === "_") {
+                return value + 1;
+            }
+            const digit =
+                "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ".indexOf(
+                    char,
+                );
+            if (digit < 0) {
+                throw new Error("Invalid base-62 number");
+            }
+            value = value * 62 + digit;
+        }
+    }
+
+    /**
+     * Reads a base-62 number after a tag, or returns 0 if the tag isn't there.
+     */
+    #optionalBase62(tag: string): number {
+        return this.#eat(tag) ? this.#base62() + 1 : 0;
+    }
+
+    #undisambiguatedIdentifier(): string {
+        const isPunycode = this.#eat("u");
+        const length = this.#decimal();
+        // The separator is only needed if the identifier starts with a digit or an underscore.
+        this.#eat("_");
+        if (this.#pos + length > this.input.length) {
+            throw new Error("Identifier is longer than the symbol");
+        }
+        const bytes = this.input.substring(this.#pos, this.#pos + length);
+        this.#pos += length;
+        return isPunycode ? decodePunycode(bytes) : bytes;
+    }
+
+    #identifier(): { name: string; disambiguator: number } {
+        const disambiguator = this.#optionalBase62("s");
+        return { name: this.#undisambiguatedIdentifier(), disambiguator };
+    }
+
+    /**
+     * Parses something which was written earlier in the symbol, by going back to it.
+     */
+    #backref<T>(parse: () => T): T {
+        const start = this.#pos - 1;
+        const target = this.#base62();
+        if (target >= start) {
+            throw new Error("Back-references must point backwards");
+        }
+
+        const resume = this.#pos;
+        this.#pos = target;
+        try {
+            return parse();
+        } finally {
+            this.#pos = resume;
+        }
+    }
+
+    /**
+     * Guards against symbols which nest (or refer back to themselves) deeply enough to overflow the stack.
+     */
+    #nested<T>(parse: () => T): T {
+        if (++this.#depth > 200) {
+            throw new Error("Symbol is nested too deeply");
+        }
+        try {
+            return parse();
+        } finally {
+            this.#depth--;
+        }
+    }
+
+    /**
+     * @param inValue whether the path is used as a value (like a function), where generic arguments
+     * are written with a turbofish (`::<T>`)
+     */
+    #path(inValue: boolean): string {
+        return this.#nested(() => {
+            const tag = this.#next();
+            switch (tag) {
+                case "C": {
+                    const { name, disambiguator } = this.#identifier();
+                    return this.showHashes && disambiguator
+                        ? `${name}[${disambiguator.toString(16)}]`
+                        : name;
+                }
+                case "N": {
+                    const namespace = this.#next();
+                    const parent = this.#path(inValue);
+                    const { name, disambiguator } = this.#identifier();
+                    // Uppercase namespaces, like closures, aren't named in the source code.
+                    if (/[A-Z]/.test(namespace)) {
+                        const kind =
+                            namespace === "C"
+                                ? "closure"
+                                : namespace === "S"
+                                  ? "shim"
+                                  : namespace;
+                        return `${parent}::{${kind}${name ? `:${name}` : ""}#${disambiguator}}`;
+                    }
+                    return name ? `${parent}::${name}` : parent;
+                }
+                case "M": {
+                    this.#implPath();
+                    return `<${this.#type()}>`;
+                }
+                case "X": {
+                    this.#implPath();
+                    const type = this.#type();
+                    return `<${type} as ${this.#path(false)}>`;
+                }
+                case "Y": {
+                    const type = this.#type();
+                    return `<${type} as ${this.#path(false)}>`;
+                }
+                case "I": {
+                    const parent = this.#path(inValue);
+                    const args: string[] = [];
+                    while (!this.#eat("E")) {
+                        args.push(this.#genericArg());
+                    }
+                    return `${parent}${inValue ? "::" : ""}<${args.join(", ")}>`;
+                }
+                case "B":
+                    return this.#backref(() => this.#path(inValue));
+                default:
+                    throw new Error(`Unknown path tag ${tag}`);
+            }
+        });
+    }
+
+    /**
+     * Skips the path of an impl block, which isn't shown because the type it's for is more useful.
+     */
+    #implPath() {
+        this.#optionalBase62("s");
+        this.#path(false);
+    }
+
+    #genericArg(): string {
+        if (this.#eat("L")) {
+            return this.#lifetime(this.#base62());
+        }
+        if (this.#eat("K")) {
+            return this.#const();
+        }
+        return this.#type();
+    }
+
+    #lifetime(index: number): string {
+        if (index === 0) {
+            return "'_";
+        }
+        const depth = this.#boundLifetimes - index;
+        if (depth < 0) {
+            throw new Error("Lifetime isn't bound");
+        }
+        return depth < 26
+            ? `'${String.fromCharCode(0x61 + depth)}`
+            : `'_${depth}`;
+    }
+
+    /**
+     * Reads an optional `for<'a, ...>` binder, then parses what it applies to with its lifetimes in scope.
+     */
+    #binder(parse: () => string): string {
+        const count = this.#optionalBase62("G");
+        const lifetimes: string[] = [];
+        for (let i = 0; i < count; i++) {
+            this.#boundLifetimes++;
+            lifetimes.push(this.#lifetime(1));
+        }
+
+        try {
+            const inner = parse();
+            return count > 0 ? `for<${lifetimes.join(", ")}> ${inner}` : inner;
+        } finally {
+            this.#boundLifetimes -= count;
+        }
+    }
+
+    #type(): string {
+        return this.#nested(() => {
+            const tag = this.#next();
+            if (Object.hasOwn(V0_BASIC_TYPES, tag)) {
+                return V0_BASIC_TYPES[tag];
+            }
+
+            switch (tag) {
+                case "R":
+                case "Q": {
+                    const lifetime = this.#eat("L") ? this.#base62() : 0;
+                    const prefix = lifetime
+                        ? `&${this.#lifetime(lifetime)} `
+                        : "&";
+                    return `${prefix}${tag === "Q" ? "mut " : ""}${this.#type()}`;
+                }
+                case "P":
+                    return `*const ${this.#type()}`;
+                case "O":
+                    return `*mut ${this.#type()}`;
+                case "A": {
+                    const type = this.#type();
+                    return `[${type}; ${this.#const()}]`;
+                }
+                case "S":
+                    return `[${this.#type()}]`;
+                case "T": {
+                    const types: string[] = [];
+                    while (!this.#eat("E")) {
+                        types.push(this.#type());
+                    }
+                    return types.length === 1
+                        ? `(${types[0]},)`
+                        : `(${types.join(", ")})`;
+                }
+                case "F":
+                    return this.#binder(() => this.#fnSig());
+                case "D": {
+                    const bounds = this.#binder(() => this.#dynBounds());
+                    if (!this.#eat("L")) {
+                        throw new Error("Trait object is missing its lifetime");
+                    }
+                    const lifetime = this.#base62();
+                    return lifetime
+                        ? `${bounds} + ${this.#lifetime(lifetime)}`
+                        : bounds;
+                }
+                case "B":
+                    return this.#backref(() => this.#type());
+                default:
+                    // Every other type is a path, like a struct.
+                    this.#pos--;
+                    return this.#path(false);
+            }
+        });
+    }
+
+    #fnSig(): string {
+        let prefix = this.#eat("U") ? "unsafe " : "";
+        if (this.#eat("K")) {
+            const abi = this.#eat("C")
+                ? "C"
+                : this.#undisambiguatedIdentifier().replaceAll("_", "-");
+            prefix += `extern "${abi}" `;
+        }
+
+        const params: string[] = [];
+        while (!this.#eat("E")) {
+            params.push(this.#type());
+        }
+        const ret = this.#type();
+        return `${prefix}fn(${params.join(", ")})${ret === "()" ? "" : ` -> ${ret}`}`;
+    }
+
+    #dynBounds(): string {
+        const traits: string[] = [];
+        while (!this.#eat("E")) {
+            let trait = this.#path(false);
+
+            // Associated types, like `Iterator<Item = u8>`, go inside the trait's generic arguments.
+            const bindings: string[] = [];
+            while (this.#eat("p")) {
+                const name = this.#undisambiguatedIdentifier();
+                bindings.push(`${name} = ${this.#type()}`);
+            }
+            if (bindings.length > 0) {
+                trait = trait.endsWith(">")
+                    ? `${trait.slice(0, -1)}, ${bindings.join(", ")}>`
+                    : `${trait}<${bindings.join(", ")}>`;
+            }
+            traits.push(trait);
+        }
+        return `dyn ${traits.join(" + ")}`;
+    }
+
+    #const(): string {
+        if (this.#eat("p")) {
+            return "_";
+        }
+        if (this.#eat("B")) {
+            return this.#backref(() => this.#const());
+        }
+
+        const type = this.#next();
+        const negative = this.#eat("n");
+        const start = this.#pos;
+        while (this.#peek() !== "_") {
+            this.#next();
+        }
+        const hex = this.input.substring(start, this.#pos);
+        this.#pos++;
+        const value = hex ? BigInt(`0x${hex}`) : 0n;
+
+        if ("hmyojtasxlni".includes(type)) {
+            return `${negative ? "-" : ""}${value}`;
+        }
+        if (type === "b") {
+            return value === 0n ? "false" : "true";
+        }
+        if (type === "c") {
+            return `'${String.fromCodePoint(Number(value))}'`;
+        }
+        throw new Error(`Unsupported constant type ${type}`);
+    }
+}
+
+/**
+ * Decodes one component of a legacy symbol, which escapes characters like `<` as `$LT$`.
+ * @returns the decoded component, or undefined if it has an unknown escape
+ */
+function decodeLegacyComponent(component: string): string | undefined {
+    // Components which start with an escape get an extra underscore so that they're valid identifiers.
+    let rest = component.startsWith("_$") ? component.substring(1) : component;
+    let decoded = "";
+    while (rest.length > 0) {
+        if (rest.startsWith("..")) {
+            decoded += "::";
+            rest = rest.substring(2);
+        } else if (rest.startsWith(".")) {
+            decoded += ".";
+            rest = rest.substring(1);
+        } else if (rest.startsWith("$")) {
+            const end = rest.indexOf("$", 1);
+            if (end < 0) {
+                return undefined;
+            }
+            const escape = rest.substring(1, end);
+            if (Object.hasOwn(LEGACY_ESCAPES, escape)) {
+                decoded += LEGACY_ESCAPES[escape];
+            } else if (/^u[0-9a-f]+$/.test(escape)) {
+                decoded += String.fromCodePoint(
+                    Number.parseInt(escape.substring(1), 16),
+                );
+            } else {
+                return undefined;
+            }
+            rest = rest.substring(end + 1);
+        } else {
+            const end = rest.search(/[.$]/);
+            const length = end < 0 ? rest.length : end;
+            decoded += rest.substring(0, length);
+            rest = rest.substring(length);
+        }
+    }
+    return decoded;
+}
+
+/**
+ * Demangles a legacy Rust symbol, which looks like a C++ symbol (`_ZN...E`) ending in a hash.
+ * @returns the demangled name, or undefined if it isn't a legacy Rust symbol
+ */
+function demangleLegacy(name: string, showHashes: boolean): string | undefined {
+    const match = /^_{0,2}ZN(.*)$/.exec(name);
+    if (!match) {
+        return undefined;
+    }
+
+    const [, body] = match;
+    const components: string[] = [];
+    let pos = 0;
+    while (body[pos] !== "E") {
+        const lengthMatch = /^[1-9]\d*/.exec(body.substring(pos));
+        if (!lengthMatch) {
+            return undefined;
+        }
+        pos += lengthMatch[0].length;
+        const length = Number.parseInt(lengthMatch[0]);
+        if (pos + length > body.length) {
+            return undefined;
+        }
+        components.push(body.substring(pos, pos + length));
+        pos += length;
+    }
+    // Anything after the end is added by LLVM, like `.llvm.1234`.
+    const suffix = body.substring(pos + 1);
+    if (suffix && !suffix.startsWith(".")) {
+        return undefined;
+    }
+
+    // C++ symbols use the same prefix, but only Rust ends them with a hash.
+    const hash = components.at(-1);
+    if (!hash || !LEGACY_HASH_PATTERN.test(hash)) {
+        return undefined;
+    }
+    if (!showHashes) {
+        components.pop();
+    }
+
+    const decoded = components.map(decodeLegacyComponent);
+    if (decoded.some((component) => component === undefined)) {
+        return undefined;
+    }
+    return decoded.join("::");
+}
+
+/**
+ * A C++ type, printed with any declarator between its prefix and suffix so that pointers to functions
+ * and arrays look like `void (*)(int)`.
+ */
+interface CppType {
+    prefix: string;
+    suffix: string;
+    /**
+     * Whether the type already has a declarator in parentheses, which more pointers can be added to.
+     */
+    hasDeclarator?: boolean;
+}
+
+/**
+ * A name read from an Itanium C++ symbol.
+ */
+interface CppName {
+    text: string;
+    /**
+     * The qualifiers of a member function, like ` const`.
+     */
+    qualifiers: string;
+    /**
+     * Whether the name ends with template arguments, which means that a function's return type is mangled.
+     */
+    hasTemplateArgs: boolean;
+    /**
+     * Whether the name is a constructor, destructor or conversion operator, which don't have return types.
+     */
+    isSpecialMember: boolean;
+}
+
+function formatCppType(type: CppType): string {
+    return type.prefix + type.suffix;
+}
+
+function formatCppParams(params: string[]): string {
+    return params.length === 1 && params[0] === "void" ? "" : params.join(", ");
+}
+
+/**
+ * Gets the name of a class from its scope, without any namespaces, template arguments or ABI tags.
+ */
+function getCppBaseName(scope: string): string {
+    scope = scope.replace(/(?:\[abi:[^\]]*\])+$/, "");
+    let end = scope.length;
+    if (scope.endsWith(">")) {
+        let depth = 0;
+        do {
+            end--;
+            if (scope[end] === ">") {
+                depth++;
+            } else if (scope[end] === "<") {
+                depth--;
+            }
+        } while (end > 0 && depth > 0);
+    }
+    const start = scope.lastIndexOf("::", end - 1);
+    return scope.substring(start < 0 ? 0 : start + 2, end);
+}
+
+/**
+ * Demangles C++ symbols which use the Itanium ABI's mangling scheme (`_Z...`), which GCC and Clang use
+ * for ARM. Names are printed in the same style as `c++filt`.
+ */
+class ItaniumDemangler {
+    #pos = 0;
+    /**
+     * The prefixes and types which later parts of the symbol can refer back to.
+     */
+    #substitutions: CppType[] = [];
+    /**
+     * The template arguments of the function's name, which template parameters refer to.
+     */
+    #templateParams: string[] = [];
+    /**
+     * How many types the current position is inside of.
+     */
+    #typeDepth = 0;
+
+    constructor(
+        /**
+         * The symbol, without its `_Z` prefix.
+         */
+        public readonly input: string,
+    ) {}
+
+    demangle(): string {
+        let name = this.#encoding();
+
+        // Compilers add suffixes to copies of functions that they've optimized, like `.constprop.0`.
+        while (this.#pos < this.input.length) {
+            const clone = /^\.[A-Za-z_]+(?:\.\d+)*|^(?:\.\d+)+/.exec(
+                this.input.substring(this.#pos),
+            );
+            if (!clone) {
+                throw new Error("Unexpected characters after the symbol");
+            }
+            name += ` [clone ${clone[0]}]`;
+            this.#pos += clone[0].length;
+        }
+        return name;
+    }
+
+    #peek(offset = 0): string | undefined {
+        return this.input[this.#pos + offset];
+    }
+
+    #eat(prefix: string): boolean {
+        if (this.input.startsWith(prefix, this.#pos)) {
+            this.#pos += prefix.length;
+            return true;
+        }
+        return false;
+    }
+
+    #expect(prefix: string) {
+        if (!this.#eat(prefix)) {
+            throw new Error(`Expected "${prefix}"`);
+        }
+    }
+
+    #isDigit(char: string | undefined) {
+        return char !== undefined && char >= "0" && char <= "9";
+    }
+
+    /**
+     * Checks whether the current position is after the last parameter of a function.
+     */
+    #isAtEndOfParams() {
+        const char = this.#peek();
+        return char === undefined || char === "E" || char === ".";
+    }
+
+    #decimal(): number {
+        const match = /^\d+/.exec(this.input.substring(this.#pos));
+        if (!match) {
+            throw new Error("Invalid decimal number");
+        }
+        this.#pos += match[0].length;
+        return Number.parseInt(match[0]);
+    }
+
+    /**
+     * Reads a decimal number, which is negative if it starts with `n`.
+     */
+    #number(): number {
+        return this.#eat("n") ? -this.#decimal() : this.#decimal();
+    }
+
+    /**
+     * Reads the index of a substitution, which is written in base 36 with upper-case letters.
+     */
+    #seqId(): number {
+        const match = /^[0-9A-Z]+/.exec(this.input.substring(this.#pos));
+        if (!match) {
+            throw new Error("Invalid sequence ID");
+        }
+        this.#pos += match[0].length;
+        return Number.parseInt(match[0], 36);
+    }
+
+    /**
+     * Reads the optional index after an unnamed type or lambda, which numbers them from 1.
+     */
+    #unnamedIndex(): number {
+        if (this.#eat("_")) {
+            return 1;
+        }
+        const index = this.#decimal() + 2;
+        this.#expect("_");
+        return index;
+    }
+
+    /**
+     * Skips the number which tells apart entities with the same name in one function.
+     */
+    #discriminator() {
+        if (this.#eat("__")) {
+            this.#decimal();
+            this.#expect("_");
+        } else if (this.#eat("_")) {
+            if (!this.#isDigit(this.#peek())) {
+                throw new Error("Invalid discriminator");
+            }
+            this.#pos++;
+        }
+    }
+
+    #encoding(): string {
+        if (this.#peek() === "T" || this.#peek() === "G") {
+            return this.#specialName();
+        }
+
+        const name = this.#name();
+        if (this.#isAtEndOfParams()) {
+            return name.text;
+        }
+
+        // Only the return types of function templates are mangled.
+        const returnType =
+            name.hasTemplateArgs && !name.isSpecialMember
+                ? `${formatCppType(this.#type())} `
+                : "";
+        const params: string[] = [];
+        while (!this.#isAtEndOfParams()) {
+            params.push(formatCppType(this.#type()));
+        }
+        return `${returnType}${name.text}(${formatCppParams(params)})${name.qualifiers}`;
+    }
+
+    #specialName(): string {
+        if (this.#eat("TV")) {
+            return `vtable for ${formatCppType(this.#type())}`;
+        }
+        if (this.#eat("TT")) {
+            return `VTT for ${formatCppType(this.#type())}`;
+        }
+        if (this.#eat("TI")) {
+            return `typeinfo for ${formatCppType(this.#type())}`;
+        }
+        if (this.#eat("TS")) {
+            return `typeinfo name for ${formatCppType(this.#type())}`;
+        }
+        if (this.#eat("TW")) {
+            return `TLS wrapper function for ${this.#name().text}`;
+        }
+        if (this.#eat("TH")) {
+            return `TLS init function for ${this.#name().text}`;
+        }
+        if (this.#eat("Tc")) {
+            this.#callOffset();
+            this.#callOffset();
+            return `covariant return thunk to ${this.#encoding()}`;
+        }
+        if (this.#eat("T")) {
+            const kind = this.#peek() === "v" ? "virtual" : "non-virtual";
+            this.#callOffset();
+            return `${kind} thunk to ${this.#encoding()}`;
+        }
+        if (this.#eat("GV")) {
+            return `guard variable for ${this.#name().text}`;
+        }
+        if (this.#eat("GR")) {
+            const name = this.#name().text;
+            let index = 0;
+            if (!this.#eat("_")) {
+                index = this.#seqId() + 1;
+                this.#expect("_");
+            }
+            return `reference temporary #${index} for ${name}`;
+        }
+        throw new Error("Unsupported special name");
+    }
+
+    /**
+     * Skips the offset which a thunk adds to `this`.
+     */
+    #callOffset() {
+        if (this.#eat("h")) {
+            this.#number();
+        } else {
+            this.#expect("v");
+            this.#number();
+            this.#expect("_");
+            this.#number();
+        }
+        this.#expect("_");
+    }
+
+    #name(): CppName {
+        if (this.#peek() === "N") {
+            return this.#nestedName();
+        }
+        if (this.#peek() === "Z") {
+            return this.#localName();
+        }
+
+        let text: string;
+        let isSpecialMember = false;
+        let isSubstitution = false;
+        if (this.#eat("St")) {
+            const name = this.#unqualifiedName("std");
+            text = `std::${name.text}`;
+            isSpecialMember = name.isSpecialMember;
+        } else if (this.#peek() === "S") {
+            text = formatCppType(this.#substitution());
+            isSubstitution = true;
+        } else {
+            ({ text, isSpecialMember } = this.#unqualifiedName(""));
+        }
+
+        if (this.#peek() !== "I") {
+            return {
+                text,
+                qualifiers: "",
+                hasTemplateArgs: false,
+                isSpecialMember,
+            };
+        }
+        if (!isSubstitution) {
+            this.#substitutions.push({ prefix: text, suffix: "" });
+        }
+        return {
+            text: this.#templateArgs(text),
+            qualifiers: "",
+            hasTemplateArgs: true,
+            isSpecialMember,
+        };
+    }
+
+    #nestedName(): CppName {
+        this.#expect("N");
+        let qualifiers = this.#cvQualifiers();
+        if (this.#eat("R")) {
+            qualifiers += " &";
+        } else if (this.#eat("O")) {
+            qualifiers += " &&";
+        }
+
+        let text = "";
+        let hasTemplateArgs = false;
+        let isSpecialMember = false;
+        while (!this.#eat("E")) {
+            // Neither `std` nor substitutions are added to the substitutions again.
+            if (this.#eat("St")) {
+                text = "std";
+                continue;
+            }
+            if (this.#peek() === "S") {
+                text = formatCppType(this.#substitution());
+                continue;
+            }
+
+            if (this.#peek() === "I") {
+                if (!text) {
+                    throw new Error("Template arguments without a template");
+                }
+                text = this.#templateArgs(text);
+                hasTemplateArgs = true;
+            } else {
+                const name =
+                    this.#peek() === "T"
+                        ? {
+                              text: this.#templateParam(),
+                              isSpecialMember: false,
+                          }
+                        : this.#unqualifiedName(text);
+                text = text ? `${text}::${name.text}` : name.text;
+                hasTemplateArgs = false;
+                isSpecialMember = name.isSpecialMember;
+            }
+
+            // The whole name is only added if it's used as a type.
+            if (this.#peek() !== "E") {
+                this.#substitutions.push({ prefix: text, suffix: "" });
+            }
+        }
+        return { text, qualifiers, hasTemplateArgs, isSpecialMember };
+    }
+
+    #localName(): CppName {
+        this.#expect("Z");
+        const scope = this.#encoding();
+        this.#expect("E");
+
+        if (this.#eat("s")) {
+            this.#discriminator();
+            return {
+                text: `${scope}::string literal`,
+                qualifiers: "",
+                hasTemplateArgs: false,
+                isSpecialMember: false,
+            };
+        }
+        // Entities in default arguments are numbered, but the number isn't shown.
+        if (this.#eat("d") && !this.#eat("_")) {
+            this.#decimal();
+            this.#expect("_");
+        }
+
+        const entity = this.#name();
+        this.#discriminator();
+        return { ...entity, text: `${scope}::${entity.text}` };
+    }
+
+    /**
+     * Reads a name which isn't qualified by its scope.
+     * @param scope the name of the scope, which constructors and destructors are named after
+     */
+    #unqualifiedName(scope: string): {
+        text: string;
+        isSpecialMember: boolean;
+    } {
+        // Names with internal linkage are marked with `L`.
+        this.#eat("L");
+
+        let name: { text: string; isSpecialMember: boolean };
+        const char = this.#peek();
+        if (this.#isDigit(char)) {
+            name = { text: this.#sourceName(), isSpecialMember: false };
+        } else if (
+            char === "C" ||
+            (char === "D" && /[0-5]/.test(this.#peek(1) ?? ""))
+        ) {
+            this.#pos++;
+            // Inheriting constructors also name the class they're inherited from.
+            const isInherited = char === "C" && this.#eat("I");
+            if (!this.#isDigit(this.#peek())) {
+                throw new Error("Invalid constructor or destructor");
+            }
+            this.#pos++;
+            if (isInherited) {
+                this.#type();
+            }
+            const className = getCppBaseName(scope);
+            name = {
+                text: char === "D" ? `~${className}` : className,
+                isSpecialMember: true,
+            };
+        } else if (char === "U") {
+            name = { text: this.#unnamedTypeName(), isSpecialMember: false };
+        } else {
+            name = this.#operatorName();
+        }
+
+        while (this.#eat("B")) {
+            name.text += `[abi:${this.#sourceName()}]`;
+        }
+        return name;
+    }
+
+    #sourceName(): string {
+        const length = this.#decimal();
+        if (length === 0 || this.#pos + length > this.input.length) {
+            throw new Error("Invalid identifier length");
+        }
+        const identifier = this.input.substring(this.#pos, this.#pos + length);
+        this.#pos += length;
+        return identifier.startsWith("_GLOBAL__N")
+            ? "(anonymous namespace)"
+            : identifier;
+    }
+
+    #unnamedTypeName(): string {
+        if (this.#eat("Ut")) {
+            return `{unnamed type#${this.#unnamedIndex()}}`;
+        }
+
+        this.#expect("Ul");
+        const params: string[] = [];
+        while (!this.#eat("E")) {
+            params.push(formatCppType(this.#type()));
+        }
+        return `{lambda(${formatCppParams(params)})#${this.#unnamedIndex()}}`;
+    }
+
+    #operatorName(): { text: string; isSpecialMember: boolean } {
+        if (this.#eat("cv")) {
+            return {
+                text: `operator ${formatCppType(this.#type())}`,
+                isSpecialMember: true,
+            };
+        }
+        if (this.#eat("li")) {
+            return {
+                text: `operator"" ${this.#sourceName()}`,
+                isSpecialMember: false,
+            };
+        }
+        if (this.#peek() === "v" && this.#isDigit(this.#peek(1))) {
+            this.#pos += 2;
+            return {
+                text: `operator ${this.#sourceName()}`,
+                isSpecialMember: false,
+            };
+        }
+
+        const code = this.input.substring(this.#pos, this.#pos + 2);
+        if (!Object.hasOwn(ITANIUM_OPERATORS, code)) {
+            throw new Error("Unknown operator");
+        }
+        this.#pos += 2;
+        return {
+            text: `operator${ITANIUM_OPERATORS[code]}`,
+            isSpecialMember: false,
+        };
+    }
+
+    #cvQualifiers(): string {
+        let qualifiers = "";
+        if (this.#eat("r")) {
+            qualifiers = " restrict";
+        }
+        if (this.#eat("V")) {
+            qualifiers = ` volatile${qualifiers}`;
+        }
+        if (this.#eat("K")) {
+            qualifiers = ` const${qualifiers}`;
+        }
+        return qualifiers;
+    }
+
+    #substitution(): CppType {
+        this.#expect("S");
+        const abbreviation = this.#peek();
+        if (
+            abbreviation !== undefined &&
+            Object.hasOwn(ITANIUM_STANDARD_SUBSTITUTIONS, abbreviation)
+        ) {
+            this.#pos++;
+            return {
+                prefix: ITANIUM_STANDARD_SUBSTITUTIONS[abbreviation],
+                suffix: "",
+            };
+        }
+
+        let index = 0;
+        if (!this.#eat("_")) {
+            index = this.#seqId() + 1;
+            this.#expect("_");
+        }
+        const substitution = this.#substitutions[index];
+        if (!substitution) {
+            throw new Error("Substitutions must point backwards");
+        }
+        return substitution;
+    }
+
+    #templateParam(): string {
+        this.#expect("T");
+        let index = 0;
+        if (!this.#eat("_")) {
+            index = this.#decimal() + 1;
+            this.#expect("_");
+        }
+        const param = this.#templateParams[index];
+        if (param === undefined) {
+            throw new Error("Unknown template parameter");
+        }
+        return param;
+    }
+
+    /**
+     * Reads the arguments of a template.
+     * @param template the name of the template
+     * @returns the name with the arguments added to it
+     */
+    #templateArgs(template: string): string {
+        this.#expect("I");
+        const args: string[] = [];
+        while (!this.#eat("E")) {
+            args.push(this.#templateArg());
+        }
+
+        // Template parameters refer to the arguments of the function's name, not the ones in its types.
+        if (this.#typeDepth === 0) {
+            this.#templateParams = args;
+        }
+        const list = args.join(", ");
+        // Angle brackets are kept apart from each other, like `operator<< <char>` and `Foo<Bar<int> >`.
+        const open = template.endsWith("<") ? " <" : "<";
+        return `${template}${open}${list}${list.endsWith(">") ? " " : ""}>`;
+    }
+
+    #templateArg(): string {
+        if (this.#peek() === "L") {
+            return this.#literal();
+        }
+        if (this.#eat("X")) {
+            const expression = this.#expression();
+            this.#expect("E");
+            return expression;
+        }
+        if (this.#eat("J")) {
+            const pack: string[] = [];
+            while (!this.#eat("E")) {
+                pack.push(this.#templateArg());
+            }
+            return pack.join(", ");
+        }
+        return formatCppType(this.#type());
+    }
+
+    /**
+     * Reads the few kinds of expressions which are common in template arguments.
+     */
+    #expression(): string {
+        if (this.#peek() === "T") {
+            return this.#templateParam();
+        }
+        if (this.#peek() === "L") {
+            return this.#literal();
+        }
+        if (this.#eat("fp")) {
+            this.#cvQualifiers();
+            return `{parm#${this.#unnamedIndex()}}`;
+        }
+        throw new Error("Unsupported expression");
+    }
+
+    #literal(): string {
+        this.#expect("L");
+        if (this.#eat("_Z")) {
+            const encoding = this.#encoding();
+            this.#expect("E");
+            return encoding;
+        }
+
+        const type = formatCppType(this.#type());
+        const end = this.input.indexOf("E", this.#pos);
+        if (end < 0) {
+            throw new Error("Unterminated literal");
+        }
+        const value = this.input.substring(this.#pos, end).replace(/^n/, "-");
+        this.#pos = end + 1;
+
+        if (type === "decltype(nullptr)") {
+            return "nullptr";
+        }
+        if (type === "bool") {
+            return value === "0" ? "false" : "true";
+        }
+        const suffix = Object.entries(ITANIUM_BUILTIN_TYPES).find(
+            ([tag, name]) =>
+                name === type && Object.hasOwn(ITANIUM_LITERAL_SUFFIXES, tag),
+        );
+        return suffix
+            ? `${value}${ITANIUM_LITERAL_SUFFIXES[suffix[0]]}`
+            : `(${type})${value}`;
+    }
+
+    #type(): CppType {
+        this.#typeDepth++;
+        try {
+            return this.#readType();
+        } finally {
+            this.#typeDepth--;
+        }
+    }
+
+    #readType(): CppType {
+        const char = this.#peek();
+        // Builtin types are never substituted.
+        if (char !== undefined && Object.hasOwn(ITANIUM_BUILTIN_TYPES, char)) {
+            this.#pos++;
+            return { prefix: ITANIUM_BUILTIN_TYPES[char], suffix: "" };
+        }
+        const extended = this.#peek(1);
+        if (
+            char === "D" &&
+            extended !== undefined &&
+            Object.hasOwn(ITANIUM_EXTENDED_BUILTIN_TYPES, extended)
+        ) {
+            this.#pos += 2;
+            return {
+                prefix: ITANIUM_EXTENDED_BUILTIN_TYPES[extended],
+                suffix: "",
+            };
+        }
+
+        let type: CppType;
+        switch (char) {
+            case "r":
+            case "V":
+            case "K": {
+                const qualifiers = this.#cvQualifiers();
+                const inner = this.#type();
+                // Qualifiers on a function type belong to the member function that it's the type of.
+                type =
+                    inner.suffix && !inner.hasDeclarator
+                        ? { ...inner, suffix: inner.suffix + qualifiers }
+                        : { ...inner, prefix: inner.prefix + qualifiers };
+                break;
+            }
+            case "P":
+            case "R":
+            case "O": {
+                this.#pos++;
+                const inner = this.#type();
+                // References to references collapse into one reference.
+                if (
+                    char !== "P" &&
+                    !inner.suffix &&
+                    inner.prefix.endsWith("&")
+                ) {
+                    type =
+                        char === "R"
+                            ? {
+                                  prefix: inner.prefix.replace(/&&$/, "&"),
+                                  suffix: "",
+                              }
+                            : inner;
+                    break;
+                }
+                type = this.#pointerTo(
+                    inner,
+                    { P: "*", R: "&", O: "&&" }[char],
+                );
+                break;
+            }
+            case "C":
+            case "G": {
+                this.#pos++;
+                const inner = formatCppType(this.#type());
+                type = {
+                    prefix: `${inner} ${char === "C" ? "_Complex" : "_Imaginary"}`,
+                    suffix: "",
+                };
+                break;
+            }
+            case "F":
+                type = this.#functionType();
+                break;
+            case "A":
+                type = this.#arrayType();
+                break;
+            case "M": {
+                this.#pos++;
+                const className = formatCppType(this.#type());
+                const member = this.#type();
+                type = member.suffix
+                    ? this.#pointerTo(member, `${className}::*`)
+                    : {
+                          prefix: `${member.prefix} ${className}::*`,
+                          suffix: "",
+                      };
+                break;
+            }
+            case "T":
+                type = { prefix: this.#templateParam(), suffix: "" };
+                if (this.#peek() === "I") {
+                    this.#substitutions.push(type);
+                    type = {
+                        prefix: this.#templateArgs(type.prefix),
+                        suffix: "",
+                    };
+                }
+                break;
+            case "S": {
+                if (this.#peek(1) === "t") {
+                    type = { prefix: this.#name().text, suffix: "" };
+                    break;
+                }
+                const substitution = this.#substitution();
+                if (this.#peek() !== "I") {
+                    return substitution;
+                }
+                type = {
+                    prefix: this.#templateArgs(formatCppType(substitution)),
+                    suffix: "",
+                };
+                break;
+            }
+            case "D":
+                if (!this.#eat("Dp")) {
+                    throw new Error("Unsupported type");
+                }
+                // The arguments of a pack are known, so they're shown instead of the expansion.
+                type = this.#type();
+                break;
+            case "u":
+                this.#pos++;
+                type = { prefix: this.#sourceName(), suffix: "" };
+                break;
+            case "N":
+            case "Z":
+                type = { prefix: this.#name().text, suffix: "" };
+                break;
+            default:
+                if (!this.#isDigit(char)) {
+                    throw new Error("Unsupported type");
+                }
+                type = { prefix: this.#name().text, suffix: "" };
+        }
+        this.#substitutions.push(type);
+        return type;
+    }
+
+    #pointerTo(inner: CppType, declarator: string): CppType {
+        if (inner.hasDeclarator) {
+            return { ...inner, prefix: inner.prefix + declarator };
+        }
+        if (inner.suffix) {
+            return {
+                prefix: `${inner.prefix}(${declarator}`,
+                suffix: `)${inner.suffix.startsWith("[") ? " " : ""}${inner.suffix}`,
+                hasDeclarator: true,
+            };
+        }
+        return { prefix: inner.prefix + declarator, suffix: "" };
+    }
+
+    #functionType(): CppType {
+        this.#expect("F");
+        // Functions with C linkage are marked with `Y`.
+        this.#eat("Y");
+        const returnType = formatCppType(this.#type());
+        const params: string[] = [];
+        let refQualifier = "";
+        while (!this.#eat("E")) {
+            if (this.#eat("RE")) {
+                refQualifier = " &";
+                break;
+            }
+            if (this.#eat("OE")) {
+                refQualifier = " &&";
+                break;
+            }
+            params.push(formatCppType(this.#type()));
+        }
+        return {
+            prefix: `${returnType} `,
+            suffix: `(${formatCppParams(params)})${refQualifier}`,
+        };
+    }
+
+    #arrayType(): CppType {
+        this.#expect("A");
+        let size = "";
+        if (!this.#eat("_")) {
+            size = String(this.#decimal());
+            this.#expect("_");
+        }
+        const element = this.#type();
+        return {
+            prefix: element.suffix ? element.prefix : `${element.prefix} `,
+            suffix: `[${size}]${element.suffix}`,
+            hasDeclarator: element.hasDeclarator,
+        };
+    }
+}
+
+/**
+ * Demangles a C++ symbol name. Other names, including Rust names which use the same prefix, are returned
+ * unchanged.
+ * @param name the symbol name, which may already be demangled
+ * @returns the demangled name
+ */
+export function demangleCppSymbolName(name: string): string {
+    const match = /^_Z(.*)$/.exec(name);
+    if (!match || demangleLegacy(name, true) !== undefined) {
+        return name;
+    }
+    try {
+        return new ItaniumDemangler(match[1]).demangle();
+    } catch {
+        return name;
+    }
+}
+
+/**
+ * Demangles a Rust symbol name. Other names, including C++ names (which the readers already demangle),
+ * are returned unchanged.
+ * @param name the symbol name, which may already be demangled
+ * @param showHashes whether to keep the hashes which tell different versions of a crate apart
+ * @returns the demangled name
+ */
+export function demangleSymbolName(name: string, showHashes: boolean): string {
+    const v0Match = /^_{1,2}R(.*)$/.exec(name);
+    if (v0Match) {
+        try {
+            return new V0Demangler(v0Match[1], showHashes).demangle();
+        } catch {
+            return name;
+        }
+    }
+
+    const legacy = demangleLegacy(name, showHashes);
+    if (legacy !== undefined) {
+        return legacy;
+    }
+
+    // Readers that demangle legacy symbols themselves leave the hash on the end, like `foo::h0123456789abcdef`.
+    return showHashes ? name : name.replace(/::h[0-9a-f]{16}$/, "");
+}
+
+/**
+ * Demangles a Rust or C++ symbol name which was read straight from a symbol table, so no reader has
+ * demangled it.
+ * @param name the symbol name
+ * @param showHashes whether to keep the hashes which tell different versions of a crate apart
+ * @returns the demangled name
+ */
+export function demangleElfSymbolName(
+    name: string,
+    showHashes: boolean,
+): string {
+    const demangled = demangleSymbolName(name, showHashes);
+    return demangled === name ? demangleCppSymbolName(name) : demangled;
+}
+
+/**
+ * Demangles the Rust names of a symbol and its inlined frames. The symbol itself isn't changed, because
+ * readers may reuse it.
+ * @param symbol the symbol to demangle
+ * @param showHashes whether to keep the hashes which tell different versions of a crate apart
+ * @returns a copy of the symbol with demangled names
+ */
+export function demangleSymbol<
+    Frame extends { symbolName: string },
+    Symbol extends Frame & { inlinedFrames: Frame[] },
+>(symbol: Symbol, showHashes: boolean): Symbol {
+    const demangleFrame = (frame: Frame): Frame => ({
+        ...frame,
+        symbolName: demangleSymbolName(frame.symbolName, showHashes),
+    });
+    return {
+        ...symbol,
+        ...demangleFrame(symbol),
+        inlinedFrames: symbol.inlinedFrames.map(demangleFrame),
+    };
+}
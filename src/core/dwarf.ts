@@ -0,0 +1,1454 @@
+import * as path from "node:path";
+import { ElfFile } from "./elf.js";
+
+/**
+ * An address range covered by a DWARF entry or line sequence. The end is exclusive.
+ */
+export interface AddressRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * A position in a source file, as recorded in debugging information.
+ */
+export interface SourcePosition {
+    /**
+     * The full path of the source file, as it was recorded when the program was compiled.
+     */
+    file: string;
+    /**
+     * The 1-based line number, or 0 if the position isn't attributed to a line.
+     */
+    line: number;
+    /**
+     * The 1-based column number, or 0 if the column is unknown.
+     */
+    column: number;
+}
+
+/**
+ * A row from a DWARF line number table.
+ */
+export interface LineRow extends SourcePosition {
+    address: number;
+}
+
+/**
+ * A function or inlined function call from the `.debug_info` section.
+ */
+export interface DwarfScope {
+    /**
+     * The human-readable (namespace-qualified) name of the function.
+     */
+    name: string | undefined;
+    /**
+     * The address ranges covered by this scope.
+     */
+    ranges: AddressRange[];
+    /**
+     * Whether this scope is a function that was inlined into its parent scope.
+     */
+    isInlined: boolean;
+    /**
+     * If this scope was inlined, the position of the call in the parent scope which was replaced with
+     * this scope's code.
+     */
+    callSite?: SourcePosition;
+}
+
+interface AttributeValue {
+    form: number;
+    value: number | string;
+}
+
+interface DwarfUnit {
+    offset: number;
+    version: number;
+    addressSize: number;
+    offsetSize: number;
+    root?: DwarfEntry;
+    lineTable?: LineSequence[];
+    lineFiles?: string[];
+}
+
+interface DwarfEntry {
+    offset: number;
+    tag: number;
+    attributes: Map<number, AttributeValue>;
+    unit: DwarfUnit;
+    parent?: DwarfEntry;
+    children: DwarfEntry[];
+}
+
+interface AbbreviationSpec {
+    name: number;
+    form: number;
+    implicitConst?: number;
+}
+
+interface Abbreviation {
+    tag: number;
+    hasChildren: boolean;
+    attributes: AbbreviationSpec[];
+}
+
+interface DwarfSections {
+    info: Uint8Array;
+    abbrev: Uint8Array;
+    line?: Uint8Array;
+    str?: Uint8Array;
+    lineStr?: Uint8Array;
+    strOffsets?: Uint8Array;
+    addr?: Uint8Array;
+    ranges?: Uint8Array;
+    rnglists?: Uint8Array;
+}
+
+interface LineSequence extends AddressRange {
+    rows: LineRow[];
+}
+
+interface IndexedFunction extends AddressRange {
+    entry: DwarfEntry;
+}
+
+/**
+ * A variable which is stored at a fixed address, like a global or a `static` variable.
+ */
+export interface DwarfVariable {
+    /**
+     * The human-readable (namespace-qualified) name of the variable.
+     */
+    name: string | undefined;
+    address: number;
+    /**
+     * The full path of the source file whose compile unit defines the variable, as it was recorded when
+     * the program was compiled.
+     */
+    compileUnit: string | undefined;
+}
+
+const DW_TAG_class_type = 0x02;
+const DW_TAG_structure_type = 0x13;
+const DW_TAG_union_type = 0x17;
+const DW_TAG_compile_unit = 0x11;
+const DW_TAG_inlined_subroutine = 0x1d;
+const DW_TAG_subprogram = 0x2e;
+const DW_TAG_variable = 0x34;
+const DW_TAG_namespace = 0x39;
+const DW_TAG_partial_unit = 0x3c;
+const DW_TAG_skeleton_unit = 0x4a;
+
+const DW_AT_location = 0x02;
+const DW_AT_name = 0x03;
+const DW_AT_stmt_list = 0x10;
+const DW_AT_low_pc = 0x11;
+const DW_AT_high_pc = 0x12;
+const DW_AT_comp_dir = 0x1b;
+const DW_AT_abstract_origin = 0x31;
+const DW_AT_specification = 0x47;
+const DW_AT_ranges = 0x55;
+const DW_AT_linkage_name = 0x6e;
+const DW_AT_str_offsets_base = 0x72;
+const DW_AT_addr_base = 0x73;
+const DW_AT_rnglists_base = 0x74;
+const DW_AT_call_column = 0x57;
+const DW_AT_call_file = 0x58;
+const DW_AT_call_line = 0x59;
+const DW_AT_MIPS_linkage_name = 0x2007;
+
+const DW_FORM_addr = 0x01;
+const DW_FORM_block2 = 0x03;
+const DW_FORM_block4 = 0x04;
+const DW_FORM_data2 = 0x05;
+const DW_FORM_data4 = 0x06;
+const DW_FORM_data8 = 0x07;
+const DW_FORM_string = 0x08;
+const DW_FORM_block = 0x09;
+const DW_FORM_block1 = 0x0a;
+const DW_FORM_data1 = 0x0b;
+const DW_FORM_flag = 0x0c;
+const DW_FORM_sdata = 0x0d;
+const DW_FORM_strp = 0x0e;
+const DW_FORM_udata = 0x0f;
+const DW_FORM_ref_addr = 0x10;
+const DW_FORM_ref1 = 0x11;
+const DW_FORM_ref2 = 0x12;
+const DW_FORM_ref4 = 0x13;
+const DW_FORM_ref8 = 0x14;
+const DW_FORM_ref_udata = 0x15;
+const DW_FORM_indirect = 0x16;
+const DW_FORM_sec_offset = 0x17;
+const DW_FORM_exprloc = 0x18;
+const DW_FORM_flag_present = 0x19;
+const DW_FORM_strx = 0x1a;
+const DW_FORM_addrx = 0x1b;
+const DW_FORM_ref_sup4 = 0x1c;
+const DW_FORM_strp_sup = 0x1d;
+const DW_FORM_data16 = 0x1e;
+const DW_FORM_line_strp = 0x1f;
+const DW_FORM_ref_sig8 = 0x20;
+const DW_FORM_implicit_const = 0x21;
+const DW_FORM_loclistx = 0x22;
+const DW_FORM_rnglistx = 0x23;
+const DW_FORM_ref_sup8 = 0x24;
+const DW_FORM_strx1 = 0x25;
+const DW_FORM_strx2 = 0x26;
+const DW_FORM_strx3 = 0x27;
+const DW_FORM_strx4 = 0x28;
+const DW_FORM_addrx1 = 0x29;
+const DW_FORM_addrx2 = 0x2a;
+const DW_FORM_addrx3 = 0x2b;
+const DW_FORM_addrx4 = 0x2c;
+const DW_FORM_GNU_addr_index = 0x1f01;
+const DW_FORM_GNU_str_index = 0x1f02;
+const DW_FORM_GNU_ref_alt = 0x1f20;
+const DW_FORM_GNU_strp_alt = 0x1f21;
+
+/**
+ * The forms which attributes like `DW_AT_high_pc` use when their value is an address rather than an offset.
+ */
+const ADDRESS_FORMS = new Set([
+    DW_FORM_addr,
+    DW_FORM_addrx,
+    DW_FORM_addrx1,
+    DW_FORM_addrx2,
+    DW_FORM_addrx3,
+    DW_FORM_addrx4,
+    DW_FORM_GNU_addr_index,
+]);
+
+const DW_OP_addr = 0x03;
+const DW_OP_addrx = 0xa1;
+const DW_OP_GNU_addr_index = 0xfb;
+
+const DW_LNCT_path = 0x1;
+const DW_LNCT_directory_index = 0x2;
+
+const DW_RLE_end_of_list = 0x0;
+const DW_RLE_base_addressx = 0x1;
+const DW_RLE_startx_endx = 0x2;
+const DW_RLE_startx_length = 0x3;
+const DW_RLE_offset_pair = 0x4;
+const DW_RLE_base_address = 0x5;
+const DW_RLE_start_end = 0x6;
+const DW_RLE_start_length = 0x7;
+
+/**
+ * Tags of entries which are kept in memory after parsing. Every other entry is skipped over, and its
+ * children are attached to the closest kept ancestor.
+ */
+const INTERESTING_TAGS = new Set([
+    DW_TAG_compile_unit,
+    DW_TAG_partial_unit,
+    DW_TAG_skeleton_unit,
+    DW_TAG_subprogram,
+    DW_TAG_inlined_subroutine,
+    DW_TAG_variable,
+    DW_TAG_namespace,
+    DW_TAG_class_type,
+    DW_TAG_structure_type,
+    DW_TAG_union_type,
+]);
+
+/**
+ * Tags of entries whose names are used to qualify the names of the functions inside of them.
+ */
+const QUALIFYING_TAGS = new Set([
+    DW_TAG_subprogram,
+    DW_TAG_namespace,
+    DW_TAG_class_type,
+    DW_TAG_structure_type,
+    DW_TAG_union_type,
+]);
+
+/**
+ * Reads little-endian DWARF-encoded values from a section.
+ */
+class ByteReader {
+    readonly #view: DataView;
+
+    constructor(
+        public readonly bytes: Uint8Array,
+        public offset = 0,
+    ) {
+        this.#view = new DataView(
+            bytes.buffer,
+            bytes.byteOffset,
+            bytes.byteLength,
+        );
+    }
+
+    get isAtEnd() {
+        return this.offset >= this.bytes.length;
+    }
+
+    u8() {
+        return this.bytes[this.offset++];
+    }
+
+    i8() {
+        return this.#view.getInt8(this.offset++);
+    }
+
+    u16() {
+        const value = this.#view.getUint16(this.offset, true);
+        this.offset += 2;
+        return value;
+    }
+
+    u24() {
+        return this.u16() + this.u8() * 0x10000;
+    }
+
+    u32() {
+        const value = this.#view.getUint32(this.offset, true);
+        this.offset += 4;
+        return value;
+    }
+
+    u64() {
+        const low = this.u32();
+        return low + this.u32() * 0x1_0000_0000;
+    }
+
+    uint(size: number) {
+        switch (size) {
+            case 1:
+                return this.u8();
+            case 2:
+                return this.u16();
+            case 4:
+                return this.u32();
+            case 8:
+                return this.u64();
+            default:
+                throw new Error(`Unsupported integer size: ${size}`);
+        }
+    }
+
+    uleb() {
+        let value = 0;
+        let multiplier = 1;
+        let byte: number;
+        do {
+            byte = this.u8();
+            value += (byte & 0x7f) * multiplier;
+            multiplier *= 128;
+        } while (byte & 0x80);
+        return value;
+    }
+
+    sleb() {
+        let value = 0;
+        let multiplier = 1;
+        let byte: number;
+        do {
+            byte = this.u8();
+            value += (byte & 0x7f) * multiplier;
+            multiplier *= 128;
+        } while (byte & 0x80);
+        if (byte & 0x40) {
+            value -= multiplier;
+        }
+        return value;
+    }
+
+    skip(length: number) {
+        this.offset += length;
+    }
+
+    cstring() {
+        let end = this.offset;
+        while (end < this.bytes.length && this.bytes[end] !== 0) {
+            end++;
+        }
+        const value = decodeString(this.bytes.subarray(this.offset, end));
+        this.offset = end + 1;
+        return value;
+    }
+
+    /**
+     * Reads an initial length field, which also determines whether the unit uses 32- or 64-bit offsets.
+     */
+    unitLength() {
+        let length = this.u32();
+        let offsetSize = 4;
+        if (length === 0xffffffff) {
+            length = this.u64();
+            offsetSize = 8;
+        }
+        return { length, offsetSize };
+    }
+}
+
+const decoder = new TextDecoder();
+function decodeString(bytes: Uint8Array) {
+    return decoder.decode(bytes);
+}
+
+/**
+ * Reads a null-terminated string at an offset in a string section.
+ */
+function readStringAt(section: Uint8Array | undefined, offset: number) {
+    if (!section || offset >= section.length) {
+        return undefined;
+    }
+    return new ByteReader(section, offset).cstring();
+}
+
+/**
+ * Joins a path recorded in debug info to the directory it is relative to, respecting the path style of
+ * the machine that compiled the program.
+ */
+function joinDebugPath(directory: string | undefined, file: string) {
+    const isWindows = (p: string) => /^[a-zA-Z]:[\\/]|^\\\\/.test(p);
+    if (!directory || path.posix.isAbsolute(file) || isWindows(file)) {
+        return file;
+    }
+    if (isWindows(directory)) {
+        return path.win32.join(directory, file);
+    }
+    return path.posix.join(directory, file);
+}
+
+/**
+ * Debugging information read from the DWARF sections of an ELF file.
+ */
+export class DwarfInfo {
+    /**
+     * Reads the DWARF sections of an ELF file.
+     * @param elf the file to read
+     * @returns the debugging information, or undefined if the file doesn't have any
+     */
+    static fromElf(elf: ElfFile): DwarfInfo | undefined {
+        const sectionData = (name: string) => {
+            const section = elf.getSection(name);
+            return section && elf.getSectionData(section);
+        };
+
+        const info = sectionData(".debug_info");
+        const abbrev = sectionData(".debug_abbrev");
+        if (!info || !abbrev) {
+            return undefined;
+        }
+
+        return new DwarfInfo({
+            info,
+            abbrev,
+            line: sectionData(".debug_line"),
+            str: sectionData(".debug_str"),
+            lineStr: sectionData(".debug_line_str"),
+            strOffsets: sectionData(".debug_str_offsets"),
+            addr: sectionData(".debug_addr"),
+            ranges: sectionData(".debug_ranges"),
+            rnglists: sectionData(".debug_rnglists"),
+        });
+    }
+
+    readonly #sections: DwarfSections;
+
+    readonly #units: DwarfUnit[] = [];
+    readonly #entries = new Map<number, DwarfEntry>();
+    readonly #abbreviationTables = new Map<number, Map<number, Abbreviation>>();
+    #functions: IndexedFunction[] = [];
+    #variables: Map<number, DwarfEntry> | undefined;
+
+    private constructor(sections: DwarfSections) {
+        this.#sections = sections;
+        this.#parseUnits();
+        this.#indexFunctions();
+    }
+
+    /**
+     * Finds the chain of scopes which contain an address.
+     * @param address the address to look up
+     * @returns the scopes, from the outermost function to the innermost inlined call
+     */
+    findScopes(address: number): DwarfScope[] {
+        const entries = this.#findEntries(address);
+        return entries.map((entry) => ({
+            name: this.#getQualifiedName(entry),
+            ranges: this.#getRanges(entry),
+            isInlined: entry.tag === DW_TAG_inlined_subroutine,
+            callSite: this.#getCallSite(entry),
+        }));
+    }
+
+    /**
+     * Finds the source code line which an address was generated from.
+     * @param address the address to look up
+     * @returns the line table row, or undefined if the address has no line information
+     */
+    findLine(address: number): LineRow | undefined {
+        const unit = this.#findUnit(address);
+        const sequences = unit
+            ? this.#getLineTable(unit)
+            : this.#units.flatMap((unit) => this.#getLineTable(unit));
+
+        for (const sequence of sequences) {
+            if (address < sequence.start || address >= sequence.end) {
+                continue;
+            }
+
+            // Find the last row at or before the address.
+            let low = 0;
+            let high = sequence.rows.length - 1;
+            while (low < high) {
+                const middle = Math.ceil((low + high) / 2);
+                if (sequence.rows[middle].address <= address) {
+                    low = middle;
+                } else {
+                    high = middle - 1;
+                }
+            }
+
+            const row = sequence.rows[low];
+            if (row.line !== 0) {
+                return row;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Finds the variable which is stored at an address, such as the address of an `STT_OBJECT` symbol.
+     * @param address the address of the start of the variable
+     * @returns the variable, or undefined if no variable with a fixed address starts there
+     */
+    findVariable(address: number): DwarfVariable | undefined {
+        const entry = this.#indexVariables().get(address);
+        if (!entry) {
+            return undefined;
+        }
+
+        const root = entry.unit.root;
+        const name = root && this.#getString(root, DW_AT_name);
+        return {
+            name: this.#getQualifiedName(entry),
+            address,
+            compileUnit:
+                name &&
+                joinDebugPath(
+                    root && this.#getString(root, DW_AT_comp_dir),
+                    name,
+                ),
+        };
+    }
+
+    /**
+     * Lists every source file in the line tables.
+     * @returns the full paths of the files, as they were recorded when the program was compiled
+     */
+    getSourceFiles(): string[] {
+        const files = new Set<string>();
+        for (const unit of this.#units) {
+            for (const sequence of this.#getLineTable(unit)) {
+                for (const row of sequence.rows) {
+                    files.add(row.file);
+                }
+            }
+        }
+        files.delete("");
+        return Array.from(files);
+    }
+
+    /**
+     * Finds the addresses which were generated from a line of source code.
+     * @param files the full paths of the source file, as recorded in the line tables
+     * @param line the 1-based line number
+     * @returns the address ranges, sorted and merged where they touch
+     */
+    findLineAddresses(files: string[], line: number): AddressRange[] {
+        const ranges: AddressRange[] = [];
+        for (const unit of this.#units) {
+            for (const sequence of this.#getLineTable(unit)) {
+                sequence.rows.forEach((row, index) => {
+                    if (row.line !== line || !files.includes(row.file)) {
+                        return;
+                    }
+
+                    // Each row covers the addresses up to the next row with a different address.
+                    const next = sequence.rows
+                        .slice(index + 1)
+                        .find((other) => other.address > row.address);
+                    const end = next?.address ?? sequence.end;
+                    if (end > row.address) {
+                        ranges.push({ start: row.address, end });
+                    }
+                });
+            }
+        }
+
+        ranges.sort((a, b) => a.start - b.start);
+        const merged: AddressRange[] = [];
+        for (const range of ranges) {
+            const last = merged.at(-1);
+            if (last && range.start <= last.end) {
+                last.end = Math.max(last.end, range.end);
+            } else {
+                merged.push({ ...range });
+            }
+        }
+        return merged;
+    }
+
+    #parseUnits() {
+        const reader = new ByteReader(this.#sections.info);
+        while (!reader.isAtEnd) {
+            const offset = reader.offset;
+            const { length, offsetSize } = reader.unitLength();
+            const end = reader.offset + length;
+            const version = reader.u16();
+
+            let addressSize: number;
+            let abbrevOffset: number;
+            if (version >= 5) {
+                const unitType = reader.u8();
+                addressSize = reader.u8();
+                abbrevOffset = reader.uint(offsetSize);
+                // Skeleton and split compile units have an 8-byte ID, type units have a signature and offset.
+                if (unitType === 0x04 || unitType === 0x05) {
+                    reader.offset += 8;
+                } else if (unitType === 0x02 || unitType === 0x06) {
+                    reader.offset += 8 + offsetSize;
+                }
+            } else {
+                abbrevOffset = reader.uint(offsetSize);
+                addressSize = reader.u8();
+            }
+
+            const unit: DwarfUnit = {
+                offset,
+                version,
+                addressSize,
+                offsetSize,
+            };
+
+            try {
+                this.#parseEntries(
+                    unit,
+                    new ByteReader(
+                        this.#sections.info.subarray(0, end),
+                        reader.offset,
+                    ),
+                    this.#getAbbreviations(abbrevOffset),
+                );
+                this.#units.push(unit);
+            } catch {
+                // One malformed unit shouldn't prevent the rest of the program from being symbolized.
+            }
+
+            reader.offset = end;
+        }
+    }
+
+    #getAbbreviations(offset: number): Map<number, Abbreviation> {
+        const cached = this.#abbreviationTables.get(offset);
+        if (cached) {
+            return cached;
+        }
+
+        const table = new Map<number, Abbreviation>();
+        const reader = new ByteReader(this.#sections.abbrev, offset);
+        while (!reader.isAtEnd) {
+            const code = reader.uleb();
+            if (code === 0) {
+                break;
+            }
+
+            const tag = reader.uleb();
+            const hasChildren = reader.u8() !== 0;
+            const attributes: AbbreviationSpec[] = [];
+            while (true) {
+                const name = reader.uleb();
+                const form = reader.uleb();
+                if (name === 0 && form === 0) {
+                    break;
+                }
+                const spec: AbbreviationSpec = { name, form };
+                if (form === DW_FORM_implicit_const) {
+                    spec.implicitConst = reader.sleb();
+                }
+                attributes.push(spec);
+            }
+
+            table.set(code, { tag, hasChildren, attributes });
+        }
+
+        this.#abbreviationTables.set(offset, table);
+        return table;
+    }
+
+    #parseEntries(
+        unit: DwarfUnit,
+        reader: ByteReader,
+        abbreviations: Map<number, Abbreviation>,
+    ) {
+        // Each level of nesting holds the closest kept ancestor of the entries at that level.
+        const ancestors: (DwarfEntry | undefined)[] = [];
+
+        while (!reader.isAtEnd) {
+            const offset = reader.offset;
+            const code = reader.uleb();
+            if (code === 0) {
+                ancestors.pop();
+                if (ancestors.length === 0) {
+                    break;
+                }
+                continue;
+            }
+
+            const abbreviation = abbreviations.get(code);
+            if (!abbreviation) {
+                throw new Error(`Unknown abbreviation code ${code}`);
+            }
+
+            const isInteresting = INTERESTING_TAGS.has(abbreviation.tag);
+            const attributes = new Map<number, AttributeValue>();
+            for (const spec of abbreviation.attributes) {
+                const value = this.#readAttribute(
+                    reader,
+                    unit,
+                    spec.form,
+                    spec.implicitConst,
+                );
+                if (isInteresting && value) {
+                    attributes.set(spec.name, value);
+                }
+            }
+
+            const parent = ancestors.at(-1);
+            let entry: DwarfEntry | undefined;
+            if (isInteresting) {
+                entry = {
+                    offset,
+                    tag: abbreviation.tag,
+                    attributes,
+                    unit,
+                    parent,
+                    children: [],
+                };
+                parent?.children.push(entry);
+                this.#entries.set(offset, entry);
+                unit.root ??= entry;
+            }
+
+            if (abbreviation.hasChildren) {
+                ancestors.push(entry ?? parent);
+            } else if (ancestors.length === 0) {
+                break;
+            }
+        }
+    }
+
+    #readAttribute(
+        reader: ByteReader,
+        unit: DwarfUnit,
+        form: number,
+        implicitConst?: number,
+    ): AttributeValue | undefined {
+        const { addressSize, offsetSize } = unit;
+        const value = (value: number | string) => ({ form, value });
+
+        switch (form) {
+            case DW_FORM_addr:
+                return value(reader.uint(addressSize));
+            case DW_FORM_data1:
+            case DW_FORM_ref1:
+            case DW_FORM_flag:
+            case DW_FORM_strx1:
+            case DW_FORM_addrx1:
+                return value(reader.u8());
+            case DW_FORM_data2:
+            case DW_FORM_ref2:
+            case DW_FORM_strx2:
+            case DW_FORM_addrx2:
+                return value(reader.u16());
+            case DW_FORM_strx3:
+            case DW_FORM_addrx3:
+                return value(reader.u24());
+            case DW_FORM_data4:
+            case DW_FORM_ref4:
+            case DW_FORM_ref_sup4:
+            case DW_FORM_strx4:
+            case DW_FORM_addrx4:
+                return value(reader.u32());
+            case DW_FORM_data8:
+            case DW_FORM_ref8:
+            case DW_FORM_ref_sig8:
+            case DW_FORM_ref_sup8:
+                return value(reader.u64());
+            case DW_FORM_data16:
+                reader.offset += 16;
+                return undefined;
+            case DW_FORM_sdata:
+                return value(reader.sleb());
+            case DW_FORM_udata:
+            case DW_FORM_ref_udata:
+            case DW_FORM_strx:
+            case DW_FORM_addrx:
+            case DW_FORM_loclistx:
+            case DW_FORM_rnglistx:
+            case DW_FORM_GNU_addr_index:
+            case DW_FORM_GNU_str_index:
+                return value(reader.uleb());
+            case DW_FORM_string:
+                return value(reader.cstring());
+            case DW_FORM_strp:
+            case DW_FORM_line_strp:
+            case DW_FORM_sec_offset:
+            case DW_FORM_strp_sup:
+            case DW_FORM_GNU_ref_alt:
+            case DW_FORM_GNU_strp_alt:
+                return value(reader.uint(offsetSize));
+            case DW_FORM_ref_addr:
+                return value(
+                    reader.uint(unit.version <= 2 ? addressSize : offsetSize),
+                );
+            case DW_FORM_block1:
+                reader.skip(reader.u8());
+                return undefined;
+            case DW_FORM_block2:
+                reader.skip(reader.u16());
+                return undefined;
+            case DW_FORM_block4:
+                reader.skip(reader.u32());
+                return undefined;
+            case DW_FORM_block:
+                reader.skip(reader.uleb());
+                return undefined;
+            case DW_FORM_exprloc: {
+                const end = reader.uleb() + reader.offset;
+                const location = this.#readFixedLocation(reader, unit, end);
+                reader.offset = end;
+                return location;
+            }
+            case DW_FORM_flag_present:
+                return value(1);
+            case DW_FORM_implicit_const:
+                return value(implicitConst ?? 0);
+            case DW_FORM_indirect:
+                return this.#readAttribute(reader, unit, reader.uleb());
+            default:
+                throw new Error(
+                    `Unknown attribute form 0x${form.toString(16)}`,
+                );
+        }
+    }
+
+    /**
+     * Reads a location expression which is just a fixed address, like a global variable's, as an address
+     * attribute. Every other expression is skipped, since they only describe locals and parameters.
+     */
+    #readFixedLocation(
+        reader: ByteReader,
+        unit: DwarfUnit,
+        end: number,
+    ): AttributeValue | undefined {
+        if (reader.offset >= end) {
+            return undefined;
+        }
+
+        let location: AttributeValue | undefined;
+        switch (reader.u8()) {
+            case DW_OP_addr:
+                location = {
+                    form: DW_FORM_addr,
+                    value: reader.uint(unit.addressSize),
+                };
+                break;
+            case DW_OP_addrx:
+            case DW_OP_GNU_addr_index:
+                location = { form: DW_FORM_addrx, value: reader.uleb() };
+                break;
+        }
+        return reader.offset === end ? location : undefined;
+    }
+
+    /**
+     * Gets an integer attribute of an entry, such as an offset or a constant.
+     */
+    #getNumber(entry: DwarfEntry, name: number): number | undefined {
+        const attribute = entry.attributes.get(name);
+        return typeof attribute?.value === "number"
+            ? attribute.value
+            : undefined;
+    }
+
+    #getString(entry: DwarfEntry, name: number): string | undefined {
+        return this.#decodeString(entry.unit, entry.attributes.get(name));
+    }
+
+    #decodeString(
+        unit: DwarfUnit,
+        attribute: AttributeValue | undefined,
+    ): string | undefined {
+        if (!attribute) {
+            return undefined;
+        }
+
+        const { form, value } = attribute;
+        if (typeof value === "string") {
+            return value;
+        }
+
+        switch (form) {
+            case DW_FORM_strp:
+                return readStringAt(this.#sections.str, value);
+            case DW_FORM_line_strp:
+                return readStringAt(this.#sections.lineStr, value);
+            case DW_FORM_strx:
+            case DW_FORM_strx1:
+            case DW_FORM_strx2:
+            case DW_FORM_strx3:
+            case DW_FORM_strx4:
+            case DW_FORM_GNU_str_index:
+                return this.#getIndexedString(unit, value);
+            default:
+                return undefined;
+        }
+    }
+
+    #getIndexedString(unit: DwarfUnit, index: number) {
+        const offsets = this.#sections.strOffsets;
+        if (!offsets) {
+            return undefined;
+        }
+        const base =
+            (unit.root && this.#getNumber(unit.root, DW_AT_str_offsets_base)) ??
+            // DWARF 5 units without a base still have the header of the offsets table to skip over.
+            (unit.version >= 5 ? 2 * unit.offsetSize : 0);
+        const reader = new ByteReader(offsets, base + index * unit.offsetSize);
+        return readStringAt(this.#sections.str, reader.uint(unit.offsetSize));
+    }
+
+    #getAddress(entry: DwarfEntry, name: number): number | undefined {
+        const attribute = entry.attributes.get(name);
+        if (!attribute || typeof attribute.value !== "number") {
+            return undefined;
+        }
+
+        switch (attribute.form) {
+            case DW_FORM_addr:
+                return attribute.value;
+            case DW_FORM_addrx:
+            case DW_FORM_addrx1:
+            case DW_FORM_addrx2:
+            case DW_FORM_addrx3:
+            case DW_FORM_addrx4:
+            case DW_FORM_GNU_addr_index:
+                return this.#getIndexedAddress(entry.unit, attribute.value);
+            default:
+                return undefined;
+        }
+    }
+
+    #getIndexedAddress(unit: DwarfUnit, index: number) {
+        const addresses = this.#sections.addr;
+        if (!addresses) {
+            return undefined;
+        }
+        const base =
+            (unit.root && this.#getNumber(unit.root, DW_AT_addr_base)) ?? 0;
+        const reader = new ByteReader(
+            addresses,
+            base + index * unit.addressSize,
+        );
+        return reader.uint(unit.addressSize);
+    }
+
+    /**
+     * Gets an entry which another entry refers to through an attribute like `DW_AT_abstract_origin`.
+     */
+    #getReference(entry: DwarfEntry, name: number): DwarfEntry | undefined {
+        const attribute = entry.attributes.get(name);
+        if (!attribute || typeof attribute.value !== "number") {
+            return undefined;
+        }
+
+        switch (attribute.form) {
+            case DW_FORM_ref1:
+            case DW_FORM_ref2:
+            case DW_FORM_ref4:
+            case DW_FORM_ref8:
+            case DW_FORM_ref_udata:
+                return this.#entries.get(entry.unit.offset + attribute.value);
+            case DW_FORM_ref_addr:
+                return this.#entries.get(attribute.value);
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Gets the address ranges covered by an entry.
+     */
+    #getRanges(entry: DwarfEntry): AddressRange[] {
+        const low = this.#getAddress(entry, DW_AT_low_pc);
+        const highAttribute = entry.attributes.get(DW_AT_high_pc);
+        if (low !== undefined && highAttribute) {
+            const high = ADDRESS_FORMS.has(highAttribute.form)
+                ? this.#getAddress(entry, DW_AT_high_pc)
+                : low + Number(highAttribute.value);
+            return high === undefined ? [] : [{ start: low, end: high }];
+        }
+
+        const rangesAttribute = entry.attributes.get(DW_AT_ranges);
+        if (rangesAttribute && typeof rangesAttribute.value === "number") {
+            try {
+                return entry.unit.version >= 5
+                    ? this.#readRangeList(entry.unit, rangesAttribute)
+                    : this.#readLegacyRanges(entry.unit, rangesAttribute.value);
+            } catch {
+                return [];
+            }
+        }
+
+        return [];
+    }
+
+    #getUnitBaseAddress(unit: DwarfUnit) {
+        return (unit.root && this.#getAddress(unit.root, DW_AT_low_pc)) ?? 0;
+    }
+
+    /**
+     * Reads a DWARF 2-4 range list from `.debug_ranges`.
+     */
+    #readLegacyRanges(unit: DwarfUnit, offset: number): AddressRange[] {
+        if (!this.#sections.ranges) {
+            return [];
+        }
+
+        const reader = new ByteReader(this.#sections.ranges, offset);
+        const maxAddress = 2 ** (unit.addressSize * 8) - 1;
+        let base = this.#getUnitBaseAddress(unit);
+        const ranges: AddressRange[] = [];
+        while (!reader.isAtEnd) {
+            const start = reader.uint(unit.addressSize);
+            const end = reader.uint(unit.addressSize);
+            if (start === 0 && end === 0) {
+                break;
+            }
+            if (start === maxAddress) {
+                base = end;
+                continue;
+            }
+            if (start !== end) {
+                ranges.push({ start: base + start, end: base + end });
+            }
+        }
+        return ranges;
+    }
+
+    /**
+     * Reads a DWARF 5 range list from `.debug_rnglists`.
+     */
+    #readRangeList(unit: DwarfUnit, attribute: AttributeValue): AddressRange[] {
+        const rnglists = this.#sections.rnglists;
+        if (!rnglists) {
+            return [];
+        }
+
+        let offset = Number(attribute.value);
+        if (attribute.form === DW_FORM_rnglistx) {
+            const base =
+                (unit.root &&
+                    this.#getNumber(unit.root, DW_AT_rnglists_base)) ??
+                0;
+            offset =
+                base +
+                new ByteReader(rnglists, base + offset * unit.offsetSize).uint(
+                    unit.offsetSize,
+                );
+        }
+
+        const reader = new ByteReader(rnglists, offset);
+        let base = this.#getUnitBaseAddress(unit);
+        const address = (index: number) =>
+            this.#getIndexedAddress(unit, index) ?? 0;
+        const ranges: AddressRange[] = [];
+        while (!reader.isAtEnd) {
+            const kind = reader.u8();
+            let start: number;
+            let end: number;
+            switch (kind) {
+                case DW_RLE_end_of_list:
+                    return ranges;
+                case DW_RLE_base_addressx:
+                    base = address(reader.uleb());
+                    continue;
+                case DW_RLE_base_address:
+                    base = reader.uint(unit.addressSize);
+                    continue;
+                case DW_RLE_startx_endx:
+                    start = address(reader.uleb());
+                    end = address(reader.uleb());
+                    break;
+                case DW_RLE_startx_length:
+                    start = address(reader.uleb());
+                    end = start + reader.uleb();
+                    break;
+                case DW_RLE_offset_pair:
+                    start = base + reader.uleb();
+                    end = base + reader.uleb();
+                    break;
+                case DW_RLE_start_end:
+                    start = reader.uint(unit.addressSize);
+                    end = reader.uint(unit.addressSize);
+                    break;
+                case DW_RLE_start_length:
+                    start = reader.uint(unit.addressSize);
+                    end = start + reader.uleb();
+                    break;
+                default:
+                    throw new Error(`Unknown range list entry ${kind}`);
+            }
+            if (start !== end) {
+                ranges.push({ start, end });
+            }
+        }
+        return ranges;
+    }
+
+    /**
+     * Builds a sorted index of every function with code so that addresses can be looked up quickly.
+     */
+    #indexFunctions() {
+        const functions: IndexedFunction[] = [];
+        for (const entry of this.#entries.values()) {
+            if (entry.tag !== DW_TAG_subprogram) {
+                continue;
+            }
+            for (const range of this.#getRanges(entry)) {
+                // Functions removed by the linker keep their debug info but end up at address 0.
+                if (range.start !== 0) {
+                    functions.push({ ...range, entry });
+                }
+            }
+        }
+        this.#functions = functions.sort((a, b) => a.start - b.start);
+    }
+
+    /**
+     * Builds an index of every variable with a fixed address the first time one is looked up, since
+     * most callers only need functions.
+     */
+    #indexVariables(): Map<number, DwarfEntry> {
+        if (this.#variables) {
+            return this.#variables;
+        }
+
+        this.#variables = new Map();
+        for (const entry of this.#entries.values()) {
+            if (entry.tag !== DW_TAG_variable) {
+                continue;
+            }
+            const address = this.#getAddress(entry, DW_AT_location);
+            // Like functions, variables removed by the linker end up at address 0.
+            if (address && !this.#variables.has(address)) {
+                this.#variables.set(address, entry);
+            }
+        }
+        return this.#variables;
+    }
+
+    #findEntries(address: number): DwarfEntry[] {
+        let best: IndexedFunction | undefined;
+        for (const fn of this.#functions) {
+            if (fn.start > address) {
+                break;
+            }
+            if (address < fn.end) {
+                if (!best || fn.end - fn.start < best.end - best.start) {
+                    best = fn;
+                }
+            }
+        }
+        if (!best) {
+            return [];
+        }
+
+        const chain = [best.entry];
+        let scope: DwarfEntry | undefined = best.entry;
+        while (scope) {
+            scope = scope.children.find(
+                (child) =>
+                    child.tag === DW_TAG_inlined_subroutine &&
+                    this.#getRanges(child).some(
+                        (range) =>
+                            address >= range.start && address < range.end,
+                    ),
+            );
+            if (scope) {
+                chain.push(scope);
+            }
+        }
+        return chain;
+    }
+
+    #findUnit(address: number): DwarfUnit | undefined {
+        return this.#findEntries(address)[0]?.unit;
+    }
+
+    /**
+     * Gets the name of an entry, qualified with the names of the namespaces and types containing it.
+     */
+    #getQualifiedName(entry: DwarfEntry, depth = 0): string | undefined {
+        // Inlined calls and out-of-line definitions get their names from another entry.
+        const origin =
+            this.#getReference(entry, DW_AT_abstract_origin) ??
+            this.#getReference(entry, DW_AT_specification);
+        if (origin && depth < 8) {
+            return this.#getQualifiedName(origin, depth + 1);
+        }
+
+        const name =
+            this.#getString(entry, DW_AT_name) ??
+            this.#getString(entry, DW_AT_linkage_name) ??
+            this.#getString(entry, DW_AT_MIPS_linkage_name);
+        if (!name) {
+            return undefined;
+        }
+
+        let parent = entry.parent;
+        while (parent && !QUALIFYING_TAGS.has(parent.tag)) {
+            parent = parent.parent;
+        }
+        const parentName = parent && this.#getQualifiedName(parent, depth + 1);
+        const parts = parentName ? [parentName, name] : [name];
+        return parts.join("::");
+    }
+
+    #getCallSite(entry: DwarfEntry): SourcePosition | undefined {
+        const fileIndex = this.#getNumber(entry, DW_AT_call_file);
+        if (fileIndex === undefined) {
+            return undefined;
+        }
+
+        // File indices refer to the file list in the header of the unit's line table.
+        this.#getLineTable(entry.unit);
+        return {
+            file: entry.unit.lineFiles?.[fileIndex] ?? "",
+            line: this.#getNumber(entry, DW_AT_call_line) ?? 0,
+            column: this.#getNumber(entry, DW_AT_call_column) ?? 0,
+        };
+    }
+
+    /**
+     * Parses the line number program of a unit into a list of sequences.
+     */
+    #getLineTable(unit: DwarfUnit): LineSequence[] {
+        if (unit.lineTable) {
+            return unit.lineTable;
+        }
+
+        unit.lineTable = [];
+        const offset = unit.root && this.#getNumber(unit.root, DW_AT_stmt_list);
+        if (offset === undefined || !this.#sections.line) {
+            return unit.lineTable;
+        }
+
+        try {
+            unit.lineTable = this.#parseLineProgram(
+                unit,
+                new ByteReader(this.#sections.line, offset),
+            );
+        } catch {
+            // Leave the table empty; the function name can still be found without it.
+        }
+        return unit.lineTable;
+    }
+
+    #parseLineProgram(unit: DwarfUnit, reader: ByteReader): LineSequence[] {
+        const { length, offsetSize } = reader.unitLength();
+        const end = reader.offset + length;
+        const version = reader.u16();
+        let addressSize = unit.addressSize;
+        if (version >= 5) {
+            addressSize = reader.u8();
+            reader.u8(); // segment selector size
+        }
+        const headerLength = reader.uint(offsetSize);
+        const programStart = reader.offset + headerLength;
+        const minimumInstructionLength = reader.u8();
+        if (version >= 4) {
+            reader.u8(); // maximum operations per instruction
+        }
+        reader.u8(); // default value of is_stmt
+        const lineBase = reader.i8();
+        const lineRange = reader.u8();
+        const opcodeBase = reader.u8();
+        const standardOpcodeLengths = [];
+        for (let i = 1; i < opcodeBase; i++) {
+            standardOpcodeLengths.push(reader.u8());
+        }
+
+        const compDir = unit.root && this.#getString(unit.root, DW_AT_comp_dir);
+        const directories: string[] = [];
+        const files: string[] = [];
+
+        if (version >= 5) {
+            // Entries are encoded with the sizes from the line table header rather than the unit's.
+            const headerUnit = { ...unit, addressSize, offsetSize };
+            const readEntries = () => {
+                const formats: [number, number][] = [];
+                const formatCount = reader.u8();
+                for (let i = 0; i < formatCount; i++) {
+                    formats.push([reader.uleb(), reader.uleb()]);
+                }
+                const entries: { path?: string; directory: number }[] = [];
+                const count = reader.uleb();
+                for (let i = 0; i < count; i++) {
+                    const entry: { path?: string; directory: number } = {
+                        directory: 0,
+                    };
+                    for (const [contentType, form] of formats) {
+                        const value = this.#readAttribute(
+                            reader,
+                            headerUnit,
+                            form,
+                        );
+                        if (contentType === DW_LNCT_path) {
+                            entry.path = this.#decodeString(unit, value);
+                        } else if (
+                            contentType === DW_LNCT_directory_index &&
+                            value
+                        ) {
+                            entry.directory = Number(value.value);
+                        }
+                    }
+                    entries.push(entry);
+                }
+                return entries;
+            };
+
+            for (const directory of readEntries()) {
+                directories.push(joinDebugPath(compDir, directory.path ?? ""));
+            }
+            for (const file of readEntries()) {
+                files.push(
+                    joinDebugPath(directories[file.directory], file.path ?? ""),
+                );
+            }
+        } else {
+            directories.push(compDir ?? "");
+            while (true) {
+                const directory = reader.cstring();
+                if (!directory) {
+                    break;
+                }
+                directories.push(joinDebugPath(compDir, directory));
+            }
+            // File indices start at 1 before DWARF 5.
+            files.push("");
+            while (true) {
+                const file = reader.cstring();
+                if (!file) {
+                    break;
+                }
+                const directory = reader.uleb();
+                reader.uleb(); // modification time
+                reader.uleb(); // file length
+                files.push(joinDebugPath(directories[directory], file));
+            }
+        }
+
+        unit.lineFiles = files;
+        reader.offset = programStart;
+
+        const sequences: LineSequence[] = [];
+        let rows: LineRow[] = [];
+        let address = 0;
+        let file = 1;
+        let line = 1;
+        let column = 0;
+        const reset = () => {
+            address = 0;
+            file = 1;
+            line = 1;
+            column = 0;
+        };
+        const emitRow = () => {
+            rows.push({ address, file: files[file] ?? "", line, column });
+        };
+
+        while (reader.offset < end) {
+            const opcode = reader.u8();
+            if (opcode >= opcodeBase) {
+                const adjusted = opcode - opcodeBase;
+                address +=
+                    Math.floor(adjusted / lineRange) * minimumInstructionLength;
+                line += lineBase + (adjusted % lineRange);
+                emitRow();
+                continue;
+            }
+
+            switch (opcode) {
+                case 0: {
+                    const length = reader.uleb();
+                    const next = reader.offset + length;
+                    const extended = reader.u8();
+                    if (extended === 1) {
+                        // DW_LNE_end_sequence
+                        if (rows.length > 0 && rows[0].address !== 0) {
+                            sequences.push({
+                                start: rows[0].address,
+                                end: address,
+                                rows,
+                            });
+                        }
+                        rows = [];
+                        reset();
+                    } else if (extended === 2) {
+                        // DW_LNE_set_address
+                        address = reader.uint(addressSize);
+                    } else if (extended === 3) {
+                        // DW_LNE_define_file
+                        const name = reader.cstring();
+                        const directory = reader.uleb();
+                        files.push(joinDebugPath(directories[directory], name));
+                    }
+                    reader.offset = next;
+                    break;
+                }
+                case 1: // DW_LNS_copy
+                    emitRow();
+                    break;
+                case 2: // DW_LNS_advance_pc
+                    address += reader.uleb() * minimumInstructionLength;
+                    break;
+                case 3: // DW_LNS_advance_line
+                    line += reader.sleb();
+                    break;
+                case 4: // DW_LNS_set_file
+                    file = reader.uleb();
+                    break;
+                case 5: // DW_LNS_set_column
+                    column = reader.uleb();
+                    break;
+                case 8: // DW_LNS_const_add_pc
+                    address +=
+                        Math.floor((255 - opcodeBase) / lineRange) *
+                        minimumInstructionLength;
+                    break;
+                case 9: // DW_LNS_fixed_advance_pc
+                    address += reader.u16();
+                    break;
+                default:
+                    // Skip the operands of opcodes which don't affect addresses or lines.
+                    for (
+                        let i = 0;
+                        i < standardOpcodeLengths[opcode - 1];
+                        i++
+                    ) {
+                        reader.uleb();
+                    }
+            }
+        }
+
+        return sequences.sort((a, b) => a.start - b.start);
+    }
+}
@@ -0,0 +1,282 @@
+/**
+ * A section header from an ELF file.
+ */
+export interface ElfSection {
+    /**
+     * The name of the section, read from the section header string table.
+     */
+    name: string;
+    /**
+     * The section type (`SHT_*`).
+     */
+    type: number;
+    /**
+     * The section flags (`SHF_*`).
+     */
+    flags: number;
+    /**
+     * The virtual address of the section when loaded, or 0 if it isn't loaded.
+     */
+    address: number;
+    /**
+     * The offset of the section's data in the file.
+     */
+    offset: number;
+    /**
+     * The size of the section in bytes.
+     */
+    size: number;
+    /**
+     * The index of an associated section, depending on the section type.
+     */
+    link: number;
+    /**
+     * Extra information, depending on the section type.
+     */
+    info: number;
+    /**
+     * The size of each entry if the section holds a table of fixed-size entries.
+     */
+    entrySize: number;
+}
+
+/**
+ * An entry in an ELF symbol table.
+ */
+export interface ElfSymbol {
+    /**
+     * The raw name of the symbol. This may be mangled.
+     */
+    name: string;
+    /**
+     * The value of the symbol, which is usually its address.
+     */
+    value: number;
+    /**
+     * The size of the object or function the symbol refers to.
+     */
+    size: number;
+    /**
+     * The symbol type (`STT_*`).
+     */
+    type: number;
+    /**
+     * The symbol binding (`STB_*`).
+     */
+    binding: number;
+    /**
+     * The index of the section the symbol is defined in.
+     */
+    sectionIndex: number;
+}
+
+export const SHT_NOBITS = 8;
+export const SHF_WRITE = 0x1;
+export const SHF_ALLOC = 0x2;
+export const SHF_EXECINSTR = 0x4;
+
+export const STT_OBJECT = 1;
+export const STT_FUNC = 2;
+export const STT_FILE = 4;
+
+export const STB_LOCAL = 0;
+
+const EM_ARM = 40;
+const ELFCLASS32 = 1;
+const ELFDATA2LSB = 1;
+const SHT_SYMTAB = 2;
+const SHN_UNDEF = 0;
+const SHN_LORESERVE = 0xff00;
+
+/**
+ * A parsed 32-bit little-endian ELF file, like the ones the V5 runs.
+ */
+export class ElfFile {
+    /**
+     * Parses the headers of an ELF file.
+     * @param bytes the contents of the file
+     * @returns the parsed file
+     */
+    static parse(bytes: Uint8Array): ElfFile {
+        const isElf =
+            bytes.length >= 52 &&
+            bytes[0] === 0x7f &&
+            bytes[1] === 0x45 && // E
+            bytes[2] === 0x4c && // L
+            bytes[3] === 0x46; // F
+        if (!isElf) {
+            throw new Error("This file is not an ELF file");
+        }
+        if (bytes[4] !== ELFCLASS32 || bytes[5] !== ELFDATA2LSB) {
+            throw new Error(
+                "Only 32-bit little-endian ELF files are supported",
+            );
+        }
+
+        return new ElfFile(bytes);
+    }
+
+    readonly #view: DataView;
+
+    /**
+     * The machine type (`EM_*`) of the file.
+     */
+    readonly machine: number;
+    /**
+     * The address of the program's entry point.
+     */
+    readonly entry: number;
+    /**
+     * All of the section headers in the file, in order.
+     */
+    readonly sections: ElfSection[];
+
+    private constructor(public readonly bytes: Uint8Array) {
+        this.#view = new DataView(
+            bytes.buffer,
+            bytes.byteOffset,
+            bytes.byteLength,
+        );
+
+        this.machine = this.#view.getUint16(18, true);
+        this.entry = this.#view.getUint32(24, true);
+
+        const sectionHeaderOffset = this.#view.getUint32(32, true);
+        const sectionHeaderSize = this.#view.getUint16(46, true);
+        const sectionCount = this.#view.getUint16(48, true);
+        const namesIndex = this.#view.getUint16(50, true);
+
+        const nameOffsets: number[] = [];
+        this.sections = [];
+        for (let i = 0; i < sectionCount; i++) {
+            const base = sectionHeaderOffset + i * sectionHeaderSize;
+            nameOffsets.push(this.#view.getUint32(base, true));
+            this.sections.push({
+                name: "",
+                type: this.#view.getUint32(base + 4, true),
+                flags: this.#view.getUint32(base + 8, true),
+                address: this.#view.getUint32(base + 12, true),
+                offset: this.#view.getUint32(base + 16, true),
+                size: this.#view.getUint32(base + 20, true),
+                link: this.#view.getUint32(base + 24, true),
+                info: this.#view.getUint32(base + 28, true),
+                entrySize: this.#view.getUint32(base + 36, true),
+            });
+        }
+
+        // Section names can only be read once we know where the section name string table is.
+        const names = this.sections[namesIndex];
+        if (names) {
+            this.sections.forEach((section, i) => {
+                section.name = this.#readString(names.offset + nameOffsets[i]);
+            });
+        }
+    }
+
+    /**
+     * Finds a section by its name.
+     * @param name the name of the section, such as `.text`
+     * @returns the section, or undefined if there is no section with that name
+     */
+    getSection(name: string): ElfSection | undefined {
+        return this.sections.find((section) => section.name === name);
+    }
+
+    /**
+     * Gets the contents of a section without copying them.
+     * @param section the section to read
+     * @returns the section's bytes
+     */
+    getSectionData(section: ElfSection): Uint8Array {
+        if (section.type === SHT_NOBITS) {
+            return new Uint8Array(0);
+        }
+        return this.bytes.subarray(
+            section.offset,
+            section.offset + section.size,
+        );
+    }
+
+    #symbols: ElfSymbol[] | undefined;
+    /**
+     * The entries of the `.symtab` section, or an empty array if the file has been stripped.
+     */
+    get symbols(): ElfSymbol[] {
+        if (this.#symbols) {
+            return this.#symbols;
+        }
+
+        this.#symbols = [];
+        const symtab = this.sections.find(
+            (section) => section.type === SHT_SYMTAB,
+        );
+        const strtab = symtab && this.sections[symtab.link];
+        if (!symtab || !strtab) {
+            return this.#symbols;
+        }
+
+        const entrySize = symtab.entrySize || 16;
+        for (
+            let base = symtab.offset;
+            base < symtab.offset + symtab.size;
+            base += entrySize
+        ) {
+            const info = this.bytes[base + 12];
+            this.#symbols.push({
+                name: this.#readString(
+                    strtab.offset + this.#view.getUint32(base, true),
+                ),
+                value: this.#view.getUint32(base + 4, true),
+                size: this.#view.getUint32(base + 8, true),
+                type: info & 0xf,
+                binding: info >> 4,
+                sectionIndex: this.#view.getUint16(base + 14, true),
+            });
+        }
+
+        return this.#symbols;
+    }
+
+    /**
+     * Finds the defined symbol of the specified type which contains an address.
+     * @param address the address to look up
+     * @param type the symbol type (`STT_*`) to consider
+     * @returns the symbol, or undefined if no symbol contains the address
+     */
+    findSymbol(address: number, type: number): ElfSymbol | undefined {
+        let best: ElfSymbol | undefined;
+        for (const symbol of this.symbols) {
+            if (
+                symbol.type !== type ||
+                symbol.sectionIndex === SHN_UNDEF ||
+                symbol.sectionIndex >= SHN_LORESERVE
+            ) {
+                continue;
+            }
+
+            // On ARM, the lowest bit of a function address marks Thumb code rather than part of the address.
+            const isThumb = this.machine === EM_ARM && type === STT_FUNC;
+            const start = isThumb ? symbol.value & ~1 : symbol.value;
+            const end = start + Math.max(symbol.size, 1);
+            if (address >= start && address < end) {
+                // Prefer the tightest match; aliases and section symbols can overlap.
+                if (!best || symbol.size < best.size) {
+                    best = symbol;
+                }
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Reads a null-terminated string from the file.
+     * @param offset the offset of the string's first byte
+     */
+    #readString(offset: number): string {
+        let end = offset;
+        while (end < this.bytes.length && this.bytes[end] !== 0) {
+            end++;
+        }
+        return new TextDecoder().decode(this.bytes.subarray(offset, end));
+    }
+}
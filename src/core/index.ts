@@ -0,0 +1,110 @@
+/**
+ * The parts of the symbolizer which don't depend on VS Code, for use in scripts, CI jobs and bots.
+ *
+ * @example
+ * const symbolizer = new Symbolizer([new RecentPathCodeObjectLocator()], createDefaultReaders());
+ * for (const log of parseCrashLogs(text)) {
+ *     const frames = await symbolizer.symbolizeCrashLog(log, "path/to/project");
+ *     console.log(formatSymbolizedCrash(log, frames));
+ * }
+ * symbolizer.dispose();
+ */
+import { platform } from "node:process";
+import { CodeObjectReader } from "./types.js";
+import {
+    BuiltinCodeObjectReader,
+    GNUBinutilsCodeObjectReader,
+    LLVMCodeObjectReader,
+} from "./readers.js";
+
+export type {
+    CodeObjectLocator,
+    CodeObjectReader,
+    ResolvedFrame,
+    ResolvedSymbol,
+    SourceLocation,
+} from "./types.js";
+export { type Logger, setLogger } from "./logger.js";
+export {
+    BuiltinCodeObjectReader,
+    GNUBinutilsCodeObjectReader,
+    LLVMCodeObjectReader,
+} from "./readers.js";
+export {
+    type PathConvention,
+    RecentPathCodeObjectLocator,
+    SimplePathConvention,
+    VEXCodePathConvention,
+    VexidePathConvention,
+    getDefaultPathConventions,
+} from "./locators.js";
+export {
+    type AddressValidity,
+    type SymbolizedFrame,
+    Symbolizer,
+} from "./symbolizer.js";
+export {
+    type SymbolizedCrashJson,
+    formatSymbolizedCrash,
+    toSymbolizedCrashJson,
+} from "./reports.js";
+export {
+    type CrashFrame,
+    type CrashLog,
+    type CrashLogKind,
+    parseAddressList,
+    parseCrashLog,
+    parseCrashLogs,
+} from "./crashLogs.js";
+
+/**
+ * Where to find the tools used by the default readers.
+ */
+export interface ReaderOptions {
+    /**
+     * The path of `llvm-symbolizer`, instead of finding it on the `PATH`.
+     */
+    llvmSymbolizerPath?: string;
+    /**
+     * The path of `addr2line`, instead of finding it on the `PATH`.
+     */
+    addr2linePath?: string;
+}
+
+/**
+ * Creates the same readers as the extension's default `readerOrder` setting, except for the PROS
+ * toolchain, which is only installed inside of VS Code.
+ * @param options where to find the tools
+ * @returns the readers, in order of preference
+ */
+export function createDefaultReaders(
+    options: ReaderOptions = {},
+): CodeObjectReader[] {
+    const readers: CodeObjectReader[] = [
+        new LLVMCodeObjectReader(
+            "LLVM",
+            options.llvmSymbolizerPath || "llvm-symbolizer",
+        ),
+    ];
+    if (platform === "darwin" && !options.llvmSymbolizerPath) {
+        // Homebrew only puts LLVM in the `PATH` of shells.
+        readers.push(
+            new LLVMCodeObjectReader(
+                "Homebrew LLVM",
+                "/opt/homebrew/opt/llvm/bin/llvm-symbolizer",
+            ),
+        );
+    }
+    readers.push(
+        new GNUBinutilsCodeObjectReader(
+            "ARM Embedded Toolchain",
+            "arm-none-eabi-addr2line",
+        ),
+        new GNUBinutilsCodeObjectReader(
+            "GNU Binutils",
+            options.addr2linePath || "addr2line",
+        ),
+        new BuiltinCodeObjectReader(),
+    );
+    return readers;
+}
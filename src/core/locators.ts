@@ -0,0 +1,161 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { CodeObjectLocator } from "./types.js";
+import { logger } from "./logger.js";
+
+/**
+ * Describes a convention for where code object files are stored, using plain paths instead of VS Code's
+ * file search.
+ */
+export interface PathConvention {
+    /**
+     * The name of the convention.
+     */
+    readonly name: string;
+
+    /**
+     * Gets a list of possible code object paths in the specified directory.
+     * @param projectDir the directory which is being searched
+     */
+    getPaths(projectDir: string): Promise<string[]>;
+}
+
+/**
+ * Where PROS puts its code objects, relative to the project directory.
+ */
+export const PROS_CODE_OBJECT_PATHS = [
+    "./bin/monolith.elf",
+    "./bin/hot.package.elf",
+    "./bin/cold.package.elf",
+];
+
+/**
+ * Lists the files in a directory, or nothing if it doesn't exist.
+ */
+async function listFiles(dir: string): Promise<string[]> {
+    try {
+        const entries = await fs.readdir(dir, { withFileTypes: true });
+        return entries
+            .filter((entry) => entry.isFile())
+            .map((entry) => path.join(dir, entry.name));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * A convention for storing files which can be described as a list of relative paths.
+ */
+export class SimplePathConvention implements PathConvention {
+    constructor(
+        public readonly name: string,
+        /**
+         * A list of code object paths relative to the directory being searched.
+         */
+        public readonly paths: string[],
+    ) {}
+
+    getPaths(projectDir: string): Promise<string[]> {
+        return Promise.resolve(
+            this.paths.map((relative) => path.join(projectDir, relative)),
+        );
+    }
+}
+
+/**
+ * Finds code objects generated by cargo-v5, vexide's build tool.
+ */
+export class VexidePathConvention implements PathConvention {
+    readonly name = "vexide";
+
+    async getPaths(projectDir: string): Promise<string[]> {
+        const targetDir = path.join(projectDir, "target/armv7a-vex-v5");
+        const dirs = ["debug", "release"].flatMap((profile) => [
+            path.join(targetDir, profile),
+            path.join(targetDir, profile, "examples"),
+        ]);
+        const files = (await Promise.all(dirs.map(listFiles))).flat();
+
+        // ELF files generated by cargo never have file extensions or dashes in their names.
+        const filtered = files.filter(
+            (file) => !/[\.\-]/.test(path.basename(file)),
+        );
+        logger.appendLine(
+            `Found these files using vexide convention:\n${filtered.join("\n")}`,
+        );
+        return filtered;
+    }
+}
+
+/**
+ * Finds code objects generated by VEXCode's Makefile.
+ */
+export class VEXCodePathConvention implements PathConvention {
+    readonly name = "VEXCode";
+
+    async getPaths(projectDir: string): Promise<string[]> {
+        // VEXCode naming for ELF files is inconsistent, but they're always in `build/`.
+        const files = await listFiles(path.join(projectDir, "build"));
+        return files.filter((file) => file.endsWith(".elf"));
+    }
+}
+
+/**
+ * The conventions which the extension uses by default: PROS, VEXCode and vexide.
+ */
+export function getDefaultPathConventions(): PathConvention[] {
+    return [
+        new SimplePathConvention("PROS", PROS_CODE_OBJECT_PATHS),
+        new VEXCodePathConvention(),
+        new VexidePathConvention(),
+    ];
+}
+
+/**
+ * Locates the most recent code objects in a project directory.
+ */
+export class RecentPathCodeObjectLocator implements CodeObjectLocator {
+    constructor(
+        /**
+         * The conventions which the locator will consider while searching.
+         */
+        public conventions: PathConvention[] = getDefaultPathConventions(),
+    ) {}
+
+    get name() {
+        return `Recent Files (${this.conventions
+            .map((t) => t.name)
+            .join(", ")})`;
+    }
+
+    async findObjectPaths(projectDir: string): Promise<string[]> {
+        const paths = (
+            await Promise.all(
+                this.conventions.map((convention) =>
+                    convention.getPaths(projectDir),
+                ),
+            )
+        ).flat();
+
+        const files = await Promise.all(
+            paths.map(async (file) => {
+                try {
+                    const stat = await fs.stat(file);
+                    return stat.isFile()
+                        ? { file, timestamp: stat.mtimeMs }
+                        : undefined;
+                } catch {
+                    return undefined;
+                }
+            }),
+        );
+
+        return (
+            files
+                .filter((file) => file !== undefined)
+                // Big timestamp (more recent) first
+                .sort((a, b) => b.timestamp - a.timestamp)
+                .map(({ file }) => file)
+        );
+    }
+}
@@ -0,0 +1,26 @@
+/**
+ * Somewhere to write what the symbolizer is doing, such as the extension's output channel or a CLI's
+ * standard error.
+ */
+export interface Logger {
+    appendLine(value: string): void;
+}
+
+let currentLogger: Logger = { appendLine() {} };
+
+/**
+ * Writes to the logger which was last passed to {@link setLogger}. Nothing is logged until one is set.
+ */
+export const logger: Logger = {
+    appendLine(value) {
+        currentLogger.appendLine(value);
+    },
+};
+
+/**
+ * Sends every later log message to a new logger.
+ * @param newLogger the logger to use
+ */
+export function setLogger(newLogger: Logger) {
+    currentLogger = newLogger;
+}
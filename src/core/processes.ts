@@ -0,0 +1,192 @@
+import { ChildProcessWithoutNullStreams, spawn } from "node:child_process";
+import * as fs from "node:fs/promises";
+import { logger } from "./logger.js";
+
+/**
+ * How long a tool can take to answer before it is assumed to be stuck.
+ */
+const RESPONSE_TIMEOUT_MS = 15_000;
+
+/**
+ * Line-based access to a tool's stdin and stdout during a request.
+ */
+export interface ToolSession {
+    /**
+     * Writes a line to the tool's stdin.
+     */
+    writeLine(line: string): void;
+    /**
+     * Waits for the tool to print its next line of output.
+     */
+    readLine(): Promise<string>;
+}
+
+/**
+ * A long-lived tool process, such as `llvm-symbolizer`, which answers requests written to its stdin.
+ */
+export class ToolProcess {
+    readonly #child: ChildProcessWithoutNullStreams;
+    #buffer = "";
+    #lines: string[] = [];
+    #waiter:
+        | { resolve: (line: string) => void; reject: (err: Error) => void }
+        | undefined;
+    #exitError: Error | undefined;
+    #queue: Promise<unknown> = Promise.resolve();
+
+    constructor(
+        public readonly executable: string,
+        public readonly args: string[],
+    ) {
+        logger.appendLine(`Starting ${executable} ${args.join(" ")}`);
+        this.#child = spawn(executable, args);
+
+        this.#child.stdout.setEncoding("utf8");
+        this.#child.stdout.on("data", (chunk: string) => {
+            this.#buffer += chunk;
+            const lines = this.#buffer.split(/\r?\n/);
+            this.#buffer = lines.pop() ?? "";
+            this.#lines.push(...lines);
+            this.#wakeWaiter();
+        });
+        this.#child.stderr.setEncoding("utf8");
+        this.#child.stderr.on("data", (chunk: string) => {
+            logger.appendLine(`${executable} stderr: ${chunk.trimEnd()}`);
+        });
+
+        this.#child.on("error", (err) => this.#fail(err));
+        this.#child.stdin.on("error", (err) => this.#fail(err));
+        this.#child.on("exit", (code, signal) => {
+            this.#fail(
+                new Error(
+                    `${executable} exited unexpectedly (${signal ?? `code ${code}`})`,
+                ),
+            );
+        });
+    }
+
+    /**
+     * Whether the process can still accept requests.
+     */
+    get isRunning() {
+        return this.#exitError === undefined;
+    }
+
+    /**
+     * Runs a request once every earlier request has finished, so that their responses don't get mixed up.
+     * @param handler writes the request and reads the response
+     * @returns the value returned by the handler
+     */
+    request<T>(handler: (session: ToolSession) => Promise<T>): Promise<T> {
+        const session: ToolSession = {
+            writeLine: (line) => {
+                if (this.#exitError) {
+                    throw this.#exitError;
+                }
+                this.#child.stdin.write(`${line}\n`);
+            },
+            readLine: () => this.#readLine(),
+        };
+
+        const result = this.#queue.then(() => handler(session));
+        this.#queue = result.catch(() => {});
+        return result;
+    }
+
+    dispose() {
+        if (this.isRunning) {
+            logger.appendLine(`Stopping ${this.executable}`);
+        }
+        this.#fail(new Error(`${this.executable} was stopped`));
+        this.#child.kill();
+    }
+
+    #readLine(): Promise<string> {
+        const line = this.#lines.shift();
+        if (line !== undefined) {
+            return Promise.resolve(line);
+        }
+        if (this.#exitError) {
+            return Promise.reject(this.#exitError);
+        }
+
+        return new Promise((resolve, reject) => {
+            const timeout = setTimeout(() => {
+                this.dispose();
+                reject(
+                    new Error(`${this.executable} took too long to respond`),
+                );
+            }, RESPONSE_TIMEOUT_MS);
+
+            this.#waiter = {
+                resolve: (line) => {
+                    clearTimeout(timeout);
+                    resolve(line);
+                },
+                reject: (err) => {
+                    clearTimeout(timeout);
+                    reject(err);
+                },
+            };
+        });
+    }
+
+    #wakeWaiter() {
+        const waiter = this.#waiter;
+        if (!waiter || this.#lines.length === 0) {
+            return;
+        }
+        this.#waiter = undefined;
+        waiter.resolve(this.#lines.shift()!);
+    }
+
+    #fail(err: Error) {
+        this.#exitError ??= err;
+        const waiter = this.#waiter;
+        this.#waiter = undefined;
+        waiter?.reject(this.#exitError);
+    }
+}
+
+/**
+ * Keeps one tool process running per code object, restarting it when the code object changes.
+ */
+export class ToolProcessPool {
+    #processes = new Map<string, { process: ToolProcess; mtime: number }>();
+
+    constructor(
+        public readonly executable: string,
+        /**
+         * Gets the arguments which make the tool read the specified code object.
+         */
+        public readonly getArgs: (codeObjectPath: string) => string[],
+    ) {}
+
+    /**
+     * Gets a running process for a code object.
+     * @param codeObject the path of the code object the process should read
+     */
+    async get(codeObject: string): Promise<ToolProcess> {
+        // The tools load the code object once at startup, so a rebuilt file needs a new process.
+        const { mtimeMs: mtime } = await fs.stat(codeObject);
+        const existing = this.#processes.get(codeObject);
+        if (existing?.mtime === mtime && existing.process.isRunning) {
+            return existing.process;
+        }
+
+        existing?.process.dispose();
+        const process = new ToolProcess(
+            this.executable,
+            this.getArgs(codeObject),
+        );
+        this.#processes.set(codeObject, { process, mtime });
+        return process;
+    }
+
+    dispose() {
+        for (const { process } of this.#processes.values()) {
+            process.dispose();
+        }
+        this.#processes.clear();
+    }
+}
@@ -0,0 +1,104 @@
+import * as fs from "node:fs/promises";
+import { inspect } from "node:util";
+import { AddressRange } from "./dwarf.js";
+import { ElfFile, SHF_ALLOC, SHF_EXECINSTR } from "./elf.js";
+import { logger } from "./logger.js";
+
+/**
+ * The parts of a code object which contain code once it is loaded onto the brain.
+ */
+export interface ProgramImage {
+    /**
+     * The path of the code object the image was read from.
+     */
+    codeObject: string;
+    /**
+     * The address ranges of the code object's executable sections, such as `.text` and `.init`.
+     */
+    ranges: AddressRange[];
+}
+
+/**
+ * Gets the address ranges of a code object's executable sections, such as `.text` and `.init`, which
+ * are the parts of it that contain code once it is loaded onto the brain.
+ * @param elf the code object
+ * @returns the ranges
+ */
+export function getExecutableRanges(elf: ElfFile): AddressRange[] {
+    return elf.sections
+        .filter(
+            (section) =>
+                (section.flags & SHF_ALLOC) !== 0 &&
+                (section.flags & SHF_EXECINSTR) !== 0 &&
+                section.size > 0,
+        )
+        .map((section) => ({
+            start: section.address,
+            end: section.address + section.size,
+        }));
+}
+
+/**
+ * Checks whether an address is inside of some ranges.
+ * @param ranges the ranges to check
+ * @param address the address to look for
+ */
+export function rangesContain(ranges: AddressRange[], address: number) {
+    return ranges.some(
+        (range) => address >= range.start && address < range.end,
+    );
+}
+
+/**
+ * Checks whether an address is inside of a program image's code.
+ * @param image the image to check
+ * @param address the address to look for
+ * @returns `true` if one of the image's executable sections contains the address
+ */
+export function imageContains(
+    image: Pick<ProgramImage, "ranges">,
+    address: number,
+) {
+    return rangesContain(image.ranges, address);
+}
+
+/**
+ * Reads the executable section ranges of code objects, reusing the previous result until a code
+ * object changes.
+ */
+export class ProgramImageReader {
+    #images = new Map<string, { mtime: number; image?: ProgramImage }>();
+
+    /**
+     * Reads the program image of a code object.
+     * @param codeObject the path of the code object to read
+     * @returns the image, or undefined if the code object couldn't be read as an ELF file
+     */
+    async read(codeObject: string): Promise<ProgramImage | undefined> {
+        const { mtimeMs: mtime } = await fs.stat(codeObject);
+        const cached = this.#images.get(codeObject);
+        if (cached && cached.mtime === mtime) {
+            return cached.image;
+        }
+
+        let image: ProgramImage | undefined;
+        try {
+            const elf = ElfFile.parse(await fs.readFile(codeObject));
+            image = { codeObject, ranges: getExecutableRanges(elf) };
+        } catch (err) {
+            logger.appendLine(
+                `Couldn't read the sections of ${codeObject}: ${inspect(err)}`,
+            );
+        }
+
+        this.#images.set(codeObject, { mtime, image });
+        return image;
+    }
+
+    /**
+     * Forgets every image which has been read.
+     */
+    clear() {
+        this.#images.clear();
+    }
+}
@@ -0,0 +1,390 @@
+import * as fs from "node:fs/promises";
+import { promisify } from "node:util";
+import { execFile as execFileCb } from "node:child_process";
+import {
+    CodeObjectReader,
+    ResolvedFrame,
+    ResolvedSymbol,
+    SourceLocation,
+} from "./types.js";
+import { logger } from "./logger.js";
+import { ToolProcessPool } from "./processes.js";
+import { ElfFile, STT_FUNC } from "./elf.js";
+import { DwarfInfo, SourcePosition } from "./dwarf.js";
+import { demangleCppSymbolName } from "./demangling.js";
+
+const execFile = promisify(execFileCb);
+
+/**
+ * Runs a function, capturing its result or error.
+ */
+function settle<T>(fn: () => T): PromiseSettledResult<T> {
+    try {
+        return { status: "fulfilled", value: fn() };
+    } catch (reason) {
+        return { status: "rejected", reason };
+    }
+}
+
+/**
+ * Reads code objects using an addr2line-style symbolizer.
+ */
+export class GNUBinutilsCodeObjectReader implements CodeObjectReader {
+    /**
+     * An address which doesn't belong to any V5 program. It's written after each batch of addresses
+     * so that we can tell when addr2line has finished with the last one.
+     */
+    static readonly #sentinelAddress = "0xffffffff";
+
+    readonly #processes: ToolProcessPool;
+
+    constructor(
+        public readonly name = "GNU Binutils",
+        /**
+         * The name or path of the executable to spawn.
+         */
+        public readonly executable = "addr2line",
+    ) {
+        // `-a` prints each address before its frames, which marks where one answer ends and the next begins.
+        this.#processes = new ToolProcessPool(executable, (objectPath) => [
+            "-a",
+            "-f",
+            "-i",
+            "-C",
+            "-e",
+            objectPath,
+        ]);
+    }
+
+    async isWorking(): Promise<boolean> {
+        logger.appendLine(
+            `Checking addr2line named ${this.name} (${this.executable})`,
+        );
+        try {
+            await execFile(this.executable, ["--version"]);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    async resolveToSymbolsInObject(
+        addresses: string[],
+        codeObject: string,
+    ): Promise<PromiseSettledResult<ResolvedSymbol>[]> {
+        logger.appendLine(
+            `Using ${this.name} install to resolve ${addresses.length} symbols in ${codeObject}`,
+        );
+        const process = await this.#processes.get(codeObject);
+
+        return await process.request(async (session) => {
+            for (const address of addresses) {
+                session.writeLine(address);
+            }
+            session.writeLine(GNUBinutilsCodeObjectReader.#sentinelAddress);
+
+            const isAddressLine = (line: string) => /^0x[0-9a-f]+$/i.test(line);
+
+            // Skip ahead to the first address, in case a previous request was interrupted.
+            let line = await session.readLine();
+            while (!isAddressLine(line)) {
+                line = await session.readLine();
+            }
+
+            const results: PromiseSettledResult<ResolvedSymbol>[] = [];
+            for (let i = 0; i < addresses.length; i++) {
+                const lines: string[] = [];
+                line = await session.readLine();
+                while (!isAddressLine(line)) {
+                    lines.push(line);
+                    line = await session.readLine();
+                }
+                results.push(
+                    settle(() => this.#parseFrames(lines, codeObject)),
+                );
+            }
+
+            // The sentinel address always resolves to a single unknown frame.
+            await session.readLine();
+            await session.readLine();
+
+            return results;
+        });
+    }
+
+    dispose() {
+        this.#processes.dispose();
+    }
+
+    #parseFrames(lines: string[], codeObject: string): ResolvedSymbol {
+        // With `-i`, addr2line prints a name and location for each inlined frame, innermost first.
+        const inlinedFrames: ResolvedFrame[] = [];
+        for (let i = 0; i + 1 < lines.length; i += 2) {
+            inlinedFrames.push({
+                symbolName: lines[i],
+                sourceLocation: this.resolveLocation(lines[i + 1]),
+            });
+        }
+
+        const [frame] = inlinedFrames;
+        if (!frame || frame.symbolName === "??") {
+            throw new Error("The symbol does not exist");
+        }
+
+        return {
+            ...frame,
+            codeObject,
+            inlinedFrames,
+        };
+    }
+
+    resolveLocation(locationString: string): SourceLocation | undefined {
+        const lineNumberSplit = locationString.lastIndexOf(":");
+        const path = locationString.substring(0, lineNumberSplit);
+        const lineString = locationString.substring(lineNumberSplit + 1);
+        if (path === "??") {
+            return;
+        }
+
+        return {
+            path,
+            line: Number.parseInt(lineString),
+            column: 0,
+        };
+    }
+}
+
+export class LLVMCodeObjectReader implements CodeObjectReader {
+    readonly #processes: ToolProcessPool;
+
+    constructor(
+        public readonly name = "LLVM",
+        public readonly executable = "llvm-symbolizer",
+    ) {
+        this.#processes = new ToolProcessPool(executable, (objectPath) => [
+            "--output-style=JSON",
+            `--obj=${objectPath}`,
+        ]);
+    }
+
+    async isWorking(): Promise<boolean> {
+        logger.appendLine(
+            `Checking llvm-symbolizer named ${this.name} (${this.executable})`,
+        );
+        try {
+            await execFile(this.executable, ["--version"]);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    async resolveToSymbolsInObject(
+        addresses: string[],
+        codeObject: string,
+    ): Promise<PromiseSettledResult<ResolvedSymbol>[]> {
+        logger.appendLine(
+            `Using ${this.name} install to resolve ${addresses.length} symbols in ${codeObject}`,
+        );
+        const process = await this.#processes.get(codeObject);
+
+        return await process.request(async (session) => {
+            for (const address of addresses) {
+                session.writeLine(address);
+            }
+
+            // In JSON mode, the symbolizer prints exactly one line for each address.
+            const results: PromiseSettledResult<ResolvedSymbol>[] = [];
+            for (let i = 0; i < addresses.length; i++) {
+                const line = await session.readLine();
+                results.push(
+                    settle(() =>
+                        this.#parseEntry(
+                            JSON.parse(line) as LLVMSymbolizerEntry,
+                            codeObject,
+                        ),
+                    ),
+                );
+            }
+            return results;
+        });
+    }
+
+    dispose() {
+        this.#processes.dispose();
+    }
+
+    #parseEntry(
+        entry: LLVMSymbolizerEntry,
+        codeObject: string,
+    ): ResolvedSymbol {
+        if (!entry) {
+            throw new Error("No symbolizer entry for this address");
+        }
+        if (entry.Error) {
+            throw new Error(entry.Error.Message);
+        }
+        const symbol = entry.Symbol[0];
+        if (!symbol) {
+            throw new Error("No symbol data for this address");
+        }
+        if (!symbol.FunctionName) {
+            throw new Error("The symbol does not exist");
+        }
+
+        // The symbolizer lists inlined frames innermost first, followed by the function they were inlined into.
+        const inlinedFrames = entry.Symbol.filter(
+            (symbol) => symbol.FunctionName,
+        ).map((symbol) => ({
+            sourceLocation: this.resolveLocation(symbol),
+            symbolName: symbol.FunctionName,
+        }));
+
+        return {
+            ...inlinedFrames[0],
+            codeObject,
+            inlinedFrames,
+        };
+    }
+
+    resolveLocation(symbol: LLVMSymbolizerSymbol): SourceLocation | undefined {
+        if (!symbol.FileName) {
+            return;
+        }
+
+        return {
+            path: symbol.FileName,
+            line: symbol.Line,
+            column: symbol.Column,
+        };
+    }
+}
+
+interface LLVMSymbolizerEntry {
+    Address: string;
+    ModuleName: string;
+    Symbol: LLVMSymbolizerSymbol[];
+    Error?: { Message: string };
+}
+
+interface LLVMSymbolizerSymbol {
+    Column: number;
+    Discriminator: number;
+    FileName: string;
+    Line: number;
+    StartAddress: string;
+    StartFileName: string;
+    StartLine: number;
+    FunctionName: string;
+}
+
+/**
+ * Reads ELF files and their DWARF debugging information directly, without relying on an external tool.
+ *
+ * This is slower and less thorough than the other readers, but it works on machines which don't have a
+ * toolchain installed.
+ */
+export class BuiltinCodeObjectReader implements CodeObjectReader {
+    readonly name = "Built-in ELF/DWARF reader";
+
+    #parsedObjects = new Map<
+        string,
+        { mtime: number; elf: ElfFile; dwarf?: DwarfInfo }
+    >();
+
+    async isWorking(): Promise<boolean> {
+        return true;
+    }
+
+    async resolveToSymbolsInObject(
+        addresses: string[],
+        codeObject: string,
+    ): Promise<PromiseSettledResult<ResolvedSymbol>[]> {
+        logger.appendLine(
+            `Using ${this.name} to resolve ${addresses.length} symbols in ${codeObject}`,
+        );
+        const { elf, dwarf } = await this.#parse(codeObject);
+        return addresses.map((address) =>
+            settle(() => this.#resolve(address, codeObject, elf, dwarf)),
+        );
+    }
+
+    dispose() {
+        this.#parsedObjects.clear();
+    }
+
+    #resolve(
+        address: string,
+        codeObject: string,
+        elf: ElfFile,
+        dwarf: DwarfInfo | undefined,
+    ): ResolvedSymbol {
+        const addressNumber = Number.parseInt(address);
+
+        const scopes = dwarf?.findScopes(addressNumber) ?? [];
+        const row = dwarf?.findLine(addressNumber);
+        const sourceLocation = row && this.resolveLocation(row);
+
+        const inlinedFrames: ResolvedFrame[] = [];
+        if (scopes.length === 0) {
+            const symbol = elf.findSymbol(addressNumber, STT_FUNC);
+            if (symbol) {
+                // Symbol tables have mangled names, which the other readers demangle.
+                inlinedFrames.push({
+                    symbolName: demangleCppSymbolName(symbol.name),
+                    sourceLocation,
+                });
+            }
+        }
+
+        // Each inlined scope records where it was called from, which is the location of the next frame out.
+        let position: SourcePosition | undefined = row;
+        for (const scope of [...scopes].reverse()) {
+            inlinedFrames.push({
+                symbolName: scope.name ?? "??",
+                sourceLocation: position && this.resolveLocation(position),
+            });
+            position = scope.callSite;
+        }
+
+        const [frame] = inlinedFrames;
+        if (!frame || frame.symbolName === "??") {
+            throw new Error("The symbol does not exist");
+        }
+
+        return {
+            ...frame,
+            codeObject,
+            inlinedFrames,
+        };
+    }
+
+    resolveLocation(position: SourcePosition): SourceLocation | undefined {
+        if (!position.file || position.line === 0) {
+            return;
+        }
+
+        return {
+            path: position.file,
+            line: position.line,
+            column: position.column,
+        };
+    }
+
+    /**
+     * Reads and parses a code object, reusing the previous result if the file hasn't changed.
+     * @param codeObject the path of the code object to parse
+     */
+    async #parse(codeObject: string) {
+        const { mtimeMs: mtime } = await fs.stat(codeObject);
+        const cached = this.#parsedObjects.get(codeObject);
+        if (cached && cached.mtime === mtime) {
+            return cached;
+        }
+
+        const elf = ElfFile.parse(await fs.readFile(codeObject));
+        const parsed = { mtime, elf, dwarf: DwarfInfo.fromElf(elf) };
+        this.#parsedObjects.set(codeObject, parsed);
+        return parsed;
+    }
+}
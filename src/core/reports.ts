@@ -0,0 +1,106 @@
+import { CrashLog } from "./crashLogs.js";
+import { SourceLocation } from "./types.js";
+import { SymbolizedFrame } from "./symbolizer.js";
+
+/**
+ * A symbolized crash in a form which can be turned into JSON.
+ */
+export interface SymbolizedCrashJson {
+    kind: string;
+    title: string;
+    details: string[];
+    registers: Record<string, string>;
+    frames: {
+        label: string;
+        address: string;
+        /**
+         * The functions which were running at the address, innermost inlined function first.
+         */
+        functions?: { name: string; location?: SourceLocation }[];
+        codeObject?: string;
+        error?: string;
+    }[];
+}
+
+function formatLocation(location: SourceLocation) {
+    return location.column > 0
+        ? `${location.path}:${location.line}:${location.column}`
+        : `${location.path}:${location.line}`;
+}
+
+/**
+ * Formats a symbolized crash as a plain text backtrace, with one line for each function.
+ * @param log the crash
+ * @param frames the symbolized frames of the crash
+ * @returns the backtrace
+ */
+export function formatSymbolizedCrash(
+    log: CrashLog,
+    frames: SymbolizedFrame[],
+): string {
+    const lines = [`${log.kind} crash: ${log.title}`];
+    for (const detail of log.details) {
+        lines.push(`    ${detail}`);
+    }
+    lines.push("");
+
+    for (const { frame, resolved, error } of frames) {
+        const heading = `${frame.label.padEnd(16)} ${frame.address}`;
+        if (!resolved) {
+            lines.push(`${heading}  ${error ?? "couldn't be symbolized"}`);
+            continue;
+        }
+
+        const inlinedFrames =
+            resolved.inlinedFrames.length > 0
+                ? resolved.inlinedFrames
+                : [resolved];
+        inlinedFrames.forEach((inlined, index) => {
+            const where = inlined.sourceLocation
+                ? ` at ${formatLocation(inlined.sourceLocation)}`
+                : "";
+            lines.push(
+                index === 0
+                    ? `${heading}  ${inlined.symbolName}${where}`
+                    : `${" ".repeat(heading.length)}  inlined into ${inlined.symbolName}${where}`,
+            );
+        });
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Converts a symbolized crash into an object which can be turned into JSON.
+ * @param log the crash
+ * @param frames the symbolized frames of the crash
+ */
+export function toSymbolizedCrashJson(
+    log: CrashLog,
+    frames: SymbolizedFrame[],
+): SymbolizedCrashJson {
+    return {
+        kind: log.kind,
+        title: log.title,
+        details: log.details,
+        registers: Object.fromEntries(log.registers),
+        frames: frames.map(({ frame, resolved, error }) => {
+            if (!resolved) {
+                return { label: frame.label, address: frame.address, error };
+            }
+
+            const inlinedFrames =
+                resolved.inlinedFrames.length > 0
+                    ? resolved.inlinedFrames
+                    : [resolved];
+            return {
+                label: frame.label,
+                address: frame.address,
+                functions: inlinedFrames.map((inlined) => ({
+                    name: inlined.symbolName,
+                    location: inlined.sourceLocation,
+                })),
+                codeObject: resolved.codeObject,
+            };
+        }),
+    };
+}
@@ -0,0 +1,371 @@
+import { inspect } from "node:util";
+import {
+    CodeObjectLocator,
+    CodeObjectReader,
+    ResolvedSymbol,
+} from "./types.js";
+import { logger } from "./logger.js";
+import {
+    imageContains,
+    ProgramImage,
+    ProgramImageReader,
+} from "./programImages.js";
+import { CrashFrame, CrashLog } from "./crashLogs.js";
+import { demangleSymbol } from "./demangling.js";
+
+/**
+ * A frame from a crash log along with the result of symbolizing it.
+ */
+export interface SymbolizedFrame<Symbol = ResolvedSymbol> {
+    frame: CrashFrame;
+    resolved?: Symbol;
+    /**
+     * The reason the frame couldn't be symbolized, if it failed.
+     */
+    error?: string;
+}
+
+/**
+ * How to decide whether an address can be symbolized:
+ * - `programImages`: the address must be inside an executable section of one of the project's code objects.
+ * - `userSpace`: the address must be at or above the start of user memory, `0x3800000`.
+ * - `any`: every address is tried.
+ */
+export type AddressValidity = "programImages" | "userSpace" | "any";
+
+/**
+ * The first address of the memory that user programs are loaded into.
+ */
+const USER_SPACE_START = 0x3800000;
+
+/**
+ * Pairs the frames of a crash log with the results of symbolizing their addresses.
+ * @param log the crash log which was symbolized
+ * @param results the result for each frame, in the same order as the log
+ * @returns the frames, in the same order as the log
+ */
+export function toSymbolizedFrames<Symbol>(
+    log: CrashLog,
+    results: PromiseSettledResult<Symbol>[],
+): SymbolizedFrame<Symbol>[] {
+    return results.map((result, index) => {
+        const frame = log.frames[index];
+        if (result.status === "fulfilled") {
+            return { frame, resolved: result.value };
+        }
+
+        logger.appendLine(
+            `Couldn't symbolize ${frame.address}: ${inspect(result.reason)}`,
+        );
+        const error = result.reason;
+        return {
+            frame,
+            error: error instanceof Error ? error.message : String(error),
+        };
+    });
+}
+
+/**
+ * Symbolizes addresses using code objects on the filesystem. It doesn't depend on VS Code, so it can run
+ * in scripts and CI jobs, and the extension's symbolizer wraps it.
+ */
+export class Symbolizer {
+    #firstWorkingReader: CodeObjectReader | undefined;
+    #images = new ProgramImageReader();
+
+    constructor(
+        public locators: CodeObjectLocator[],
+        public readers: CodeObjectReader[],
+        public showRustSymbolHashes = false,
+        public addressValidity: AddressValidity = "programImages",
+    ) {}
+
+    /**
+     * Gets and caches the first code object reader which is working properly from the list of {@link readers}.
+     *
+     * The cached reader is trusted until it fails to read a code object, so that the reader doesn't have
+     * to be re-checked before every request.
+     * @returns the code object reader, or undefined if none are working
+     */
+    async getWorkingReader(): Promise<CodeObjectReader | undefined> {
+        if (!this.#firstWorkingReader) {
+            logger.appendLine("Trying to find a working code object reader.");
+            for (const reader of this.readers) {
+                try {
+                    if (await reader.isWorking()) {
+                        this.#firstWorkingReader = reader;
+                        logger.appendLine(
+                            `The following reader will be used: ${reader.name}`,
+                        );
+                        break;
+                    }
+                } catch {}
+            }
+        }
+
+        return this.#firstWorkingReader;
+    }
+
+    /**
+     * Searches for the code objects in a project using the first locator which finds any.
+     * @param projectDir the project directory to search in
+     * @returns the paths of the code objects, in order of preference
+     */
+    async locateCodeObjects(projectDir: string): Promise<string[]> {
+        const locatedCodeObjects: string[] = [];
+        for (const locator of this.locators) {
+            logger.appendLine(
+                `Looking for code objects using "${locator.name}"`,
+            );
+            try {
+                const found = await locator.findObjectPaths(projectDir);
+                logger.appendLine(
+                    `The code object locator "${locator.name}" found ${found.length} objects.`,
+                );
+                if (found.length > 0) {
+                    locatedCodeObjects.push(...found);
+                    break;
+                }
+            } catch (err) {
+                logger.appendLine(
+                    `The code object locator "${locator.name}" failed to find any objects: ${err}`,
+                );
+            }
+        }
+
+        if (locatedCodeObjects.length === 0) {
+            throw new Error(`Cannot find any code objects in ${projectDir}`);
+        }
+
+        logger.appendLine(
+            "The following code objects were found, in order of preference:",
+        );
+        locatedCodeObjects.forEach((codeObject, index) =>
+            logger.appendLine(`    ${index + 1}. ${codeObject}`),
+        );
+        return locatedCodeObjects;
+    }
+
+    /**
+     * Reads which address ranges of the brain's memory are covered by the code in some code objects.
+     * @param codeObjects the paths of the code objects to read
+     * @returns the program images, or undefined if any of the code objects couldn't be read, in which
+     * case it isn't known which addresses are valid
+     */
+    async getProgramImages(
+        codeObjects: string[],
+    ): Promise<ProgramImage[] | undefined> {
+        const images = await Promise.all(
+            codeObjects.map((codeObject) =>
+                this.#images.read(codeObject).catch(() => undefined),
+            ),
+        );
+        if (images.some((image) => image === undefined)) {
+            return undefined;
+        }
+        return images.filter((image) => image !== undefined);
+    }
+
+    /**
+     * Checks whether an address could be symbolized according to {@link addressValidity}.
+     * @param address the address to check
+     * @param images the program images of the project, or undefined if they aren't known
+     * @returns `true` if the address should be symbolized, `false` otherwise
+     */
+    isAddressValid(
+        address: number,
+        images: Pick<ProgramImage, "ranges">[] | undefined,
+    ) {
+        switch (this.addressValidity) {
+            case "any":
+                return true;
+            case "userSpace":
+                return address >= USER_SPACE_START;
+            case "programImages":
+                return (
+                    !images ||
+                    images.some((image) => imageContains(image, address))
+                );
+        }
+    }
+
+    /**
+     * Resolves metadata about many addresses at once, such as every frame in a backtrace. This is much
+     * faster than resolving each address separately because each code object only has to be read once.
+     * @param addresses the addresses to resolve
+     * @param projectDir the project directory to search for code objects in
+     * @returns the result for each address, in the same order as `addresses`
+     */
+    async resolveToSymbols(
+        addresses: string[],
+        projectDir: string,
+    ): Promise<PromiseSettledResult<ResolvedSymbol>[]> {
+        const readerRequest = this.getWorkingReader();
+
+        const codeObjects = await this.locateCodeObjects(projectDir);
+
+        const errors: unknown[][] = addresses.map(() => []);
+        const resolved: (ResolvedSymbol | undefined)[] = addresses.map(
+            () => undefined,
+        );
+        // Indices of the addresses which don't have a source location yet.
+        let pending = addresses.map((_, index) => index);
+
+        // Addresses which can't be symbolized are failed before starting any readers.
+        const invalidAddresses = new Set<number>();
+        const images = await this.getProgramImages(codeObjects);
+        pending = pending.filter((index) => {
+            const address = Number.parseInt(addresses[index]);
+            if (this.isAddressValid(address, images)) {
+                return true;
+            }
+            logger.appendLine(
+                `${addresses[index]} is not a valid address to symbolize.`,
+            );
+            invalidAddresses.add(index);
+            return false;
+        });
+
+        const reader = pending.length > 0 ? await readerRequest : undefined;
+        if (pending.length > 0 && !reader) {
+            const readers = this.readers
+                .map((reader) => reader.name)
+                .join(", ");
+            throw new Error(
+                `Cannot find any working code object readers; install one of: ${readers}`,
+            );
+        }
+
+        for (const [objectIndex, codeObject] of codeObjects.entries()) {
+            if (!reader || pending.length === 0) {
+                logger.appendLine(
+                    "Every result seems reasonable, stopping here.",
+                );
+                break;
+            }
+
+            // Split programs (like PROS hot/cold packages) put different addresses in different code
+            // objects, so only ask each code object about the addresses that are inside of it.
+            const image = images?.[objectIndex];
+            const requested = pending.filter((index) => {
+                const address = Number.parseInt(addresses[index]);
+                // Addresses outside of every image (if the validity rule allows them) are tried everywhere.
+                return (
+                    !image ||
+                    imageContains(image, address) ||
+                    !images?.some((other) => imageContains(other, address))
+                );
+            });
+            if (requested.length === 0) {
+                logger.appendLine(
+                    `Skipping ${codeObject} because none of the remaining addresses are inside of it.`,
+                );
+                continue;
+            }
+
+            logger.appendLine(`Resolving ${codeObject}`);
+            let results: PromiseSettledResult<ResolvedSymbol>[];
+            try {
+                results = await reader.resolveToSymbolsInObject(
+                    requested.map((index) => addresses[index]),
+                    codeObject,
+                );
+            } catch (err) {
+                logger.appendLine(
+                    `${codeObject} could not be resolved: ${inspect(err)}`,
+                );
+                for (const index of requested) {
+                    errors[index].push(err);
+                }
+                // The reader may have broken (for example, if its executable was uninstalled), so look
+                // for a working one next time.
+                this.#firstWorkingReader = undefined;
+                continue;
+            }
+
+            const stillPending = new Set(
+                pending.filter((index) => !requested.includes(index)),
+            );
+            results.forEach((result, resultIndex) => {
+                const index = requested[resultIndex];
+                if (result.status === "rejected") {
+                    logger.appendLine(
+                        `${addresses[index]} could not be resolved: ${inspect(
+                            result.reason,
+                        )}`,
+                    );
+                    errors[index].push(result.reason);
+                    stillPending.add(index);
+                    return;
+                }
+
+                logger.appendLine(
+                    `${addresses[index]} resolved to: ${inspect(result.value)}`,
+                );
+                resolved[index] = result.value;
+                if (result.value.sourceLocation === undefined) {
+                    logger.appendLine(
+                        "This result is sub-optimal because there is no source location, so any remaining objects will be checked as well.",
+                    );
+                    stillPending.add(index);
+                }
+            });
+            // Keep the addresses in their original order.
+            pending = pending.filter((index) => stillPending.has(index));
+        }
+
+        return resolved.map((symbol, index) => {
+            if (symbol) {
+                // Older versions of addr2line can't demangle every Rust symbol.
+                return {
+                    status: "fulfilled",
+                    value: demangleSymbol(symbol, this.showRustSymbolHashes),
+                };
+            }
+            if (invalidAddresses.has(index)) {
+                return {
+                    status: "rejected",
+                    reason: new Error(
+                        this.addressValidity === "userSpace"
+                            ? `${addresses[index]} is below the start of user memory`
+                            : `${addresses[index]} is outside of every program image in this project`,
+                    ),
+                };
+            }
+            return {
+                status: "rejected",
+                reason: new AggregateError(
+                    errors[index],
+                    "This address could not be resolved to a line",
+                ),
+            };
+        });
+    }
+
+    /**
+     * Symbolizes every frame in a crash log.
+     * @param log the crash log to symbolize
+     * @param projectDir the project directory to search for code objects in
+     * @returns the frames, in the same order as the log
+     */
+    async symbolizeCrashLog(
+        log: CrashLog,
+        projectDir: string,
+    ): Promise<SymbolizedFrame[]> {
+        const results = await this.resolveToSymbols(
+            log.frames.map((frame) => frame.address),
+            projectDir,
+        );
+        return toSymbolizedFrames(log, results);
+    }
+
+    /**
+     * Stops any processes which the readers have started.
+     */
+    dispose() {
+        for (const reader of this.readers) {
+            reader.dispose();
+        }
+        this.#images.clear();
+    }
+}
@@ -0,0 +1,96 @@
+/**
+ * A line and column in a source file. Unlike the extension's locations, these use plain paths and
+ * 1-based numbers, the same as the debugging information they come from.
+ */
+export interface SourceLocation {
+    /**
+     * The path of the file, as it was recorded when the code object was built.
+     */
+    path: string;
+    /**
+     * The 1-based line number.
+     */
+    line: number;
+    /**
+     * The 1-based column number, or 0 if it isn't known.
+     */
+    column: number;
+}
+
+/**
+ * A function which was running at an address.
+ */
+export interface ResolvedFrame {
+    /**
+     * The location in source code of the symbol.
+     */
+    sourceLocation?: SourceLocation;
+    /**
+     * The human-readable name of this symbol.
+     */
+    symbolName: string;
+}
+
+/**
+ * Metadata about an address such as its file and line number.
+ */
+export interface ResolvedSymbol extends ResolvedFrame {
+    /**
+     * The path of the code object from which this metadata was read.
+     */
+    codeObject: string;
+    /**
+     * Every function which was running at this address because of inlining, starting with the innermost
+     * inlined function (the same frame as this symbol) and ending with the function it was inlined into.
+     */
+    inlinedFrames: ResolvedFrame[];
+}
+
+/**
+ * Locates code objects on the filesystem which contain useful metadata for symbolization.
+ */
+export interface CodeObjectLocator {
+    /**
+     * The name of the locator.
+     */
+    readonly name: string;
+
+    /**
+     * Finds the paths of code objects to use in symbolization.
+     * @param projectDir the project directory to check in
+     * @returns the paths, most preferred first
+     */
+    findObjectPaths(projectDir: string): Promise<string[]>;
+}
+
+/**
+ * Reads metadata from a code object file such as an ELF file.
+ */
+export interface CodeObjectReader {
+    /**
+     * The name of the reader.
+     */
+    readonly name: string;
+
+    /**
+     * Checks if the reader could be used to symbolize a code object.
+     * @returns `true` if it is working, `false` if it isn't
+     */
+    isWorking(): Promise<boolean>;
+
+    /**
+     * Retrieves metadata for many addresses in the same code object at once.
+     * @param addresses the addresses to symbolize
+     * @param codeObject the path of the code object to retrieve metadata from
+     * @returns the result for each address, in the same order as `addresses`
+     */
+    resolveToSymbolsInObject(
+        addresses: string[],
+        codeObject: string,
+    ): Promise<PromiseSettledResult<ResolvedSymbol>[]>;
+
+    /**
+     * Stops any tools the reader started and forgets what it has read.
+     */
+    dispose(): void;
+}
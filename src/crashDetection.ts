@@ -0,0 +1,230 @@
+import * as vscode from "vscode";
+import * as path from "node:path";
+import { inspect } from "node:util";
+import { CrashLog, CrashLogCollector } from "./core/crashLogs.js";
+import {
+    CrashReportProvider,
+    SymbolizedFrame,
+    symbolizeCrashLog,
+} from "./crashReports.js";
+import { CrashStackProvider } from "./crashStack.js";
+import {
+    findProjectFrame,
+    ResolvedFrame,
+    Symbolizer,
+} from "./symbolization.js";
+import { Project } from "./projects.js";
+import { output } from "./logs.js";
+
+/**
+ * Commands which show the output of the program running on the robot, such as `pros terminal`,
+ * `pros mut` and `cargo v5 run`.
+ */
+const DEVICE_OUTPUT_COMMAND_PATTERN =
+    /\bprosv?5?\s+(?:terminal|mu|mut|ut|upload-terminal)\b|\bcargo\s+v5\s+(?:run|terminal)\b/;
+
+/**
+ * How many crashes are remembered for each run of a command so that a crash which is printed again, such
+ * as by a program that keeps crashing in the same place, doesn't raise another notification.
+ */
+const MAX_REMEMBERED_CRASHES = 20;
+
+/**
+ * Checks whether a command line shows the output of the program running on the robot.
+ * @param commandLine the command line to check
+ */
+export function isDeviceOutputCommand(commandLine: string) {
+    return DEVICE_OUTPUT_COMMAND_PATTERN.test(commandLine);
+}
+
+/**
+ * Describes a crash well enough to tell whether it's been seen before.
+ */
+function getCrashKey(log: CrashLog) {
+    return [
+        log.kind,
+        log.title,
+        ...log.frames.map((frame) => frame.address),
+    ].join(" ");
+}
+
+/**
+ * Output from one run of a command which shows the output of the robot's program, which is checked for
+ * crashes as it arrives.
+ */
+export interface WatchedOutput {
+    /**
+     * Checks more of the output for crashes.
+     * @param data the output, which doesn't have to end at a line break
+     */
+    write(data: string): void;
+    /**
+     * Checks the rest of the output once the command has finished.
+     */
+    end(): void;
+}
+
+/**
+ * Watches the output of commands which run the program on the robot, and raises a notification whenever
+ * it crashes. Commands in terminals with shell integration are watched automatically, and device output
+ * tasks pass their output to {@link watchOutput}.
+ */
+export class CrashDetector implements vscode.Disposable {
+    #disposables: vscode.Disposable[];
+
+    constructor(
+        public symbolizer: Symbolizer,
+        public crashStack: CrashStackProvider,
+        public crashReports: CrashReportProvider,
+    ) {
+        this.#disposables = [
+            vscode.window.onDidStartTerminalShellExecution((event) =>
+                this.#watchExecution(event),
+            ),
+        ];
+    }
+
+    /**
+     * Starts checking the output of a run of a command for crashes.
+     * @param name the name of the terminal or task which runs the command
+     * @param getProject finds the project which the command is running
+     * @returns the output to write to
+     */
+    watchOutput(
+        name: string,
+        getProject: () => Promise<Project | undefined>,
+    ): WatchedOutput {
+        const collector = new CrashLogCollector();
+        const seenCrashes: string[] = [];
+        const notifyAll = (logs: CrashLog[]) => {
+            for (const log of logs) {
+                const key = getCrashKey(log);
+                if (log.frames.length === 0 || seenCrashes.includes(key)) {
+                    continue;
+                }
+                seenCrashes.push(key);
+                seenCrashes.splice(
+                    0,
+                    seenCrashes.length - MAX_REMEMBERED_CRASHES,
+                );
+
+                this.#notify(name, getProject, log).catch((err) =>
+                    output.appendLine(
+                        `Couldn't symbolize the crash in "${name}": ${inspect(err)}`,
+                    ),
+                );
+            }
+        };
+
+        return {
+            write: (data) => notifyAll(collector.write(data)),
+            end: () => notifyAll(collector.flush()),
+        };
+    }
+
+    dispose() {
+        for (const disposable of this.#disposables) {
+            disposable.dispose();
+        }
+    }
+
+    async #watchExecution(event: vscode.TerminalShellExecutionStartEvent) {
+        const { terminal, execution } = event;
+        if (!isDeviceOutputCommand(execution.commandLine.value)) {
+            return;
+        }
+
+        output.appendLine(
+            `Watching "${execution.commandLine.value}" in "${terminal.name}" for crashes.`,
+        );
+        const watched = this.watchOutput(terminal.name, () =>
+            this.symbolizer.getActiveProject(terminal, false),
+        );
+
+        try {
+            for await (const data of execution.read()) {
+                watched.write(data);
+            }
+        } catch (err) {
+            output.appendLine(
+                `Couldn't read the output of "${execution.commandLine.value}": ${inspect(err)}`,
+            );
+        }
+        watched.end();
+    }
+
+    /**
+     * Symbolizes a crash and tells the user where their program crashed.
+     */
+    async #notify(
+        name: string,
+        getProject: () => Promise<Project | undefined>,
+        log: CrashLog,
+    ) {
+        const project = await getProject();
+        if (!project) {
+            output.appendLine(
+                `Found a crash in "${name}", but it isn't clear which project it came from.`,
+            );
+            return;
+        }
+
+        const frames = await symbolizeCrashLog(this.symbolizer, log, project);
+        this.crashStack.showCrash(log, frames, project);
+
+        const OPEN_LOCATION = "Open Location";
+        const VIEW_BACKTRACE = "View Backtrace";
+        const frame = this.#findCrashingFrame(frames, project);
+        const location = frame?.sourceLocation;
+        const actions = location
+            ? [OPEN_LOCATION, VIEW_BACKTRACE]
+            : [VIEW_BACKTRACE];
+
+        const message = frame
+            ? `Your program crashed in \`${frame.symbolName}\`${location ? ` at ${path.basename(location.uri.path)}:${location.position.line + 1}` : ""}.`
+            : `Your program crashed: ${log.title}.`;
+        const action = await vscode.window.showErrorMessage(
+            message,
+            ...actions,
+        );
+
+        if (action === OPEN_LOCATION && frame) {
+            await this.symbolizer.jumpToLine(frame);
+        } else if (action === VIEW_BACKTRACE) {
+            await this.#viewBacktrace(log, project);
+        }
+    }
+
+    /**
+     * Picks the frame which best describes where a crash happened: the innermost one in the project's
+     * own code, looking through inlined library functions to the functions they were inlined into, or the
+     * innermost one that could be symbolized if none are.
+     */
+    #findCrashingFrame(
+        frames: SymbolizedFrame[],
+        project: Project,
+    ): ResolvedFrame | undefined {
+        const resolved = frames.flatMap(({ resolved }) =>
+            resolved ? [resolved] : [],
+        );
+        for (const symbol of resolved) {
+            const frame = findProjectFrame(symbol, project);
+            if (frame) {
+                return frame;
+            }
+        }
+        return resolved[0]?.inlinedFrames[0] ?? resolved[0];
+    }
+
+    async #viewBacktrace(log: CrashLog, project: Project) {
+        try {
+            await this.crashReports.showReport(log, project);
+        } catch (err) {
+            output.appendLine(`Couldn't show the backtrace: ${inspect(err)}`);
+            const msg = err instanceof Error ? err.message : String(err);
+            vscode.window.showErrorMessage(
+                `Couldn't show the backtrace: ${msg}`,
+            );
+        }
+    }
+}
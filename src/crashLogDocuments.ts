@@ -0,0 +1,389 @@
+import * as vscode from "vscode";
+import * as path from "node:path";
+import { inspect } from "node:util";
+import {
+    findAddressesInLine,
+    normalizeAddress,
+    parseCrashLogs,
+} from "./core/crashLogs.js";
+import { SymbolizedFrame, symbolizeCrashLog } from "./crashReports.js";
+import { CrashStackProvider } from "./crashStack.js";
+import { ProgramImage } from "./programImages.js";
+import { formatDataAddress } from "./dataAddresses.js";
+import { Project } from "./projects.js";
+import { ResolvedLocation, Symbolizer } from "./symbolization.js";
+import { output } from "./logs.js";
+
+/**
+ * The documents which crash logs are saved or pasted into.
+ */
+export const CRASH_LOG_DOCUMENT_SELECTOR: vscode.DocumentSelector = [
+    { language: "plaintext", scheme: "file" },
+    { language: "plaintext", scheme: "untitled" },
+    { language: "log", scheme: "file" },
+    { language: "log", scheme: "untitled" },
+];
+
+/**
+ * Creates a link which runs the Jump to Address command.
+ */
+function jumpToAddressUri(address: string) {
+    return vscode.Uri.parse(
+        `command:symbolizer-for-vex-v5.jump-to-address?${encodeURIComponent(
+            JSON.stringify([address]),
+        )}`,
+    );
+}
+
+function formatLocation(location: ResolvedLocation) {
+    return `${path.basename(location.uri.path)}:${location.position.line + 1}`;
+}
+
+/**
+ * Makes the addresses in crash logs which were saved to text files clickable, shows what they are when
+ * they're hovered, and symbolizes whole crashes in place.
+ */
+export class CrashLogDocumentProvider
+    implements
+        vscode.DocumentLinkProvider,
+        vscode.HoverProvider,
+        vscode.CodeLensProvider,
+        vscode.Disposable
+{
+    /**
+     * The decorations showing the symbolized frames in each document, keyed by URI.
+     */
+    #decorations = new Map<string, vscode.DecorationOptions[]>();
+    #decorationType = vscode.window.createTextEditorDecorationType({
+        after: {
+            color: new vscode.ThemeColor("editorCodeLens.foreground"),
+            fontStyle: "italic",
+            margin: "0 0 0 2em",
+        },
+    });
+    #disposables: vscode.Disposable[];
+
+    constructor(
+        public symbolizer: Symbolizer,
+        public crashStack: CrashStackProvider,
+    ) {
+        this.#disposables = [
+            // Decorations are lost whenever an editor is closed, so they're added again when it's reopened.
+            vscode.window.onDidChangeVisibleTextEditors((editors) =>
+                editors.forEach((editor) => this.#decorate(editor)),
+            ),
+            // Editing the document moves lines around, so the decorations wouldn't line up anymore.
+            vscode.workspace.onDidChangeTextDocument((event) => {
+                if (event.contentChanges.length === 0) {
+                    return;
+                }
+                if (this.#decorations.delete(event.document.uri.toString())) {
+                    this.#decorateAll(event.document);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument((document) =>
+                this.#decorations.delete(document.uri.toString()),
+            ),
+        ];
+    }
+
+    async provideDocumentLinks(
+        document: vscode.TextDocument,
+        token: vscode.CancellationToken,
+    ): Promise<vscode.DocumentLink[]> {
+        const images = await this.#getProgramImages();
+        const links: vscode.DocumentLink[] = [];
+        for (let line = 0; line < document.lineCount; line++) {
+            if (token.isCancellationRequested) {
+                return [];
+            }
+
+            for (const found of findAddressesInLine(
+                document.lineAt(line).text,
+            )) {
+                const address = Number.parseInt(
+                    normalizeAddress(found.address),
+                );
+                if (!this.symbolizer.isAddressValid(address, images)) {
+                    continue;
+                }
+
+                const link = new vscode.DocumentLink(
+                    new vscode.Range(
+                        line,
+                        found.index,
+                        line,
+                        found.index + found.address.length,
+                    ),
+                    jumpToAddressUri(normalizeAddress(found.address)),
+                );
+                link.tooltip = found.label
+                    ? `Jump to address (${found.label})`
+                    : "Jump to address";
+                links.push(link);
+            }
+        }
+        return links;
+    }
+
+    async provideHover(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+    ): Promise<vscode.Hover | undefined> {
+        const found = findAddressesInLine(
+            document.lineAt(position.line).text,
+        ).find(
+            (found) =>
+                position.character >= found.index &&
+                position.character <= found.index + found.address.length,
+        );
+        if (!found) {
+            return undefined;
+        }
+
+        const project = await this.symbolizer.getActiveProject(
+            undefined,
+            false,
+        );
+        if (!project) {
+            return undefined;
+        }
+
+        const address = normalizeAddress(found.address);
+        const range = new vscode.Range(
+            position.line,
+            found.index,
+            position.line,
+            found.index + found.address.length,
+        );
+        const [result] = await this.symbolizer.resolveToSymbols(
+            [address],
+            project,
+        );
+        if (result.status === "rejected") {
+            // Registers often hold pointers to data rather than code.
+            return await this.#provideDataHover(
+                address,
+                found.label,
+                project,
+                range,
+            );
+        }
+
+        const resolved = result.value;
+        const markdown = new vscode.MarkdownString();
+        markdown.isTrusted = {
+            enabledCommands: ["symbolizer-for-vex-v5.jump-to-address"],
+        };
+        if (found.label) {
+            markdown.appendMarkdown(`**${found.label}**: `);
+        }
+        markdown.appendMarkdown(
+            `[\`${address}\`](${jumpToAddressUri(address).toString()})\n\n`,
+        );
+
+        const frames =
+            resolved.inlinedFrames.length > 0
+                ? resolved.inlinedFrames
+                : [resolved];
+        frames.forEach((frame, index) => {
+            if (index > 0) {
+                markdown.appendText("inlined into ");
+            }
+            markdown.appendMarkdown(`\`${frame.symbolName}\``);
+            const location = frame.sourceLocation;
+            if (location) {
+                const { line, character } = location.position;
+                const target = location.uri.with({
+                    fragment: `L${line + 1},${character + 1}`,
+                });
+                markdown.appendMarkdown(
+                    ` at [${formatLocation(location)}](${target.toString()})`,
+                );
+            }
+            markdown.appendMarkdown("\n\n");
+        });
+        markdown.appendText(path.basename(resolved.codeObject.path));
+
+        return new vscode.Hover(markdown, range);
+    }
+
+    /**
+     * Describes what an address which doesn't contain code points to, like a global variable or the heap.
+     */
+    async #provideDataHover(
+        address: string,
+        label: string,
+        project: Project,
+        range: vscode.Range,
+    ): Promise<vscode.Hover | undefined> {
+        const description = await this.symbolizer
+            .describeDataAddress(address, project)
+            .catch((err) => {
+                output.appendLine(
+                    `Couldn't describe the data address ${address}: ${inspect(err)}`,
+                );
+                return undefined;
+            });
+        // Values below user memory are usually just numbers rather than pointers.
+        if (
+            !description ||
+            (!description.symbol && description.region === "system")
+        ) {
+            return undefined;
+        }
+
+        const markdown = new vscode.MarkdownString();
+        markdown.appendMarkdown(`**${label}**: \`${address}\`\n\n`);
+        markdown.appendMarkdown(formatDataAddress(description));
+        return new vscode.Hover(markdown, range);
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        return parseCrashLogs(document.getText())
+            .filter((log) => log.frames.length > 0)
+            .map(
+                (log) =>
+                    new vscode.CodeLens(
+                        new vscode.Range(log.startLine, 0, log.startLine, 0),
+                        {
+                            title: `Symbolize All (${log.frames.length} ${log.frames.length === 1 ? "address" : "addresses"})`,
+                            command:
+                                "symbolizer-for-vex-v5.symbolize-crash-log-in-document",
+                            arguments: [document.uri, log.startLine],
+                        },
+                    ),
+            );
+    }
+
+    /**
+     * Symbolizes every frame of a crash in a document, and shows the functions next to their addresses.
+     * @param uri the document containing the crash
+     * @param startLine the first line of the crash
+     */
+    async symbolizeInDocument(uri: vscode.Uri, startLine: number) {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const log = parseCrashLogs(document.getText()).find(
+            (log) => log.startLine === startLine,
+        );
+        if (!log) {
+            return;
+        }
+
+        const project = await this.symbolizer.getActiveProject();
+        if (!project) {
+            if (!vscode.workspace.workspaceFolders?.length) {
+                vscode.window.showErrorMessage(
+                    "Couldn't symbolize crash log: There is no active workspace",
+                );
+            }
+            return;
+        }
+
+        const frames = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Window,
+                title: `Symbolizing ${log.frames.length} addresses`,
+            },
+            () => symbolizeCrashLog(this.symbolizer, log, project),
+        );
+        this.crashStack.showCrash(log, frames, project);
+
+        const key = uri.toString();
+        const decorations = (this.#decorations.get(key) ?? []).filter(
+            (decoration) =>
+                decoration.range.start.line < log.startLine ||
+                decoration.range.start.line > log.endLine,
+        );
+        for (const symbolized of frames) {
+            const decoration = this.#createDecoration(document, symbolized);
+            if (decoration) {
+                decorations.push(decoration);
+            }
+        }
+        this.#decorations.set(key, decorations);
+        this.#decorateAll(document);
+    }
+
+    dispose() {
+        for (const disposable of this.#disposables) {
+            disposable.dispose();
+        }
+        this.#decorationType.dispose();
+        this.#decorations.clear();
+    }
+
+    /**
+     * Gets the program images of the active project, so that only addresses inside of them are linked.
+     */
+    async #getProgramImages(): Promise<ProgramImage[] | undefined> {
+        if (this.symbolizer.addressValidity !== "programImages") {
+            return undefined;
+        }
+
+        // Links are found while the user is just reading, so don't ask them for a project yet.
+        const project = await this.symbolizer.getActiveProject(
+            undefined,
+            false,
+        );
+        if (!project) {
+            return undefined;
+        }
+
+        try {
+            return await this.symbolizer.getProgramImages(
+                await this.symbolizer.locateCodeObjects(project),
+            );
+        } catch (err) {
+            output.appendLine(
+                `Couldn't find program images for crash log links: ${inspect(err)}`,
+            );
+            return undefined;
+        }
+    }
+
+    #createDecoration(
+        document: vscode.TextDocument,
+        { frame, resolved, error }: SymbolizedFrame,
+    ): vscode.DecorationOptions | undefined {
+        if (frame.line < 0 || frame.line >= document.lineCount) {
+            return undefined;
+        }
+
+        const inner = resolved?.inlinedFrames[0] ?? resolved;
+        const location = inner?.sourceLocation;
+        const text = inner
+            ? `${inner.symbolName}${location ? ` at ${formatLocation(location)}` : ""}`
+            : `couldn't be symbolized: ${error}`;
+
+        const hoverMessage = new vscode.MarkdownString();
+        hoverMessage.appendText(`${frame.label}: ${frame.address}\n\n`);
+        hoverMessage.appendText(
+            location
+                ? `${location.uri.fsPath}:${location.position.line + 1}`
+                : text,
+        );
+
+        const end = document.lineAt(frame.line).range.end;
+        return {
+            range: new vscode.Range(end, end),
+            hoverMessage,
+            renderOptions: { after: { contentText: text } },
+        };
+    }
+
+    #decorateAll(document: vscode.TextDocument) {
+        for (const editor of vscode.window.visibleTextEditors) {
+            if (editor.document === document) {
+                this.#decorate(editor);
+            }
+        }
+    }
+
+    #decorate(editor: vscode.TextEditor) {
+        editor.setDecorations(
+            this.#decorationType,
+            this.#decorations.get(editor.document.uri.toString()) ?? [],
+        );
+    }
+}
@@ -0,0 +1,326 @@
+import * as vscode from "vscode";
+import * as fs from "node:fs";
+import * as tty from "node:tty";
+import { inspect, promisify } from "node:util";
+import { Readable } from "node:stream";
+import { CrashLog, CrashLogCollector } from "./core/crashLogs.js";
+import { SymbolizedFrame, symbolizeCrashLog } from "./crashReports.js";
+import { CrashStackProvider } from "./crashStack.js";
+import { Symbolizer } from "./symbolization.js";
+import { Project } from "./projects.js";
+import { output } from "./logs.js";
+
+const open = promisify(fs.open);
+
+/**
+ * How long the device has to be quiet before a crash which might still be growing is symbolized.
+ */
+const QUIET_PERIOD_MS = 500;
+
+/**
+ * How much output a device can send without a whole PROS frame before it's treated as plain text, so
+ * that a device which never goes quiet is still decided on.
+ */
+const MAX_UNDECIDED_BYTES = 4096;
+
+/**
+ * The streams which PROS sends over the V5's user port.
+ */
+const PROS_STREAMS = new Set(["sout", "serr", "kdbg", "jinx"]);
+
+/**
+ * The PROS streams whose contents are text written by the program or the kernel.
+ */
+const PROS_TEXT_STREAMS = new Set(["sout", "serr", "kdbg"]);
+
+/**
+ * Decodes a frame of Consistent Overhead Byte Stuffing, which PROS uses to send several streams over the
+ * V5's user port.
+ * @param frame the bytes between two zero bytes
+ * @returns the decoded bytes
+ */
+export function decodeCobs(frame: Uint8Array): Uint8Array {
+    const decoded: number[] = [];
+    let index = 0;
+    while (index < frame.length) {
+        const code = frame[index];
+        if (code === 0) {
+            break;
+        }
+        decoded.push(...frame.subarray(index + 1, index + code));
+        index += code;
+        if (code !== 0xff && index < frame.length) {
+            decoded.push(0);
+        }
+    }
+    return Uint8Array.from(decoded);
+}
+
+/**
+ * Gets the stream which a decoded PROS frame belongs to, such as `sout`.
+ */
+function getStream(decoded: Uint8Array) {
+    return new TextDecoder().decode(decoded.subarray(0, 4));
+}
+
+/**
+ * Turns the bytes from a device into text. PROS programs send their output in COBS frames tagged with a
+ * stream like `sout`, while vexide and VEXcode programs send plain text. Output is held back until a
+ * whole frame with a PROS stream shows that the device is using frames, or until {@link flush} is
+ * called because the device has gone quiet without sending one.
+ */
+export class DeviceDecoder {
+    #textDecoder = new TextDecoder();
+    #mode: "undecided" | "framed" | "text" = "undecided";
+    #frame: number[] = [];
+    /**
+     * The output which hasn't been decoded yet because it isn't clear whether it's framed.
+     */
+    #undecided: number[] = [];
+
+    decode(chunk: Uint8Array): string {
+        if (this.#mode === "text") {
+            return this.#textDecoder.decode(chunk, { stream: true });
+        }
+        if (this.#mode === "framed") {
+            return this.#decodeFrames(chunk);
+        }
+
+        this.#undecided.push(...chunk);
+        let start = 0;
+        for (let end = this.#undecided.indexOf(0); end !== -1;) {
+            const frame = Uint8Array.from(this.#undecided.slice(start, end));
+            if (PROS_STREAMS.has(getStream(decodeCobs(frame)))) {
+                const bytes = Uint8Array.from(this.#undecided.slice(start));
+                this.#mode = "framed";
+                this.#undecided = [];
+                return this.#decodeFrames(bytes);
+            }
+            if (start > 0) {
+                // A whole frame without a PROS stream means the zero bytes aren't frame boundaries.
+                return this.#decideText();
+            }
+
+            // The monitor may have started in the middle of a frame, so the first one can't be trusted.
+            start = end + 1;
+            end = this.#undecided.indexOf(0, start);
+        }
+        return this.#undecided.length > MAX_UNDECIDED_BYTES
+            ? this.#decideText()
+            : "";
+    }
+
+    /**
+     * Decides that the device sends plain text, if it isn't clear yet, such as when the device has gone
+     * quiet without sending a frame.
+     * @returns the output which was held back, as text
+     */
+    flush(): string {
+        if (this.#mode !== "undecided" || this.#undecided.length === 0) {
+            return "";
+        }
+        if (this.#undecided.at(-1) === 0) {
+            // PROS devices go quiet at the end of a frame, so this is most likely the end of a frame which
+            // was cut off when the monitor started. It can't be decoded, and the next frame will decide.
+            this.#undecided = [];
+            return "";
+        }
+        return this.#decideText();
+    }
+
+    #decideText(): string {
+        const bytes = Uint8Array.from(this.#undecided);
+        this.#mode = "text";
+        this.#undecided = [];
+        return this.#textDecoder.decode(bytes, { stream: true });
+    }
+
+    #decodeFrames(bytes: Uint8Array): string {
+        let text = "";
+        for (const byte of bytes) {
+            if (byte !== 0) {
+                this.#frame.push(byte);
+                continue;
+            }
+
+            const decoded = decodeCobs(Uint8Array.from(this.#frame));
+            this.#frame = [];
+            if (PROS_TEXT_STREAMS.has(getStream(decoded))) {
+                text += this.#textDecoder.decode(decoded.subarray(4), {
+                    stream: true,
+                });
+            }
+        }
+        return text;
+    }
+}
+
+/**
+ * Reads a serial device or pseudo-terminal, like the V5's user port, and symbolizes every crash which
+ * the program prints to it.
+ */
+export class CrashMonitor implements vscode.Disposable {
+    readonly #channel = vscode.window.createOutputChannel(
+        "VEX V5 Crash Monitor",
+    );
+    readonly #statusBarItem = vscode.window.createStatusBarItem(
+        vscode.StatusBarAlignment.Left,
+    );
+    #stream: Readable | undefined;
+    #quietTimer: NodeJS.Timeout | undefined;
+
+    constructor(
+        public symbolizer: Symbolizer,
+        public crashStack: CrashStackProvider,
+    ) {
+        this.#statusBarItem.command =
+            "symbolizer-for-vex-v5.stop-crash-monitor";
+    }
+
+    get isRunning() {
+        return this.#stream !== undefined;
+    }
+
+    /**
+     * Starts reading a device, stopping any device which was already being read.
+     * @param devicePath the path of the device, such as `/dev/ttyACM1` or `COM4`
+     * @param project the project which is running on the robot
+     */
+    async start(devicePath: string, project: Project) {
+        this.stop();
+
+        // The device is opened directly, since the V5 ignores the baud rate and other serial settings.
+        const fd = await open(
+            devicePath,
+            fs.constants.O_RDONLY | (fs.constants.O_NOCTTY ?? 0),
+        );
+        let stream: Readable;
+        if (tty.isatty(fd)) {
+            const ttyStream = new tty.ReadStream(fd);
+            // Without raw mode, the terminal driver would wait for line breaks and echo the output back.
+            ttyStream.setRawMode(true);
+            stream = ttyStream;
+        } else {
+            stream = fs.createReadStream("", { fd });
+        }
+        this.#stream = stream;
+
+        const decoder = new DeviceDecoder();
+        const collector = new CrashLogCollector();
+        const write = (text: string) => {
+            this.#channel.append(text);
+            this.#symbolizeAll(collector.write(text), project);
+        };
+        const flush = () => {
+            write(decoder.flush());
+            this.#symbolizeAll(collector.flush(), project);
+        };
+        stream.on("data", (chunk: Buffer) => {
+            write(decoder.decode(chunk));
+
+            clearTimeout(this.#quietTimer);
+            this.#quietTimer = setTimeout(flush, QUIET_PERIOD_MS);
+        });
+        stream.on("error", (err) => {
+            output.appendLine(
+                `The crash monitor couldn't read ${devicePath}: ${inspect(err)}`,
+            );
+        });
+        stream.on("close", () => {
+            if (this.#stream !== stream) {
+                return;
+            }
+            flush();
+            this.#channel.appendLine(
+                `\n--- Disconnected from ${devicePath} ---`,
+            );
+            this.stop();
+        });
+
+        output.appendLine(`Started the crash monitor on ${devicePath}`);
+        this.#channel.appendLine(
+            `--- Monitoring ${devicePath} for crashes in ${project.name} ---`,
+        );
+        this.#channel.show(true);
+        this.#statusBarItem.text = `$(pulse) ${devicePath}`;
+        this.#statusBarItem.tooltip = `Watching ${devicePath} for crashes. Click to stop.`;
+        this.#statusBarItem.show();
+    }
+
+    /**
+     * Stops reading the device.
+     */
+    stop() {
+        const stream = this.#stream;
+        if (!stream) {
+            return;
+        }
+
+        this.#stream = undefined;
+        clearTimeout(this.#quietTimer);
+        this.#statusBarItem.hide();
+        if (stream instanceof tty.ReadStream) {
+            stream.setRawMode(false);
+        }
+        stream.destroy();
+        output.appendLine("Stopped the crash monitor.");
+    }
+
+    dispose() {
+        this.stop();
+        this.#statusBarItem.dispose();
+        this.#channel.dispose();
+    }
+
+    #symbolizeAll(logs: CrashLog[], project: Project) {
+        for (const log of logs) {
+            if (log.frames.length === 0) {
+                continue;
+            }
+            this.#symbolize(log, project).catch((err) =>
+                output.appendLine(
+                    `The crash monitor couldn't symbolize a crash: ${inspect(err)}`,
+                ),
+            );
+        }
+    }
+
+    async #symbolize(log: CrashLog, project: Project) {
+        const frames = await symbolizeCrashLog(this.symbolizer, log, project);
+        this.crashStack.showCrash(log, frames, project);
+
+        this.#channel.appendLine("");
+        this.#channel.appendLine(`=== ${log.kind} crash: ${log.title} ===`);
+        for (const symbolized of frames) {
+            this.#channel.appendLine(this.#formatFrame(symbolized));
+        }
+        this.#channel.appendLine("");
+    }
+
+    /**
+     * Formats a frame with an absolute `path:line:column`, which VS Code makes clickable in output
+     * channels.
+     */
+    #formatFrame({ frame, resolved, error }: SymbolizedFrame): string {
+        const heading = `${frame.label.padEnd(16)} ${frame.address}`;
+        if (!resolved) {
+            return `${heading}  ${error ?? "couldn't be symbolized"}`;
+        }
+
+        const inlinedFrames =
+            resolved.inlinedFrames.length > 0
+                ? resolved.inlinedFrames
+                : [resolved];
+        return inlinedFrames
+            .map((inlined, index) => {
+                const location = inlined.sourceLocation;
+                const where = location
+                    ? ` at ${location.uri.scheme === "file" ? location.uri.fsPath : location.uri.toString()}:${location.position.line + 1}:${location.position.character + 1}`
+                    : "";
+                return index === 0
+                    ? `${heading}  ${inlined.symbolName}${where}`
+                    : `${" ".repeat(heading.length)}  inlined into ${inlined.symbolName}${where}`;
+            })
+            .join("\n");
+    }
+}
@@ -0,0 +1,252 @@
+import * as vscode from "vscode";
+import * as path from "node:path";
+import { CrashFrame, CrashLog } from "./core/crashLogs.js";
+import {
+    ResolvedLocation,
+    ResolvedSymbol,
+    Symbolizer,
+} from "./symbolization.js";
+import { Project } from "./projects.js";
+import {
+    SymbolizedFrame as CoreSymbolizedFrame,
+    toSymbolizedFrames,
+} from "./core/symbolizer.js";
+
+/**
+ * A frame from a crash log along with the result of symbolizing it.
+ */
+export type SymbolizedFrame = CoreSymbolizedFrame<ResolvedSymbol>;
+
+interface ReportLink {
+    range: vscode.Range;
+    target: vscode.Uri;
+    tooltip: string;
+}
+
+interface Report {
+    text: string;
+    links: ReportLink[];
+}
+
+/**
+ * Symbolizes every frame in a crash log.
+ * @param symbolizer the symbolizer to resolve addresses with
+ * @param log the crash log to symbolize
+ * @param project the project to search for metadata in
+ * @returns the frames, in the same order as the log
+ */
+export async function symbolizeCrashLog(
+    symbolizer: Symbolizer,
+    log: CrashLog,
+    project: Project,
+): Promise<SymbolizedFrame[]> {
+    const frames = resolveCrashFrames(symbolizer, log, project);
+    // The explanation is started right away, so that jumping to the faulting address can wait for it.
+    symbolizer.faultExplainer?.explain(log, frames, project);
+    return await frames;
+}
+
+async function resolveCrashFrames(
+    symbolizer: Symbolizer,
+    log: CrashLog,
+    project: Project,
+): Promise<SymbolizedFrame[]> {
+    const results = await symbolizer.resolveToSymbols(
+        log.frames.map((frame) => frame.address),
+        project,
+    );
+    return toSymbolizedFrames(log, results);
+}
+
+/**
+ * Builds the text of a report while keeping track of where its links are.
+ */
+class ReportBuilder {
+    #lines: string[] = [];
+    #currentLine = "";
+    links: ReportLink[] = [];
+
+    append(text: string) {
+        this.#currentLine += text;
+        return this;
+    }
+
+    appendLink(text: string, target: vscode.Uri, tooltip: string) {
+        const line = this.#lines.length;
+        const start = this.#currentLine.length;
+        this.links.push({
+            range: new vscode.Range(line, start, line, start + text.length),
+            target,
+            tooltip,
+        });
+        return this.append(text);
+    }
+
+    endLine() {
+        this.#lines.push(this.#currentLine);
+        this.#currentLine = "";
+        return this;
+    }
+
+    build(): Report {
+        return {
+            text: [...this.#lines, this.#currentLine].join("\n"),
+            links: this.links,
+        };
+    }
+}
+
+/**
+ * Shows symbolized crash logs as read-only documents with clickable frames.
+ */
+export class CrashReportProvider
+    implements vscode.TextDocumentContentProvider, vscode.DocumentLinkProvider
+{
+    static readonly scheme = "vex-crash-report";
+
+    #reports = new Map<string, Report>();
+    #nextReportId = 1;
+
+    constructor(public symbolizer: Symbolizer) {}
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.#reports.get(uri.toString())?.text ?? "";
+    }
+
+    provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+        const report = this.#reports.get(document.uri.toString());
+        return (report?.links ?? []).map((reportLink) => {
+            const link = new vscode.DocumentLink(
+                reportLink.range,
+                reportLink.target,
+            );
+            link.tooltip = reportLink.tooltip;
+            return link;
+        });
+    }
+
+    /**
+     * Symbolizes a crash log and opens a report about it.
+     * @param log the crash log to show
+     * @param project the project to search for metadata in
+     * @returns the symbolized frames shown in the report
+     */
+    async showReport(
+        log: CrashLog,
+        project: Project,
+    ): Promise<SymbolizedFrame[]> {
+        const frames = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Symbolizing ${log.frames.length} addresses`,
+            },
+            () => symbolizeCrashLog(this.symbolizer, log, project),
+        );
+
+        const report = this.#buildReport(log, frames, project);
+        const uri = vscode.Uri.from({
+            scheme: CrashReportProvider.scheme,
+            path: `/${log.kind} Crash Report ${this.#nextReportId++}.log`,
+        });
+        this.#reports.set(uri.toString(), report);
+
+        const document = await vscode.workspace.openTextDocument(uri);
+        await vscode.window.showTextDocument(document, { preview: false });
+        return frames;
+    }
+
+    #buildReport(
+        log: CrashLog,
+        frames: SymbolizedFrame[],
+        project: Project,
+    ): Report {
+        const builder = new ReportBuilder();
+
+        builder.append(`${log.kind} crash: ${log.title}`).endLine();
+        for (const detail of log.details) {
+            builder.append(detail).endLine();
+        }
+        builder.endLine();
+
+        if (log.registers.size > 0) {
+            builder.append("Registers:").endLine();
+            const registers = Array.from(log.registers);
+            for (let i = 0; i < registers.length; i += 4) {
+                const row = registers
+                    .slice(i, i + 4)
+                    .map(([name, value]) => `${name}: ${value}`.padEnd(18))
+                    .join("");
+                builder.append(`    ${row.trimEnd()}`).endLine();
+            }
+            builder.endLine();
+        }
+
+        builder.append("Backtrace:").endLine();
+        const labelWidth = Math.max(
+            0,
+            ...frames.map(({ frame }) => frame.label.length),
+        );
+        const indent = " ".repeat(4 + labelWidth + 2);
+        for (const { frame, resolved, error } of frames) {
+            builder
+                .append(`    ${frame.label.padEnd(labelWidth)}  `)
+                .appendLink(
+                    frame.address,
+                    vscode.Uri.parse(
+                        `command:symbolizer-for-vex-v5.jump-to-address?${encodeURIComponent(
+                            JSON.stringify([
+                                frame.address,
+                                project.uri.toString(),
+                            ]),
+                        )}`,
+                    ),
+                    "Jump to address",
+                );
+
+            if (!resolved) {
+                builder.append(`  Couldn't symbolize: ${error}`).endLine();
+                continue;
+            }
+
+            builder.append(`  ${resolved.symbolName}`).endLine();
+            builder.append(`${indent}at `);
+            this.#appendLocation(builder, resolved.sourceLocation, project);
+            builder
+                .append(` (${path.basename(resolved.codeObject.path)})`)
+                .endLine();
+
+            // Each inlined function was called from the frame after it.
+            for (const caller of resolved.inlinedFrames.slice(1)) {
+                builder.append(
+                    `${indent}inlined into ${caller.symbolName} at `,
+                );
+                this.#appendLocation(builder, caller.sourceLocation, project);
+                builder.endLine();
+            }
+        }
+
+        return builder.build();
+    }
+
+    #appendLocation(
+        builder: ReportBuilder,
+        location: ResolvedLocation | undefined,
+        project: Project,
+    ) {
+        if (!location) {
+            builder.append("unknown location");
+            return;
+        }
+
+        const relative = path.relative(project.uri.path, location.uri.path);
+        const displayPath = relative.startsWith("..")
+            ? location.uri.path
+            : relative;
+        const { line, character } = location.position;
+        builder.appendLink(
+            `${displayPath}:${line + 1}:${character + 1}`,
+            location.uri.with({ fragment: `L${line + 1},${character + 1}` }),
+            "Open source file",
+        );
+    }
+}
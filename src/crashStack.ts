@@ -0,0 +1,217 @@
+import * as vscode from "vscode";
+import * as path from "node:path";
+import { inspect } from "node:util";
+import { CrashLog } from "./core/crashLogs.js";
+import { SymbolizedFrame } from "./crashReports.js";
+import { ResolvedFrame, Symbolizer } from "./symbolization.js";
+import { output } from "./logs.js";
+import { Project } from "./projects.js";
+
+/**
+ * A row in the Crash Stack view.
+ */
+export interface CrashStackNode {
+    /**
+     * The crash log frame this row belongs to.
+     */
+    symbolized: SymbolizedFrame;
+    /**
+     * The function shown by this row, or undefined if the address couldn't be symbolized.
+     */
+    frame?: ResolvedFrame;
+    /**
+     * Whether this row is a function which an inlined function was inlined into, rather than the
+     * innermost function at the address.
+     */
+    isCaller: boolean;
+}
+
+/**
+ * Shows the frames of the most recently symbolized crash in a tree view.
+ */
+export class CrashStackProvider
+    implements vscode.TreeDataProvider<CrashStackNode>, vscode.Disposable
+{
+    static readonly viewId = "symbolizer-for-vex-v5.crash-stack";
+
+    readonly #onDidChangeTreeData = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this.#onDidChangeTreeData.event;
+
+    #roots: CrashStackNode[] = [];
+    #project: Project | undefined;
+    readonly #view: vscode.TreeView<CrashStackNode>;
+
+    constructor(public symbolizer: Symbolizer) {
+        this.#view = vscode.window.createTreeView(CrashStackProvider.viewId, {
+            treeDataProvider: this,
+            showCollapseAll: true,
+        });
+    }
+
+    /**
+     * Replaces the frames in the view with those of another crash.
+     * @param log the crash the frames came from
+     * @param frames the symbolized frames of the crash
+     * @param project the project the crash was symbolized with
+     */
+    showCrash(log: CrashLog, frames: SymbolizedFrame[], project: Project) {
+        this.#project = project;
+        this.#roots = frames.map((symbolized) => ({
+            symbolized,
+            frame: symbolized.resolved?.inlinedFrames[0] ?? symbolized.resolved,
+            isCaller: false,
+        }));
+        this.#view.description = `${log.kind}: ${log.title}`;
+        this.#onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Removes every frame from the view.
+     */
+    clear() {
+        this.#roots = [];
+        this.#project = undefined;
+        this.#view.description = undefined;
+        this.#onDidChangeTreeData.fire();
+    }
+
+    getChildren(node?: CrashStackNode): CrashStackNode[] {
+        if (!node) {
+            return this.#roots;
+        }
+        if (node.isCaller) {
+            return [];
+        }
+
+        // Each inlined function was called from the frame after it.
+        const callers = node.symbolized.resolved?.inlinedFrames.slice(1) ?? [];
+        return callers.map((frame) => ({
+            symbolized: node.symbolized,
+            frame,
+            isCaller: true,
+        }));
+    }
+
+    getTreeItem(node: CrashStackNode): vscode.TreeItem {
+        const { frame: crashFrame, resolved, error } = node.symbolized;
+        const frame = node.frame;
+
+        if (!resolved || !frame) {
+            const item = new vscode.TreeItem(crashFrame.address);
+            item.description = error;
+            item.tooltip = `${crashFrame.label}: ${crashFrame.address}\n${error ?? ""}`;
+            item.iconPath = new vscode.ThemeIcon("error");
+            item.contextValue = "frame missingLocation";
+            return item;
+        }
+
+        const hasCallers = !node.isCaller && resolved.inlinedFrames.length > 1;
+        const item = new vscode.TreeItem(
+            node.isCaller
+                ? `inlined into ${frame.symbolName}`
+                : frame.symbolName,
+            hasCallers
+                ? vscode.TreeItemCollapsibleState.Collapsed
+                : vscode.TreeItemCollapsibleState.None,
+        );
+
+        const location = frame.sourceLocation;
+        const codeObjectName = path.basename(resolved.codeObject.path);
+        item.description = location
+            ? `${path.basename(location.uri.path)}:${location.position.line + 1} (${codeObjectName})`
+            : codeObjectName;
+
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(
+            `**${crashFrame.label}**: \`${crashFrame.address}\`\n\n`,
+        );
+        tooltip.appendText(frame.symbolName);
+        tooltip.appendMarkdown("\n\n");
+        tooltip.appendText(
+            location
+                ? `${location.uri.path}:${location.position.line + 1}:${location.position.character + 1}`
+                : "Unknown source location",
+        );
+        item.tooltip = tooltip;
+
+        const contextValues = ["frame"];
+        if (!location) {
+            contextValues.push("missingLocation");
+        }
+        if (this.symbolizer.getRemoteRepos(frame).size > 0) {
+            contextValues.push("remote");
+        }
+        item.contextValue = contextValues.join(" ");
+
+        if (!node.isCaller) {
+            item.iconPath = new vscode.ThemeIcon(
+                location ? "debug-stackframe" : "warning",
+            );
+        }
+        if (location) {
+            item.resourceUri = location.uri;
+            item.command = {
+                command: "symbolizer-for-vex-v5.crash-stack.open-frame",
+                title: "Open Frame",
+                arguments: [node],
+            };
+        }
+
+        return item;
+    }
+
+    /**
+     * Opens the source location of a frame, or its remote repository if the file isn't on this computer.
+     * @param node the frame to open
+     */
+    async openFrame(node: CrashStackNode) {
+        if (!node.frame) {
+            return;
+        }
+
+        try {
+            await this.symbolizer.jumpToLine(node.frame);
+        } catch (err) {
+            output.appendLine(`Couldn't open frame: ${inspect(err)}`);
+            if (this.symbolizer.getRemoteRepos(node.frame).size > 0) {
+                await this.openRemote(node);
+                return;
+            }
+
+            const msg = err instanceof Error ? err.message : String(err);
+            vscode.window.showErrorMessage(`Couldn't open frame: ${msg}`);
+        }
+    }
+
+    /**
+     * Opens a frame's source file in the repository it was built from.
+     * @param node the frame to open
+     */
+    async openRemote(node: CrashStackNode) {
+        if (!node.frame) {
+            return;
+        }
+
+        const [uri] = this.symbolizer.getRemoteRepos(node.frame).values();
+        if (uri) {
+            await vscode.env.openExternal(uri);
+        }
+    }
+
+    /**
+     * Symbolizes a frame again through {@link Symbolizer.jumpToAddress}, which explains why it has no
+     * source location and offers fixes.
+     * @param node the frame to symbolize
+     */
+    async findSource(node: CrashStackNode) {
+        await this.symbolizer.jumpToAddress(
+            node.symbolized.frame.address,
+            this.#project,
+        );
+    }
+
+    dispose() {
+        this.#view.dispose();
+        this.#onDidChangeTreeData.dispose();
+    }
+}
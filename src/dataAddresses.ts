@@ -0,0 +1,280 @@
+import * as path from "node:path";
+import { DwarfInfo } from "./core/dwarf.js";
+import {
+    ElfFile,
+    ElfSection,
+    ElfSymbol,
+    SHF_ALLOC,
+    SHF_EXECINSTR,
+    SHF_WRITE,
+    SHT_NOBITS,
+    STB_LOCAL,
+    STT_FILE,
+    STT_OBJECT,
+} from "./core/elf.js";
+import { demangleElfSymbolName } from "./core/demangling.js";
+
+/**
+ * The first address of the memory that user programs are loaded into. Everything below it belongs to
+ * VEXos.
+ */
+const USER_MEMORY_START = 0x3800000;
+
+/**
+ * The address after the last one that user programs can use.
+ */
+const USER_MEMORY_END = 0x8000000;
+
+/**
+ * Pairs of linker symbols which mark the start and end of the heap, as defined by the PROS, VEXcode and
+ * vexide linker scripts.
+ */
+const HEAP_SYMBOLS = [
+    ["__heap_start", "__heap_end"],
+    ["_heap_start", "_heap_end"],
+];
+
+/**
+ * Pairs of linker symbols which mark the bottom and top of the main stack.
+ */
+const STACK_SYMBOLS = [
+    ["__stack_bottom", "__stack_top"],
+    ["__stack_start", "__stack_end"],
+    ["_stack_start", "_stack_end"],
+];
+
+/**
+ * What kind of memory an address is in:
+ * - `data`: a writable section of the program, like `.data` or `.bss`.
+ * - `readOnlyData`: a read-only section of the program, like `.rodata`.
+ * - `code`: an executable section of the program, like `.text`.
+ * - `heap`: memory which is allocated with `malloc` or `new`, which PROS also puts task stacks in.
+ * - `stack`: the main stack.
+ * - `userMemory`: user memory which the program doesn't use.
+ * - `system`: memory which belongs to VEXos.
+ * - `unmapped`: outside of the memory that the brain has.
+ */
+export type MemoryRegion =
+    | "data"
+    | "readOnlyData"
+    | "code"
+    | "heap"
+    | "stack"
+    | "userMemory"
+    | "system"
+    | "unmapped";
+
+/**
+ * A variable, constant or vtable which an address is inside of.
+ */
+export interface DataSymbol {
+    /**
+     * The demangled name of the symbol.
+     */
+    name: string;
+    /**
+     * How far into the symbol the address is.
+     */
+    offset: number;
+    size: number;
+    kind: "global" | "static" | "constant" | "vtable";
+    /**
+     * The full path of the source file which defines the symbol, if it's known.
+     */
+    file?: string;
+}
+
+/**
+ * What an address which doesn't contain code points to.
+ */
+export interface DataAddressDescription {
+    address: number;
+    region: MemoryRegion;
+    /**
+     * The name of the section which contains the address, like `.bss`.
+     */
+    section?: string;
+    symbol?: DataSymbol;
+}
+
+/**
+ * Finds the section which an address is inside of once the program is loaded.
+ * @param elf the code object
+ * @param address the address to look for
+ * @returns the section, or undefined if the address isn't in any of the code object's sections
+ */
+export function findLoadedSection(
+    elf: ElfFile,
+    address: number,
+): ElfSection | undefined {
+    return elf.sections.find(
+        (section) =>
+            section.flags & SHF_ALLOC &&
+            address >= section.address &&
+            address < section.address + section.size,
+    );
+}
+
+/**
+ * Checks whether an address is between the values of a pair of linker symbols.
+ */
+function isBetweenSymbols(elf: ElfFile, pairs: string[][], address: number) {
+    return pairs.some(([startName, endName]) => {
+        const start = elf.symbols.find((symbol) => symbol.name === startName);
+        const end = elf.symbols.find((symbol) => symbol.name === endName);
+        return (
+            start !== undefined &&
+            end !== undefined &&
+            address >= start.value &&
+            address < end.value
+        );
+    });
+}
+
+/**
+ * Finds the source file of a `static` symbol from the `STT_FILE` symbol before it, since linkers group
+ * the local symbols of each object file after the name of its source file.
+ */
+function findLocalSymbolFile(
+    elf: ElfFile,
+    symbol: ElfSymbol,
+): string | undefined {
+    let file: string | undefined;
+    for (const other of elf.symbols) {
+        if (other === symbol) {
+            return file;
+        }
+        if (other.type === STT_FILE) {
+            file = other.name;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Describes the symbol which contains an address.
+ */
+function describeSymbol(
+    elf: ElfFile,
+    dwarf: DwarfInfo | undefined,
+    symbol: ElfSymbol,
+    address: number,
+    showRustSymbolHashes: boolean,
+): DataSymbol {
+    const section = elf.sections[symbol.sectionIndex];
+    const isLocal = symbol.binding === STB_LOCAL;
+
+    let kind: DataSymbol["kind"] = isLocal ? "static" : "global";
+    if (symbol.name.startsWith("_ZTV")) {
+        kind = "vtable";
+    } else if (section && !(section.flags & SHF_WRITE)) {
+        kind = "constant";
+    }
+
+    // Debugging information names static locals after their function, like `main::calls` instead of
+    // `calls.0`.
+    const variable = dwarf?.findVariable(symbol.value);
+    let name =
+        variable?.name ??
+        demangleElfSymbolName(symbol.name, showRustSymbolHashes);
+    if (kind === "vtable") {
+        // The kind already says that it's a vtable, so only the class is named.
+        name = name.replace(/^vtable for /, "");
+    }
+    return {
+        name,
+        offset: address - symbol.value,
+        size: symbol.size,
+        kind,
+        file:
+            variable?.compileUnit ??
+            (isLocal ? findLocalSymbolFile(elf, symbol) : undefined),
+    };
+}
+
+/**
+ * Describes what a data address points to, such as a global variable, a vtable or the heap, using a
+ * code object's symbol table and memory layout.
+ * @param elf the code object
+ * @param dwarf the code object's debugging information, which is used to find the source files of
+ * global variables
+ * @param address the address to describe
+ * @param showRustSymbolHashes whether to keep the hashes at the end of Rust symbol names
+ * @returns the description
+ */
+export function describeDataAddress(
+    elf: ElfFile,
+    dwarf: DwarfInfo | undefined,
+    address: number,
+    showRustSymbolHashes = false,
+): DataAddressDescription {
+    const section = findLoadedSection(elf, address);
+    const symbol = elf.findSymbol(address, STT_OBJECT);
+    const description: DataAddressDescription = {
+        address,
+        region: "unmapped",
+        section: section?.name,
+        symbol:
+            symbol &&
+            describeSymbol(elf, dwarf, symbol, address, showRustSymbolHashes),
+    };
+
+    if (
+        section?.name.startsWith(".heap") ||
+        isBetweenSymbols(elf, HEAP_SYMBOLS, address)
+    ) {
+        description.region = "heap";
+    } else if (
+        section?.name.startsWith(".stack") ||
+        isBetweenSymbols(elf, STACK_SYMBOLS, address)
+    ) {
+        description.region = "stack";
+    } else if (section) {
+        if (section.flags & SHF_EXECINSTR) {
+            description.region = "code";
+        } else if (section.flags & SHF_WRITE || section.type === SHT_NOBITS) {
+            description.region = "data";
+        } else {
+            description.region = "readOnlyData";
+        }
+    } else if (address < USER_MEMORY_START) {
+        description.region = "system";
+    } else if (address < USER_MEMORY_END) {
+        description.region = "userMemory";
+    }
+    return description;
+}
+
+/**
+ * Formats a description of a data address, like "`motorGroup` + 0x8 (global in robot.cpp)".
+ * @param description the description to format
+ * @returns the formatted description
+ */
+export function formatDataAddress(description: DataAddressDescription): string {
+    const { symbol, section } = description;
+    if (symbol) {
+        const offset =
+            symbol.offset === 0 ? "" : ` + 0x${symbol.offset.toString(16)}`;
+        const file = symbol.file ? ` in ${path.basename(symbol.file)}` : "";
+        return `\`${symbol.name}\`${offset} (${symbol.kind}${file})`;
+    }
+
+    switch (description.region) {
+        case "data":
+            return `an unnamed variable in \`${section}\``;
+        case "readOnlyData":
+            return `read-only data in \`${section}\`, such as a string literal`;
+        case "code":
+            return `code in \`${section}\``;
+        case "heap":
+            return "heap memory, which holds allocated objects and PROS task stacks";
+        case "stack":
+            return "main stack memory";
+        case "userMemory":
+            return "user memory which the program doesn't use";
+        case "system":
+            return "memory which belongs to VEXos";
+        case "unmapped":
+            return "outside of the brain's memory";
+    }
+}
@@ -0,0 +1,187 @@
+import * as vscode from "vscode";
+import * as path from "node:path";
+import { ChildProcessWithoutNullStreams, spawn } from "node:child_process";
+import { inspect } from "node:util";
+import { CrashDetector, WatchedOutput } from "./crashDetection.js";
+import { Symbolizer } from "./symbolization.js";
+import { Project } from "./projects.js";
+import { output } from "./logs.js";
+
+/**
+ * A task which runs a command that shows the output of the robot's program, such as `pros terminal`.
+ */
+export interface DeviceOutputTaskDefinition extends vscode.TaskDefinition {
+    type: typeof DeviceOutputTaskProvider.type;
+    /**
+     * The command to run.
+     */
+    command: string;
+    /**
+     * The directory to run the command in. When omitted, it's the workspace folder.
+     */
+    cwd?: string;
+}
+
+/**
+ * The command which shows the output of each kind of project's program.
+ */
+const DEVICE_OUTPUT_COMMANDS: Partial<Record<Project["kind"], string>> = {
+    PROS: "pros terminal",
+    vexide: "cargo v5 terminal",
+};
+
+/**
+ * Provides tasks which run device output commands in a terminal that the extension controls, so that
+ * their output can be checked for crashes. The output of ordinary tasks can't be read by extensions.
+ */
+export class DeviceOutputTaskProvider implements vscode.TaskProvider {
+    static readonly type = "vex-v5-terminal";
+
+    constructor(
+        public symbolizer: Symbolizer,
+        public crashDetector: CrashDetector,
+    ) {}
+
+    async provideTasks(): Promise<vscode.Task[]> {
+        const projects = await this.symbolizer.projects.findProjects();
+        return projects.flatMap((project) => {
+            const command = DEVICE_OUTPUT_COMMANDS[project.kind];
+            if (!command) {
+                return [];
+            }
+
+            const relative = path.posix.relative(
+                project.workspaceFolder.uri.path,
+                project.uri.path,
+            );
+            const definition: DeviceOutputTaskDefinition = {
+                type: DeviceOutputTaskProvider.type,
+                command,
+                ...(relative && { cwd: `\${workspaceFolder}/${relative}` }),
+            };
+            return [
+                this.#createTask(
+                    definition,
+                    project.workspaceFolder,
+                    relative ? `${command} (${project.name})` : command,
+                ),
+            ];
+        });
+    }
+
+    resolveTask(task: vscode.Task): vscode.Task | undefined {
+        const definition = task.definition as DeviceOutputTaskDefinition;
+        if (typeof definition.command !== "string") {
+            return undefined;
+        }
+        return this.#createTask(definition, task.scope, task.name);
+    }
+
+    #createTask(
+        definition: DeviceOutputTaskDefinition,
+        scope: vscode.Task["scope"],
+        name: string,
+    ): vscode.Task {
+        const task = new vscode.Task(
+            definition,
+            scope ?? vscode.TaskScope.Workspace,
+            name,
+            "VEX V5",
+            new vscode.CustomExecution(async (resolved) => {
+                const { command, cwd } = resolved as DeviceOutputTaskDefinition;
+                const folder =
+                    typeof scope === "object"
+                        ? scope
+                        : vscode.workspace.workspaceFolders?.[0];
+                const directory = cwd
+                    ? path.resolve(folder?.uri.fsPath ?? "", cwd)
+                    : folder?.uri.fsPath;
+                return new DeviceOutputTerminal(
+                    command,
+                    directory,
+                    this.crashDetector.watchOutput(name, () =>
+                        directory
+                            ? this.symbolizer.projects.getProject(
+                                  vscode.Uri.file(directory),
+                              )
+                            : this.symbolizer.getActiveProject(
+                                  undefined,
+                                  false,
+                              ),
+                    ),
+                );
+            }),
+        );
+        task.isBackground = true;
+        task.presentationOptions = { reveal: vscode.TaskRevealKind.Always };
+        return task;
+    }
+}
+
+/**
+ * Runs a device output command for a task, showing its output in the task's terminal and passing it to
+ * the crash detector.
+ */
+class DeviceOutputTerminal implements vscode.Pseudoterminal {
+    readonly #onDidWrite = new vscode.EventEmitter<string>();
+    readonly onDidWrite = this.#onDidWrite.event;
+    readonly #onDidClose = new vscode.EventEmitter<number>();
+    readonly onDidClose = this.#onDidClose.event;
+    #child: ChildProcessWithoutNullStreams | undefined;
+
+    constructor(
+        public command: string,
+        public cwd: string | undefined,
+        public watched: WatchedOutput,
+    ) {}
+
+    open() {
+        output.appendLine(`Watching the "${this.command}" task for crashes.`);
+        this.#write(`> ${this.command}\n\n`);
+
+        const child = spawn(this.command, { cwd: this.cwd, shell: true });
+        this.#child = child;
+        const onData = (data: string) => {
+            this.#write(data);
+            this.watched.write(data);
+        };
+        child.stdout.setEncoding("utf8").on("data", onData);
+        child.stderr.setEncoding("utf8").on("data", onData);
+        child.on("error", (err) => {
+            output.appendLine(
+                `Couldn't run "${this.command}": ${inspect(err)}`,
+            );
+            this.#write(`Couldn't run "${this.command}": ${err.message}\n`);
+        });
+        child.on("close", (code) => {
+            this.watched.end();
+            this.#child = undefined;
+            this.#write(`\n"${this.command}" exited with code ${code}.\n`);
+            this.#onDidClose.fire(code ?? 1);
+        });
+    }
+
+    handleInput(data: string) {
+        // The terminal sends keystrokes, so Ctrl+C has to stop the command itself.
+        if (data === "\x03") {
+            this.#child?.kill();
+            return;
+        }
+        const text = data.replace(/\r/g, "\n");
+        this.#write(text);
+        this.#child?.stdin.write(text);
+    }
+
+    close() {
+        this.#child?.kill();
+        this.#onDidWrite.dispose();
+        this.#onDidClose.dispose();
+    }
+
+    /**
+     * Shows text in the terminal, which needs carriage returns before line breaks.
+     */
+    #write(text: string) {
+        this.#onDidWrite.fire(text.replace(/\r?\n/g, "\r\n"));
+    }
+}
@@ -0,0 +1,411 @@
+import * as vscode from "vscode";
+import * as path from "node:path";
+import { inspect, promisify } from "node:util";
+import { execFile as execFileCb } from "node:child_process";
+import { Symbolizer } from "./symbolization.js";
+import { ElfFile, STT_FUNC } from "./core/elf.js";
+import { imageContains } from "./programImages.js";
+import { demangleElfSymbolName } from "./core/demangling.js";
+import { Project } from "./projects.js";
+import { output } from "./logs.js";
+
+const execFile = promisify(execFileCb);
+
+/**
+ * How many bytes are disassembled on each side of an address which isn't inside of a known function,
+ * or which is inside of a very large one.
+ */
+const DISASSEMBLY_WINDOW = 0x200;
+
+/**
+ * Disassembles code objects with `objdump`, either from LLVM or GNU Binutils.
+ */
+export class ObjdumpDisassembler {
+    constructor(
+        public readonly name: string,
+        /**
+         * The name or path of the executable to run.
+         */
+        public readonly executable: string,
+    ) {}
+
+    async isWorking(): Promise<boolean> {
+        output.appendLine(
+            `Checking objdump named ${this.name} (${this.executable})`,
+        );
+        try {
+            await execFile(this.executable, ["--version"]);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Disassembles part of a code object, with the source file and line number of each group of
+     * instructions.
+     * @param codeObject the code object to disassemble
+     * @param start the first address to disassemble
+     * @param end the address after the last one to disassemble
+     * @returns objdump's output
+     */
+    async disassemble(
+        codeObject: vscode.Uri,
+        start: number,
+        end: number,
+    ): Promise<string> {
+        const { stdout } = await execFile(
+            this.executable,
+            [
+                "--disassemble",
+                "--line-numbers",
+                "--demangle",
+                `--start-address=0x${start.toString(16)}`,
+                `--stop-address=0x${end.toString(16)}`,
+                codeObject.fsPath,
+            ],
+            { maxBuffer: 16 * 1024 * 1024 },
+        );
+        return stdout;
+    }
+}
+
+interface DisassemblyDocument {
+    text: string;
+    /**
+     * The zero-based line of the instruction at the address which was disassembled.
+     */
+    highlightedLine?: number;
+}
+
+/**
+ * Shows the disassembly of the function around an address as a read-only document, with its source
+ * lines in between the instructions.
+ */
+export class DisassemblyProvider
+    implements vscode.TextDocumentContentProvider, vscode.Disposable
+{
+    static readonly scheme = "vex-disassembly";
+
+    #documents = new Map<string, DisassemblyDocument>();
+    #nextDocumentId = 1;
+    #firstWorkingDisassembler: ObjdumpDisassembler | undefined;
+    #decoration = vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor(
+            "editor.stackFrameHighlightBackground",
+        ),
+        overviewRulerColor: new vscode.ThemeColor(
+            "editorOverviewRuler.errorForeground",
+        ),
+        overviewRulerLane: vscode.OverviewRulerLane.Full,
+    });
+    #editorListener: vscode.Disposable;
+
+    constructor(
+        public symbolizer: Symbolizer,
+        /**
+         * The disassemblers to try, in order of preference.
+         */
+        public disassemblers: ObjdumpDisassembler[],
+    ) {
+        // Decorations are lost whenever an editor is closed, so they're added again when it's reopened.
+        this.#editorListener = vscode.window.onDidChangeVisibleTextEditors(
+            (editors) => editors.forEach((editor) => this.#highlight(editor)),
+        );
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.#documents.get(uri.toString())?.text ?? "";
+    }
+
+    /**
+     * Replaces the disassemblers, such as after the user's settings change.
+     * @param disassemblers the new disassemblers
+     */
+    configure(disassemblers: ObjdumpDisassembler[]) {
+        this.disassemblers = disassemblers;
+        this.#firstWorkingDisassembler = undefined;
+    }
+
+    /**
+     * Disassembles the function which contains an address and opens it, highlighting the address.
+     * @param address the address to disassemble
+     * @param project the project to find code objects in
+     */
+    async showDisassembly(address: string, project: Project) {
+        const addressNumber = Number.parseInt(address);
+        const codeObject = await this.#findCodeObject(addressNumber, project);
+        const disassembler = await this.#requireWorkingDisassembler();
+
+        const elf = ElfFile.parse(
+            await vscode.workspace.fs.readFile(codeObject),
+        );
+        const symbol = elf.findSymbol(addressNumber, STT_FUNC);
+        // Thumb functions have the lowest bit of their address set.
+        const functionStart = symbol ? symbol.value & ~1 : 0;
+        const functionEnd = symbol ? functionStart + symbol.size : Infinity;
+        const start = Math.max(
+            functionStart,
+            addressNumber - DISASSEMBLY_WINDOW,
+        );
+        const end = Math.max(
+            Math.min(functionEnd, addressNumber + DISASSEMBLY_WINDOW),
+            addressNumber + 4,
+        );
+
+        output.appendLine(
+            `Disassembling ${codeObject.fsPath} from 0x${start.toString(16)} to 0x${end.toString(16)} with ${disassembler.name}`,
+        );
+        const disassembly = await disassembler.disassemble(
+            codeObject,
+            start,
+            end,
+        );
+
+        const symbolName = symbol
+            ? demangleElfSymbolName(
+                  symbol.name,
+                  this.symbolizer.showRustSymbolHashes,
+              )
+            : "unknown function";
+        const document = await this.#format(
+            disassembly,
+            addressNumber,
+            project,
+            [
+                `; ${symbolName} in ${path.basename(codeObject.path)}, disassembled by ${disassembler.name}`,
+                `; Address: ${address}`,
+                ";",
+            ],
+        );
+
+        const uri = vscode.Uri.from({
+            scheme: DisassemblyProvider.scheme,
+            path: `/${address} Disassembly ${this.#nextDocumentId++}.s`,
+        });
+        this.#documents.set(uri.toString(), document);
+
+        const textDocument = await vscode.workspace.openTextDocument(uri);
+        const position = new vscode.Position(document.highlightedLine ?? 0, 0);
+        const editor = await vscode.window.showTextDocument(textDocument, {
+            preview: false,
+            selection: new vscode.Range(position, position),
+        });
+        this.#highlight(editor);
+    }
+
+    /**
+     * Disassembles the single instruction at an address.
+     * @param address the address of the instruction
+     * @param project the project to find code objects in
+     * @returns the instruction, like `ldr r0, [r3, #8]`, or undefined if there isn't one at the address
+     */
+    async disassembleInstruction(
+        address: string,
+        project: Project,
+    ): Promise<string | undefined> {
+        const addressNumber = Number.parseInt(address);
+        const codeObject = await this.#findCodeObject(addressNumber, project);
+        const disassembler = await this.#requireWorkingDisassembler();
+        const disassembly = await disassembler.disassemble(
+            codeObject,
+            addressNumber,
+            addressNumber + 4,
+        );
+
+        for (const line of disassembly.split(/\r?\n/)) {
+            // The bytes of the instruction are separated from its text by a tab, in both LLVM and GNU Binutils.
+            const instruction = /^\s*([0-9a-f]+):[^\t]*\t(.*)$/.exec(line);
+            if (
+                instruction &&
+                Number.parseInt(instruction[1], 16) === addressNumber
+            ) {
+                // Remove comments like `@ 0x3800100 <main+0x10>`.
+                return instruction[2]
+                    .replace(/\s*[@;].*$/, "")
+                    .replace(/\s+/g, " ")
+                    .trim();
+            }
+        }
+        return undefined;
+    }
+
+    dispose() {
+        this.#editorListener.dispose();
+        this.#decoration.dispose();
+        this.#documents.clear();
+    }
+
+    /**
+     * Gets and caches the first disassembler which is working properly.
+     */
+    async #getWorkingDisassembler(): Promise<ObjdumpDisassembler | undefined> {
+        if (!this.#firstWorkingDisassembler) {
+            for (const disassembler of this.disassemblers) {
+                try {
+                    if (await disassembler.isWorking()) {
+                        this.#firstWorkingDisassembler = disassembler;
+                        break;
+                    }
+                } catch {}
+            }
+        }
+
+        return this.#firstWorkingDisassembler;
+    }
+
+    /**
+     * Gets the first working disassembler, or throws an error which lists the ones to install.
+     */
+    async #requireWorkingDisassembler(): Promise<ObjdumpDisassembler> {
+        const disassembler = await this.#getWorkingDisassembler();
+        if (!disassembler) {
+            const disassemblers = this.disassemblers
+                .map((disassembler) => disassembler.name)
+                .join(", ");
+            throw new Error(
+                `Cannot find any working disassemblers; install one of: ${disassemblers}`,
+            );
+        }
+        return disassembler;
+    }
+
+    /**
+     * Finds the code object whose code contains an address, or the preferred one if none do.
+     */
+    async #findCodeObject(
+        address: number,
+        project: Project,
+    ): Promise<vscode.Uri> {
+        const codeObjects = await this.symbolizer.locateCodeObjects(project);
+        const images = await this.symbolizer.getProgramImages(codeObjects);
+        const codeObject =
+            images?.find((image) => imageContains(image, address))
+                ?.codeObject ?? codeObjects[0];
+        if (!codeObject) {
+            throw new Error("No code objects were found in this project");
+        }
+        return codeObject;
+    }
+
+    #highlight(editor: vscode.TextEditor) {
+        const document = this.#documents.get(editor.document.uri.toString());
+        if (document?.highlightedLine === undefined) {
+            return;
+        }
+        editor.setDecorations(this.#decoration, [
+            new vscode.Range(
+                document.highlightedLine,
+                0,
+                document.highlightedLine,
+                0,
+            ),
+        ]);
+    }
+
+    /**
+     * Turns objdump's output into a document, replacing its line number markers with the source lines
+     * they refer to and marking the highlighted address.
+     */
+    async #format(
+        disassembly: string,
+        address: number,
+        project: Project,
+        header: string[],
+    ): Promise<DisassemblyDocument> {
+        const lines = [...header];
+        let highlightedLine: number | undefined;
+        const sources = new Map<string, Promise<string[] | undefined>>();
+
+        for (const line of disassembly.split(/\r?\n/)) {
+            // LLVM puts a `; ` before line numbers and function names, while GNU Binutils doesn't.
+            const location =
+                /^(?:; )?(\S.*):(\d+)(?: \(discriminator \d+\))?$/.exec(line);
+            if (location) {
+                const [, file, lineNumber] = location;
+                lines.push(
+                    ...(await this.#formatSourceLine(
+                        file,
+                        Number.parseInt(lineNumber),
+                        project,
+                        sources,
+                    )),
+                );
+                continue;
+            }
+
+            const instruction = /^\s+([0-9a-f]+):\s/.exec(line);
+            if (instruction) {
+                const isHighlighted =
+                    Number.parseInt(instruction[1], 16) === address;
+                if (isHighlighted) {
+                    highlightedLine = lines.length;
+                }
+                lines.push(`${isHighlighted ? "=>" : "  "}${line}`);
+                continue;
+            }
+
+            // Keep the labels at the start of each function, like `03800100 <main>:`.
+            if (/^[0-9a-f]+ <.*>:$/.test(line)) {
+                lines.push("", line);
+            }
+        }
+
+        if (highlightedLine === undefined) {
+            lines.push(
+                "",
+                `; 0x${address.toString(16)} isn't the start of an instruction.`,
+            );
+        }
+        return { text: lines.join("\n"), highlightedLine };
+    }
+
+    /**
+     * Formats a line number marker from objdump, along with the text of the line if the source file can
+     * be found.
+     */
+    async #formatSourceLine(
+        file: string,
+        lineNumber: number,
+        project: Project,
+        sources: Map<string, Promise<string[] | undefined>>,
+    ): Promise<string[]> {
+        const location = await this.symbolizer.sourcePaths.mapLocation(
+            {
+                uri: vscode.Uri.file(file),
+                position: new vscode.Position(lineNumber - 1, 0),
+            },
+            project,
+        );
+
+        const relative = path.relative(project.uri.path, location.uri.path);
+        const displayPath = relative.startsWith("..")
+            ? location.uri.path
+            : relative;
+        const formatted = ["", `; ${displayPath}:${lineNumber}`];
+
+        const key = location.uri.toString();
+        let source = sources.get(key);
+        if (!source) {
+            source = Promise.resolve(
+                vscode.workspace.fs.readFile(location.uri),
+            ).then(
+                (bytes) => new TextDecoder().decode(bytes).split(/\r?\n/),
+                (err) => {
+                    output.appendLine(
+                        `Couldn't read ${location.uri.fsPath} for disassembly: ${inspect(err)}`,
+                    );
+                    return undefined;
+                },
+            );
+            sources.set(key, source);
+        }
+
+        const text = (await source)?.[lineNumber - 1];
+        if (text !== undefined) {
+            formatted.push(`; ${String(lineNumber).padStart(5)} | ${text}`);
+        }
+        return formatted;
+    }
+}
@@ -1,30 +1,65 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from "vscode";
-import { CodeObjectReader, Symbolizer } from "./symbolization.js";
+import { Symbolizer } from "./symbolization.js";
 import { output } from "./logs.js";
+import { CodeObjectWatcher } from "./caching.js";
+import { createApi, SymbolizerApi } from "./api.js";
+import { FilesystemConvention } from "./locators.js";
 import {
-    SimpleFilesystemConvention,
-    VexideFilesystemConvention,
-    RecentCodeObjectLocator,
-    VEXCodeFilesystemConvention,
-} from "./locators.js";
+    CONFIGURATION_SECTION,
+    createLocators,
+    createDisassemblers,
+    createReaders,
+    createSourcePathMapper,
+    readSettings,
+} from "./configuration.js";
+import { inspect } from "node:util";
 import {
-    GNUBinutilsCodeObjectReader,
-    LLVMCodeObjectReader,
-    PROSToolchainCodeObjectReader,
-} from "./readers.js";
-import { platform } from "node:process";
+    CrashLog,
+    findAddressesInLine,
+    LineAddress,
+    normalizeAddress,
+    parseAddressList,
+    parseCrashLog,
+    parseCrashLogs,
+} from "./core/crashLogs.js";
+import { CrashReportProvider, symbolizeCrashLog } from "./crashReports.js";
+import { CrashStackNode, CrashStackProvider } from "./crashStack.js";
+import { CrashMonitor } from "./crashMonitor.js";
+import { CrashDetector } from "./crashDetection.js";
+import { DeviceOutputTaskProvider } from "./deviceOutputTasks.js";
+import {
+    CRASH_LOG_DOCUMENT_SELECTOR,
+    CrashLogDocumentProvider,
+} from "./crashLogDocuments.js";
+import { DisassemblyProvider } from "./disassembly.js";
+import { FaultExplainer } from "./faults.js";
+import { LineAddressFinder } from "./lineAddresses.js";
+import { ProgramImage } from "./programImages.js";
+import { ProgramSizeNode, ProgramSizeProvider } from "./programSize.js";
+import { Project, ProjectDiscovery } from "./projects.js";
+import {
+    POST_MORTEM_DEBUG_TYPE,
+    PostMortemDebugAdapterFactory,
+    PostMortemDebugConfiguration,
+} from "./postMortem.js";
 
-const ADDRESS_PATTERN = /(?<=^\s*\d*:?\s*)0x[0-9a-fA-F]+$/g;
+const ADDRESS_PATTERN = /^0x[0-9a-f]+$/i;
 
 /**
  * A terminal link with an extra `address` field.
  */
 class AddressLink extends vscode.TerminalLink {
-    constructor(match: RegExpExecArray) {
-        super(match.index, match[0].length);
-        this.address = match[0];
+    constructor(
+        found: LineAddress,
+        /**
+         * The terminal which printed the address.
+         */
+        public terminal: vscode.Terminal,
+    ) {
+        super(found.index, found.address.length, found.label);
+        this.address = found.address;
     }
 
     /**
@@ -33,32 +68,66 @@ class AddressLink extends vscode.TerminalLink {
     address: string;
 }
 
+/**
+ * How many lines of each terminal's output are kept around to find the rest of a crash when one of its
+ * addresses is clicked.
+ */
+const MAX_REMEMBERED_LINES = 200;
+
+/**
+ * The output of a terminal which has been read through shell integration.
+ */
+interface TerminalOutput {
+    lines: string[];
+    partialLine: string;
+}
+
 /**
  * Finds clickable addresses and handles jumping to their source code.
  */
-class AddressLinkProvider implements vscode.TerminalLinkProvider {
-    /**
-     * Checks whether an address is in user-space and therefore usable.
-     * @param match the RegExp match containing the address
-     * @returns `true` if the address is in user-space, `false` otherwise
-     */
-    static #isAddressInUserSpace(match: RegExpExecArray) {
-        const number = Number.parseInt(match[0]);
-        return number >= 0x3800000;
-    }
+class AddressLinkProvider
+    implements vscode.TerminalLinkProvider, vscode.Disposable
+{
+    #outputs = new Map<vscode.Terminal, TerminalOutput>();
+    #disposables: vscode.Disposable[];
 
-    constructor(public symbolizer: Symbolizer) {}
+    constructor(
+        public symbolizer: Symbolizer,
+        public crashStack: CrashStackProvider,
+    ) {
+        this.#disposables = [
+            vscode.window.onDidStartTerminalShellExecution((event) =>
+                this.#recordOutput(event.terminal, event.execution),
+            ),
+            vscode.window.onDidCloseTerminal((terminal) =>
+                this.#outputs.delete(terminal),
+            ),
+        ];
+    }
 
-    provideTerminalLinks(
+    async provideTerminalLinks(
         context: vscode.TerminalLinkContext,
         token: vscode.CancellationToken,
-    ): vscode.ProviderResult<AddressLink[]> {
+    ): Promise<AddressLink[]> {
         // find 0x... addresses in the terminal so we can jump to them
-        const matches = context.line.matchAll(ADDRESS_PATTERN);
+        const candidates = findAddressesInLine(context.line);
+        if (candidates.length === 0) {
+            return [];
+        }
 
-        const links = Array.from(matches)
-            .filter(AddressLinkProvider.#isAddressInUserSpace)
-            .map((match) => new AddressLink(match));
+        // Without any readable code objects, clicking the link is the best way to find out what's wrong.
+        const images =
+            this.symbolizer.addressValidity === "programImages"
+                ? await this.#getProgramImages(context.terminal)
+                : undefined;
+        const links = candidates
+            .filter((found) =>
+                this.symbolizer.isAddressValid(
+                    Number.parseInt(found.address),
+                    images,
+                ),
+            )
+            .map((found) => new AddressLink(found, context.terminal));
 
         for (const link of links) {
             output.appendLine(
@@ -70,97 +139,632 @@ class AddressLinkProvider implements vscode.TerminalLinkProvider {
     }
 
     async handleTerminalLink(link: AddressLink): Promise<void> {
-        await this.symbolizer.jumpToAddress(link.address);
+        const project = await this.symbolizer.getActiveProject(link.terminal);
+        if (!project && vscode.workspace.workspaceFolders?.length) {
+            // The user dismissed the project picker.
+            return;
+        }
+
+        await Promise.all([
+            this.symbolizer.jumpToAddress(link.address, project),
+            project && this.#collectCrash(link, project),
+        ]);
+    }
+
+    /**
+     * Gets the program images of a terminal's project.
+     * @param terminal the terminal whose output is being searched for links
+     */
+    async #getProgramImages(
+        terminal: vscode.Terminal,
+    ): Promise<ProgramImage[] | undefined> {
+        // Links are found while the user is just reading output, so don't ask them for a project yet.
+        const project = await this.symbolizer.getActiveProject(terminal, false);
+        if (!project) {
+            return undefined;
+        }
+
+        try {
+            return await this.symbolizer.getProgramImages(
+                await this.symbolizer.locateCodeObjects(project),
+            );
+        } catch {
+            return undefined;
+        }
+    }
+
+    dispose() {
+        for (const disposable of this.#disposables) {
+            disposable.dispose();
+        }
+        this.#outputs.clear();
+    }
+
+    /**
+     * Keeps the most recent lines which a command prints, so that the rest of a crash can be found when
+     * one of its addresses is clicked. The link provider only sees the lines that are being hovered, so
+     * it can't be used to follow the output.
+     */
+    async #recordOutput(
+        terminal: vscode.Terminal,
+        execution: vscode.TerminalShellExecution,
+    ) {
+        let recorded = this.#outputs.get(terminal);
+        if (!recorded) {
+            recorded = { lines: [], partialLine: "" };
+            this.#outputs.set(terminal, recorded);
+        }
+
+        try {
+            for await (const data of execution.read()) {
+                const lines = (recorded.partialLine + data).split("\n");
+                recorded.partialLine = lines.pop() ?? "";
+                recorded.lines.push(...lines);
+                recorded.lines.splice(
+                    0,
+                    recorded.lines.length - MAX_REMEMBERED_LINES,
+                );
+            }
+        } catch (err) {
+            output.appendLine(
+                `Couldn't read the output of "${execution.commandLine.value}": ${inspect(err)}`,
+            );
+        }
+    }
+
+    /**
+     * Shows every frame of the crash which a clicked address belongs to in the Crash Stack view. Only the
+     * clicked address is shown if its crash can't be found, such as when the terminal's output can't be
+     * read because it doesn't have shell integration.
+     * @param link the address which was clicked
+     * @param project the project which printed the crash
+     */
+    async #collectCrash(link: AddressLink, project: Project) {
+        const address = normalizeAddress(link.address);
+        const recorded = this.#outputs.get(link.terminal);
+
+        // The same crash may have been printed more than once, so prefer the most recent copy.
+        const found = recorded
+            ? parseCrashLogs(
+                  [...recorded.lines, recorded.partialLine].join("\n"),
+              )
+                  .reverse()
+                  .find((log) =>
+                      log.frames.some((frame) => frame.address === address),
+                  )
+            : undefined;
+        const log: CrashLog = found ?? {
+            kind: "Unknown",
+            title: address,
+            details: [],
+            registers: new Map(),
+            frames: [{ address, label: link.tooltip ?? "Address", line: 0 }],
+            startLine: 0,
+            endLine: 0,
+        };
+
+        try {
+            const frames = await symbolizeCrashLog(
+                this.symbolizer,
+                log,
+                project,
+            );
+            this.crashStack.showCrash(log, frames, project);
+        } catch (err) {
+            output.appendLine(
+                `Couldn't collect the crash around ${address}: ${inspect(err)}`,
+            );
+        }
     }
 }
 
-export function activate(context: vscode.ExtensionContext) {
+/**
+ * Gets the text of a crash log from wherever the user most likely put it: the selection in the active
+ * editor, the clipboard, or an input box as a last resort.
+ * @param title the title of the input box
+ * @returns the text, or undefined if the user dismissed the input box
+ */
+async function getCrashLogText(title: string): Promise<string | undefined> {
+    const editor = vscode.window.activeTextEditor;
+    if (editor && !editor.selection.isEmpty) {
+        return editor.document.getText(editor.selection);
+    }
+
+    const clipboard = await vscode.env.clipboard.readText();
+    if (parseCrashLog(clipboard)) {
+        output.appendLine("Using the crash log on the clipboard.");
+        return clipboard;
+    }
+
+    return await vscode.window.showInputBox({
+        title,
+        prompt: "Paste a PROS data abort, vexide panic, or VEXcode error, or a list of addresses.",
+    });
+}
+
+/**
+ * Starts the crash monitor on the device in the settings, or one the user enters.
+ * @param crashMonitor the crash monitor to start
+ * @param symbolizer the symbolizer, used to find the project running on the robot
+ * @param canAsk whether the user can be asked for a device and a project
+ */
+async function startCrashMonitor(
+    crashMonitor: CrashMonitor,
+    symbolizer: Symbolizer,
+    canAsk: boolean,
+) {
+    let device: string | undefined = readSettings().crashMonitorDevice;
+    if (!device && canAsk) {
+        device = await vscode.window.showInputBox({
+            title: "Start Crash Monitor",
+            prompt: "Enter the serial device or pseudo-terminal your robot's output comes from.",
+            placeHolder: process.platform === "win32" ? "COM4" : "/dev/ttyACM1",
+        });
+    }
+    if (!device) {
+        return;
+    }
+
+    const project = await symbolizer.getActiveProject(undefined, canAsk);
+    if (!project) {
+        if (canAsk && !vscode.workspace.workspaceFolders?.length) {
+            vscode.window.showErrorMessage(
+                "Couldn't start the crash monitor: There is no active workspace",
+            );
+        }
+        return;
+    }
+
+    try {
+        await crashMonitor.start(device, project);
+    } catch (err) {
+        output.appendLine(`Couldn't start the crash monitor: ${inspect(err)}`);
+        const msg = err instanceof Error ? err.message : String(err);
+        vscode.window.showErrorMessage(
+            `Couldn't start the crash monitor: ${msg}`,
+        );
+    }
+}
+
+/**
+ * Gets an address from a command's argument, or asks the user for one.
+ * @param addressParam the argument the command was run with
+ * @param title the title of the input box
+ * @param prompt the prompt of the input box
+ * @returns the address with a `0x` prefix, or undefined if the user dismissed the input box or entered
+ * something which isn't an address
+ */
+async function getAddress(
+    addressParam: unknown,
+    title: string,
+    prompt: string,
+): Promise<string | undefined> {
+    let address: string | undefined;
+
+    if (typeof addressParam === "string") {
+        address = addressParam;
+    } else {
+        address = await vscode.window.showInputBox({
+            title,
+            prompt,
+            // This is just some random number that kind of looks like it'd work.
+            placeHolder: "03801a24",
+        });
+    }
+
+    if (!address) {
+        return;
+    }
+
+    if (!address.startsWith("0x")) {
+        address = `0x${address}`;
+    }
+
+    if (!ADDRESS_PATTERN.test(address)) {
+        vscode.window.showErrorMessage(
+            "The specified address must be a hexadecimal number.",
+        );
+        return;
+    }
+
+    return address;
+}
+
+export function activate(context: vscode.ExtensionContext): SymbolizerApi {
     output.appendLine("Extension has been activated!");
 
-    const readers: CodeObjectReader[] = [new LLVMCodeObjectReader()];
-
-    if (platform === "darwin") {
-        // We like LLVM more than GNU Binutils (because it gives us column numbers) so it's worth the extra
-        // effort here of checking for a Homebrew install.
-        // Linux package managers don't need their own CodeObjectReader instances because they usually put
-        // their tools in the $PATH of all processes, whereas Homebrew only puts it in the $PATH of shells.
-        // readers.push(
-        //     new LLVMCodeObjectReader(
-        //         "Homebrew LLVM",
-        //         "/opt/homebrew/opt/llvm/bin/llvm-symbolizer",
-        //     ),
-        // );
-    }
-
-    readers.push(
-        // "And this is where I'd put my VEXCode arm-none-eabi-addr2line...if I had one!"
-        // VEXCode doesn't ship with a symbolizer.
-        // The Rustup `llvm-tools` component also doesn't ship with a symbolizer.
-        new PROSToolchainCodeObjectReader(
-            vscode.Uri.joinPath(context.globalStorageUri, ".."),
-        ),
-        new GNUBinutilsCodeObjectReader(
-            "ARM Embedded Toolchain",
-            "arm-none-eabi-addr2line",
-        ),
-        new GNUBinutilsCodeObjectReader(),
+    const settings = readSettings();
+    let watcher = new CodeObjectWatcher(settings.extraCodeObjectGlobs);
+    const conventions: FilesystemConvention[] = [];
+    const projects = new ProjectDiscovery();
+    const symbolizer = new Symbolizer(
+        projects,
+        createLocators(settings, watcher, conventions),
+        createReaders(settings, context, watcher),
+        settings.addressValidity,
+        createSourcePathMapper(settings),
+        settings.showRustSymbolHashes,
     );
 
-    const symbolizer = new Symbolizer(
-        [
-            new RecentCodeObjectLocator([
-                new SimpleFilesystemConvention("PROS", [
-                    "./bin/monolith.elf",
-                    "./bin/hot.package.elf",
-                    "./bin/cold.package.elf",
-                ]),
-                new VEXCodeFilesystemConvention(),
-                new VexideFilesystemConvention(),
-            ]),
-        ],
-        readers,
+    // Filesystem conventions from other extensions are part of the locators, so registering one rebuilds them.
+    const rebuildSymbolizer = () => {
+        const settings = readSettings();
+        watcher.dispose();
+        watcher = new CodeObjectWatcher(settings.extraCodeObjectGlobs);
+        symbolizer.configure(
+            createLocators(settings, watcher, conventions),
+            createReaders(settings, context, watcher),
+            settings.addressValidity,
+            createSourcePathMapper(settings),
+            settings.showRustSymbolHashes,
+        );
+    };
+
+    const crashReportProvider = new CrashReportProvider(symbolizer);
+    const disassemblyProvider = new DisassemblyProvider(
+        symbolizer,
+        createDisassemblers(settings, context),
+    );
+    symbolizer.faultExplainer = new FaultExplainer(disassemblyProvider);
+    const lineAddressFinder = new LineAddressFinder(symbolizer);
+    const crashStackProvider = new CrashStackProvider(symbolizer);
+    const crashMonitor = new CrashMonitor(symbolizer, crashStackProvider);
+    const programSizeProvider = new ProgramSizeProvider(
+        symbolizer,
+        context.workspaceState,
+    );
+    const crashLogDocumentProvider = new CrashLogDocumentProvider(
+        symbolizer,
+        crashStackProvider,
+    );
+    const crashDetector = new CrashDetector(
+        symbolizer,
+        crashStackProvider,
+        crashReportProvider,
+    );
+    const addressLinkProvider = new AddressLinkProvider(
+        symbolizer,
+        crashStackProvider,
     );
 
     context.subscriptions.push(
-        vscode.window.registerTerminalLinkProvider(
-            new AddressLinkProvider(symbolizer),
+        projects,
+        symbolizer,
+        vscode.workspace.onDidChangeConfiguration((event) => {
+            if (!event.affectsConfiguration(CONFIGURATION_SECTION)) {
+                return;
+            }
+
+            output.appendLine("Settings changed, rebuilding the symbolizer.");
+            rebuildSymbolizer();
+            disassemblyProvider.configure(
+                createDisassemblers(readSettings(), context),
+            );
+        }),
+        new vscode.Disposable(() => watcher.dispose()),
+        crashStackProvider,
+        programSizeProvider,
+        crashMonitor,
+        crashDetector,
+        vscode.tasks.registerTaskProvider(
+            DeviceOutputTaskProvider.type,
+            new DeviceOutputTaskProvider(symbolizer, crashDetector),
+        ),
+        addressLinkProvider,
+        vscode.window.registerTerminalLinkProvider(addressLinkProvider),
+        vscode.workspace.registerTextDocumentContentProvider(
+            CrashReportProvider.scheme,
+            crashReportProvider,
+        ),
+        vscode.languages.registerDocumentLinkProvider(
+            { scheme: CrashReportProvider.scheme },
+            crashReportProvider,
+        ),
+        crashLogDocumentProvider,
+        vscode.languages.registerDocumentLinkProvider(
+            CRASH_LOG_DOCUMENT_SELECTOR,
+            crashLogDocumentProvider,
+        ),
+        vscode.languages.registerHoverProvider(
+            CRASH_LOG_DOCUMENT_SELECTOR,
+            crashLogDocumentProvider,
+        ),
+        vscode.languages.registerCodeLensProvider(
+            CRASH_LOG_DOCUMENT_SELECTOR,
+            crashLogDocumentProvider,
+        ),
+        disassemblyProvider,
+        vscode.workspace.registerTextDocumentContentProvider(
+            DisassemblyProvider.scheme,
+            disassemblyProvider,
+        ),
+        vscode.debug.registerDebugAdapterDescriptorFactory(
+            POST_MORTEM_DEBUG_TYPE,
+            new PostMortemDebugAdapterFactory(symbolizer),
         ),
         vscode.commands.registerCommand(
-            "symbolizer-for-vex-v5.jump-to-address",
-            async (addressParam: unknown) => {
-                let address: string | undefined;
+            "symbolizer-for-vex-v5.symbolize-crash-log",
+            async (textParam: unknown) => {
+                const text =
+                    typeof textParam === "string"
+                        ? textParam
+                        : await getCrashLogText("Symbolize Crash Log");
+                if (!text) {
+                    return;
+                }
+
+                const log = parseCrashLog(text) ?? parseAddressList(text);
+                if (!log || log.frames.length === 0) {
+                    vscode.window.showErrorMessage(
+                        "Couldn't find any addresses to symbolize in that crash log.",
+                    );
+                    return;
+                }
+
+                const project = await symbolizer.getActiveProject();
+                if (!project) {
+                    if (!vscode.workspace.workspaceFolders?.length) {
+                        vscode.window.showErrorMessage(
+                            "Couldn't symbolize crash log: There is no active workspace",
+                        );
+                    }
+                    return;
+                }
+
+                try {
+                    const frames = await crashReportProvider.showReport(
+                        log,
+                        project,
+                    );
+                    crashStackProvider.showCrash(log, frames, project);
+                } catch (err) {
+                    output.appendLine(
+                        `Couldn't symbolize crash log: ${inspect(err)}`,
+                    );
+                    const msg =
+                        err instanceof Error ? err.message : String(err);
+                    vscode.window.showErrorMessage(
+                        `Couldn't symbolize crash log: ${msg}`,
+                    );
+                }
+            },
+        ),
+        vscode.commands.registerCommand(
+            "symbolizer-for-vex-v5.symbolize-crash-log-in-document",
+            async (uri: vscode.Uri, startLine: number) => {
+                try {
+                    await crashLogDocumentProvider.symbolizeInDocument(
+                        uri,
+                        startLine,
+                    );
+                } catch (err) {
+                    output.appendLine(
+                        `Couldn't symbolize crash log: ${inspect(err)}`,
+                    );
+                    const msg =
+                        err instanceof Error ? err.message : String(err);
+                    vscode.window.showErrorMessage(
+                        `Couldn't symbolize crash log: ${msg}`,
+                    );
+                }
+            },
+        ),
+        vscode.commands.registerCommand(
+            "symbolizer-for-vex-v5.debug-crash-log",
+            async (textParam: unknown) => {
+                const text =
+                    typeof textParam === "string"
+                        ? textParam
+                        : await getCrashLogText("Debug Crash Log");
+                if (!text) {
+                    return;
+                }
+
+                const log = parseCrashLog(text);
+                if (!log || log.frames.length === 0) {
+                    vscode.window.showErrorMessage(
+                        "Couldn't find a PROS data abort or vexide panic to debug in that crash log.",
+                    );
+                    return;
+                }
+
+                const project = await symbolizer.getActiveProject();
+                if (!project && vscode.workspace.workspaceFolders?.length) {
+                    return;
+                }
+
+                const configuration: PostMortemDebugConfiguration = {
+                    type: POST_MORTEM_DEBUG_TYPE,
+                    request: "launch",
+                    name: `${log.kind} crash: ${log.title}`,
+                    crashLog: text,
+                    projectDir: project?.uri.fsPath,
+                };
+                await vscode.debug.startDebugging(
+                    project?.workspaceFolder,
+                    configuration,
+                );
+            },
+        ),
+        vscode.commands.registerCommand(
+            "symbolizer-for-vex-v5.crash-stack.open-frame",
+            (node: CrashStackNode) => crashStackProvider.openFrame(node),
+        ),
+        vscode.commands.registerCommand(
+            "symbolizer-for-vex-v5.crash-stack.open-remote",
+            (node: CrashStackNode) => crashStackProvider.openRemote(node),
+        ),
+        vscode.commands.registerCommand(
+            "symbolizer-for-vex-v5.crash-stack.find-source",
+            (node: CrashStackNode) => crashStackProvider.findSource(node),
+        ),
+        vscode.commands.registerCommand(
+            "symbolizer-for-vex-v5.crash-stack.clear",
+            () => crashStackProvider.clear(),
+        ),
+        vscode.commands.registerCommand(
+            "symbolizer-for-vex-v5.program-size.refresh",
+            () => programSizeProvider.refresh(),
+        ),
+        vscode.commands.registerCommand(
+            "symbolizer-for-vex-v5.program-size.sort",
+            () => programSizeProvider.chooseSortOrder(),
+        ),
+        vscode.commands.registerCommand(
+            "symbolizer-for-vex-v5.program-size.show-disassembly",
+            (node: ProgramSizeNode) =>
+                programSizeProvider.showDisassembly(node),
+        ),
+        vscode.commands.registerCommand(
+            "symbolizer-for-vex-v5.show-program-size",
+            async () => {
+                const project = await symbolizer.getActiveProject();
+                if (!project) {
+                    if (!vscode.workspace.workspaceFolders?.length) {
+                        vscode.window.showErrorMessage(
+                            "Couldn't measure program size: There is no active workspace",
+                        );
+                    }
+                    return;
+                }
 
-                if (typeof addressParam === "string") {
-                    address = addressParam;
-                } else {
-                    address = await vscode.window.showInputBox({
-                        title: "Jump to Address",
-                        prompt: "Enter a hexadecimal address number to reveal its location in your source code.",
-                        // This is just some random number that kind of looks like it'd work.
-                        placeHolder: "03801a24",
-                    });
+                try {
+                    await programSizeProvider.showProgramSize(project);
+                } catch (err) {
+                    output.appendLine(
+                        `Couldn't measure program size: ${inspect(err)}`,
+                    );
+                    const msg =
+                        err instanceof Error ? err.message : String(err);
+                    vscode.window.showErrorMessage(
+                        `Couldn't measure program size: ${msg}`,
+                    );
+                }
+            },
+        ),
+        vscode.commands.registerCommand(
+            "symbolizer-for-vex-v5.start-crash-monitor",
+            () => startCrashMonitor(crashMonitor, symbolizer, true),
+        ),
+        vscode.commands.registerCommand(
+            "symbolizer-for-vex-v5.stop-crash-monitor",
+            () => crashMonitor.stop(),
+        ),
+        vscode.commands.registerCommand(
+            "symbolizer-for-vex-v5.jump-to-address",
+            async (addressParam: unknown, folderParam?: unknown) => {
+                const address = await getAddress(
+                    addressParam,
+                    "Jump to Address",
+                    "Enter a hexadecimal address number to reveal its location in your source code.",
+                );
+                if (!address) {
+                    return;
                 }
 
+                // Links in crash reports pass the URI of the project the crash was symbolized with.
+                const project =
+                    typeof folderParam === "string"
+                        ? await projects.getProject(
+                              vscode.Uri.parse(folderParam),
+                          )
+                        : undefined;
+                await symbolizer.jumpToAddress(address, project);
+            },
+        ),
+        vscode.commands.registerCommand(
+            "symbolizer-for-vex-v5.show-disassembly",
+            async (addressParam: unknown, projectParam?: Project) => {
+                const address = await getAddress(
+                    addressParam,
+                    "Show Disassembly at Address",
+                    "Enter a hexadecimal address number to see the instructions around it.",
+                );
                 if (!address) {
                     return;
                 }
 
-                if (!address.startsWith("0x")) {
-                    address = `0x${address}`;
+                const project =
+                    projectParam ?? (await symbolizer.getActiveProject());
+                if (!project) {
+                    if (!vscode.workspace.workspaceFolders?.length) {
+                        vscode.window.showErrorMessage(
+                            "Couldn't show disassembly: There is no active workspace",
+                        );
+                    }
+                    return;
                 }
 
-                const matches = Array.from(address.matchAll(ADDRESS_PATTERN));
-                if (matches.length === 0) {
+                try {
+                    await disassemblyProvider.showDisassembly(address, project);
+                } catch (err) {
+                    output.appendLine(
+                        `Couldn't show disassembly: ${inspect(err)}`,
+                    );
+                    const msg =
+                        err instanceof Error ? err.message : String(err);
+                    vscode.window.showErrorMessage(
+                        `Couldn't show disassembly: ${msg}`,
+                    );
+                }
+            },
+        ),
+        vscode.commands.registerCommand(
+            "symbolizer-for-vex-v5.show-line-addresses",
+            async () => {
+                const editor = vscode.window.activeTextEditor;
+                if (!editor) {
                     vscode.window.showErrorMessage(
-                        "The specified address must be a hexadecimal number.",
+                        "Open a source file to see the addresses of its lines.",
                     );
                     return;
                 }
 
-                await symbolizer.jumpToAddress(address);
+                const project = await symbolizer.getActiveProject();
+                if (!project) {
+                    if (!vscode.workspace.workspaceFolders?.length) {
+                        vscode.window.showErrorMessage(
+                            "Couldn't find addresses: There is no active workspace",
+                        );
+                    }
+                    return;
+                }
+
+                try {
+                    await lineAddressFinder.showAddressesForLine(
+                        editor.document,
+                        editor.selection.active.line,
+                        project,
+                    );
+                } catch (err) {
+                    output.appendLine(
+                        `Couldn't find addresses: ${inspect(err)}`,
+                    );
+                    const msg =
+                        err instanceof Error ? err.message : String(err);
+                    vscode.window.showErrorMessage(
+                        `Couldn't find addresses: ${msg}`,
+                    );
+                }
             },
         ),
     );
+
+    if (settings.crashMonitorAutoStart) {
+        startCrashMonitor(crashMonitor, symbolizer, false);
+    }
+
+    return createApi(symbolizer, projects, (convention) => {
+        conventions.push(convention);
+        rebuildSymbolizer();
+        return new vscode.Disposable(() => {
+            const index = conventions.indexOf(convention);
+            if (index !== -1) {
+                conventions.splice(index, 1);
+                rebuildSymbolizer();
+            }
+        });
+    });
 }
 
 export function deactivate() {
@@ -0,0 +1,582 @@
+import * as path from "node:path";
+import { inspect } from "node:util";
+import { CrashLog, normalizeAddress } from "./core/crashLogs.js";
+import { SymbolizedFrame } from "./crashReports.js";
+import { DisassemblyProvider } from "./disassembly.js";
+import { DataAddressDescription, formatDataAddress } from "./dataAddresses.js";
+import { Project } from "./projects.js";
+import { findProjectFrame } from "./symbolization.js";
+import { output } from "./logs.js";
+
+/**
+ * Addresses below this are treated as a field of a null pointer, since nothing is mapped there and
+ * structs are rarely bigger.
+ */
+const NEAR_NULL_LIMIT = 0x1000;
+
+/**
+ * How many explanations are remembered, so that the most recent crashes can still be explained when
+ * their addresses are clicked.
+ */
+const MAX_REMEMBERED_EXPLANATIONS = 20;
+
+/**
+ * The ARMv7-A short-descriptor fault status codes, keyed by the 5-bit FS field of the DFSR or IFSR.
+ */
+const FAULT_STATUS_CODES = new Map([
+    [0b00001, "alignment fault"],
+    [0b00100, "fault on instruction cache maintenance"],
+    [0b01100, "external abort on translation table walk (first level)"],
+    [0b01110, "external abort on translation table walk (second level)"],
+    [0b11100, "parity error on translation table walk (first level)"],
+    [0b11110, "parity error on translation table walk (second level)"],
+    [0b00101, "translation fault (section)"],
+    [0b00111, "translation fault (page)"],
+    [0b00011, "access flag fault (section)"],
+    [0b00110, "access flag fault (page)"],
+    [0b01001, "domain fault (section)"],
+    [0b01011, "domain fault (page)"],
+    [0b01101, "permission fault (section)"],
+    [0b01111, "permission fault (page)"],
+    [0b00010, "debug event"],
+    [0b01000, "synchronous external abort"],
+    [0b10100, "lockdown abort"],
+    [0b11010, "coprocessor abort"],
+    [0b11001, "parity error on memory access"],
+    [0b10110, "asynchronous external abort"],
+    [0b11000, "asynchronous parity error on memory access"],
+]);
+
+const CONDITION_CODES = "eq|ne|cs|hs|cc|lo|mi|pl|vs|vc|hi|ls|ge|lt|gt|le|al";
+const SINGLE_ACCESS_PATTERN = new RegExp(
+    `^(ld|st)r(ex)?(sb|sh|b|h|d)?(?:${CONDITION_CODES})?t?$`,
+);
+const MULTIPLE_ACCESS_PATTERN = new RegExp(
+    `^(ld|st)m(ia|ib|da|db|fd|fa|ed|ea)?(?:${CONDITION_CODES})?$`,
+);
+const STACK_ACCESS_PATTERN = new RegExp(`^(push|pop)(?:${CONDITION_CODES})?$`);
+const VECTOR_ACCESS_PATTERN = new RegExp(`^v(ld|st)r(?:${CONDITION_CODES})?$`);
+
+/**
+ * Other names of the core registers, keyed by the names they're printed with in crash dumps.
+ */
+const REGISTER_ALIASES = new Map([
+    ["sb", "r9"],
+    ["sl", "r10"],
+    ["fp", "r11"],
+    ["ip", "r12"],
+    ["sp", "r13"],
+    ["lr", "r14"],
+    ["pc", "r15"],
+]);
+
+/**
+ * A decoded DFSR or IFSR.
+ */
+export interface FaultStatus {
+    /**
+     * What the fault status code means, such as "translation fault (page)".
+     */
+    description: string;
+    /**
+     * Whether the faulting access was a write, which is only known for data aborts.
+     */
+    isWrite?: boolean;
+}
+
+/**
+ * A load or store instruction which could have caused a data abort.
+ */
+export interface MemoryAccess {
+    /**
+     * The instruction's memory operand, such as `[r3, #8]`.
+     */
+    operand: string;
+    /**
+     * The register holding the address which was accessed.
+     */
+    baseRegister: string;
+    /**
+     * How far from the base register the access was, if it's known without the other registers.
+     */
+    offset?: number;
+    /**
+     * The register added to the base register, for accesses like `[r1, r2, lsl #2]`.
+     */
+    indexRegister?: { name: string; shift: number; isSubtracted: boolean };
+    isWrite: boolean;
+    /**
+     * The alignment which the instruction always requires, or 1 if it only faults on misaligned
+     * addresses when alignment checking is turned on.
+     */
+    requiredAlignment: number;
+}
+
+/**
+ * What kind of mistake most likely caused a crash.
+ */
+export type FaultKind =
+    | "nullDereference"
+    | "nearNullAccess"
+    | "misalignedAccess"
+    | "invalidAccess"
+    | "nullCall"
+    | "invalidJump"
+    | "undefinedInstruction";
+
+/**
+ * A plain-English explanation of why a program crashed.
+ */
+export interface FaultExplanation {
+    kind: FaultKind;
+    /**
+     * A short explanation, like "null pointer dereference reading `[r3, #8]` at main.cpp:42".
+     */
+    summary: string;
+    /**
+     * The address of the memory which couldn't be accessed, if it's known.
+     */
+    dataAddress?: number;
+    /**
+     * The register holding the address which couldn't be accessed, if it's known.
+     */
+    baseRegister?: string;
+    status?: FaultStatus;
+    /**
+     * What the address which couldn't be accessed points to, like a global variable or the heap.
+     */
+    data?: DataAddressDescription;
+}
+
+function formatHex(value: number) {
+    return `0x${value.toString(16).padStart(8, "0")}`;
+}
+
+/**
+ * Decodes the status code from a DFSR or IFSR, which says why the memory system refused an access.
+ * @param value the register's value
+ * @param isInstruction whether the register is the IFSR
+ * @returns the decoded status
+ */
+export function decodeFaultStatus(
+    value: number,
+    isInstruction: boolean,
+): FaultStatus {
+    // FS[4] is bit 10, and FS[3:0] are bits 3 to 0.
+    const code = ((value >> 6) & 0x10) | (value & 0xf);
+    return {
+        description:
+            FAULT_STATUS_CODES.get(code) ??
+            `unknown fault (status 0b${code.toString(2).padStart(5, "0")})`,
+        isWrite: isInstruction ? undefined : (value & (1 << 11)) !== 0,
+    };
+}
+
+/**
+ * Gets the value of a core register from a crash dump, whichever name it was printed with.
+ */
+function getRegister(
+    registers: Map<string, string>,
+    name: string,
+): number | undefined {
+    const canonical = REGISTER_ALIASES.get(name) ?? name;
+    for (const [key, value] of registers) {
+        if ((REGISTER_ALIASES.get(key) ?? key) === canonical) {
+            return Number.parseInt(value);
+        }
+    }
+    return undefined;
+}
+
+function parseImmediate(text: string) {
+    const negative = text.startsWith("-");
+    const value = Number.parseInt(negative ? text.slice(1) : text);
+    return negative ? -value : value;
+}
+
+/**
+ * Works out which memory a load or store instruction accesses from its disassembly.
+ * @param instruction the instruction, like `ldr r0, [r3, #8]` or `ldm r7!, {r0, r1}`
+ * @returns the access, or undefined if the instruction doesn't access memory
+ */
+export function parseMemoryAccess(
+    instruction: string,
+): MemoryAccess | undefined {
+    const [rawMnemonic, ...rest] = instruction.trim().split(/\s+/);
+    // Width qualifiers like `.w` and data types like `.64` don't change which memory is accessed.
+    const mnemonic = rawMnemonic.toLowerCase().replace(/\..*$/, "");
+    const operands = rest.join(" ").toLowerCase();
+
+    const single =
+        SINGLE_ACCESS_PATTERN.exec(mnemonic) ??
+        VECTOR_ACCESS_PATTERN.exec(mnemonic);
+    if (single) {
+        const memory = /\[\s*(\w+)\s*(?:,\s*([^\]]*))?\](!?)(\s*,)?/.exec(
+            operands,
+        );
+        if (!memory) {
+            return undefined;
+        }
+
+        const [text, baseRegister, index = "", , postIndexed] = memory;
+        const access: MemoryAccess = {
+            operand: text.replace(/\s*,$/, ""),
+            baseRegister,
+            isWrite: single[1] === "st",
+            requiredAlignment: 1,
+        };
+        const size = single[3];
+        if (mnemonic.startsWith("v") || size === "d") {
+            // Floating point and doubleword accesses always need word alignment.
+            access.requiredAlignment = 4;
+        } else if (single[2]) {
+            // Exclusive accesses always need to be aligned to their size.
+            access.requiredAlignment = size === "b" ? 1 : size === "h" ? 2 : 4;
+        }
+
+        // Post-indexed accesses use the base register as-is, and change it afterwards.
+        const immediate = /^#(-?(?:0x[0-9a-f]+|\d+))$/.exec(index.trim());
+        const register = /^(-?)(\w+)(?:\s*,\s*lsl\s*#(\d+))?$/.exec(
+            index.trim(),
+        );
+        if (postIndexed || !index.trim()) {
+            access.offset = 0;
+        } else if (immediate) {
+            access.offset = parseImmediate(immediate[1]);
+        } else if (register) {
+            access.indexRegister = {
+                name: register[2],
+                shift: Number.parseInt(register[3] ?? "0"),
+                isSubtracted: register[1] === "-",
+            };
+        }
+        return access;
+    }
+
+    const multiple = MULTIPLE_ACCESS_PATTERN.exec(mnemonic);
+    const stack = STACK_ACCESS_PATTERN.exec(mnemonic);
+    if (multiple || stack) {
+        const list = /\{([^}]*)\}/.exec(operands);
+        let count = 0;
+        for (const item of (list?.[1] ?? "").split(",")) {
+            const range = /^\s*r(\d+)\s*-\s*r(\d+)\s*$/.exec(item);
+            if (range) {
+                count +=
+                    Number.parseInt(range[2]) - Number.parseInt(range[1]) + 1;
+            } else if (item.trim()) {
+                count += 1;
+            }
+        }
+
+        const isWrite = stack ? stack[1] === "push" : multiple![1] === "st";
+        // `push` is `stmdb sp!`, and `pop` is `ldmia sp!`.
+        const mode = stack ? (isWrite ? "db" : "ia") : (multiple![2] ?? "ia");
+        const offsets: Record<string, number> = {
+            ia: 0,
+            ib: 4,
+            da: -4 * count + 4,
+            db: -4 * count,
+        };
+        const baseRegister = stack
+            ? "sp"
+            : operands.split(",")[0].replace("!", "").trim();
+        return {
+            operand: stack ? `{${list?.[1] ?? ""}}` : operands,
+            baseRegister,
+            offset: offsets[mode],
+            isWrite,
+            requiredAlignment: 4,
+        };
+    }
+
+    return undefined;
+}
+
+/**
+ * Works out the address which an access used from the registers in a crash dump.
+ */
+function getAccessAddress(
+    access: MemoryAccess,
+    registers: Map<string, string>,
+): number | undefined {
+    // The program counter reads ahead of the instruction, so literal loads aren't worth working out.
+    if (access.baseRegister === "pc") {
+        return undefined;
+    }
+
+    const base = getRegister(registers, access.baseRegister);
+    if (base === undefined) {
+        return undefined;
+    }
+    if (access.offset !== undefined) {
+        return (base + access.offset) >>> 0;
+    }
+    if (access.indexRegister) {
+        const index = getRegister(registers, access.indexRegister.name);
+        if (index === undefined) {
+            return undefined;
+        }
+        const scaled = (index << access.indexRegister.shift) >>> 0;
+        return (
+            (access.indexRegister.isSubtracted
+                ? base - scaled
+                : base + scaled) >>> 0
+        );
+    }
+    return undefined;
+}
+
+/**
+ * What's been worked out about a fault, before it's put into a sentence.
+ */
+interface FaultCause extends Omit<FaultExplanation, "summary"> {
+    description: string;
+}
+
+/**
+ * Checks whether a crash was a processor fault, as opposed to a panic or an error from the program.
+ * @param log the crash
+ */
+export function isProcessorFault(log: CrashLog) {
+    return (
+        log.kind === "VEXcode" ||
+        /DATA ABORT|PREFETCH ABORT|UNDEFINED INSTRUCTION/i.test(log.title)
+    );
+}
+
+/**
+ * Explains a data abort from the faulting instruction, the registers and the DFSR and DFAR, as far as
+ * they're known.
+ */
+function explainDataAbort(
+    registers: Map<string, string>,
+    instruction: string | undefined,
+    status: FaultStatus | undefined,
+): FaultCause {
+    const access = instruction ? parseMemoryAccess(instruction) : undefined;
+    const dataAddress =
+        getRegister(registers, "dfar") ??
+        (access && getAccessAddress(access, registers));
+    const isWrite = status?.isWrite ?? access?.isWrite;
+
+    let kind: FaultKind = "invalidAccess";
+    let description = "invalid memory access";
+    if (dataAddress === 0) {
+        kind = "nullDereference";
+        description = "null pointer dereference";
+    } else if (dataAddress !== undefined && dataAddress < NEAR_NULL_LIMIT) {
+        kind = "nearNullAccess";
+        description = `null pointer dereference (offset ${dataAddress})`;
+    } else if (
+        status?.description === "alignment fault" ||
+        (dataAddress !== undefined &&
+            access &&
+            dataAddress % access.requiredAlignment !== 0)
+    ) {
+        kind = "misalignedAccess";
+        description = "misaligned access";
+    }
+
+    if (isWrite !== undefined) {
+        description += isWrite ? " writing" : " reading";
+    }
+    if (access) {
+        description += ` \`${access.operand}\``;
+    } else if (dataAddress !== undefined) {
+        description += ` ${formatHex(dataAddress)}`;
+    }
+
+    return {
+        kind,
+        description,
+        dataAddress,
+        baseRegister: access?.baseRegister,
+        status,
+    };
+}
+
+/**
+ * Builds an explanation of a crash dump from its registers and the instruction which faulted.
+ * @param log the crash dump
+ * @param instruction the disassembly of the faulting instruction, if it's known
+ * @param location where the faulting instruction is, like `main.cpp:42`
+ * @returns the explanation, or undefined if the crash isn't a processor fault
+ */
+export function explainFault(
+    log: CrashLog,
+    instruction: string | undefined,
+    location: string | undefined,
+): FaultExplanation | undefined {
+    const { registers } = log;
+    const dfsr = getRegister(registers, "dfsr");
+    const ifsr = getRegister(registers, "ifsr");
+
+    let cause: FaultCause;
+    if (/PREFETCH ABORT/i.test(log.title)) {
+        const target =
+            getRegister(registers, "ifar") ?? getRegister(registers, "pc");
+        const isNull = target !== undefined && target < NEAR_NULL_LIMIT;
+        cause = {
+            kind: isNull ? "nullCall" : "invalidJump",
+            description: isNull
+                ? "call through a null function pointer"
+                : `jump to an address without any code${target === undefined ? "" : ` (${formatHex(target)})`}`,
+            status:
+                ifsr === undefined ? undefined : decodeFaultStatus(ifsr, true),
+        };
+    } else if (/UNDEFINED INSTRUCTION/i.test(log.title)) {
+        cause = {
+            kind: "undefinedInstruction",
+            description:
+                "undefined instruction, which usually means a corrupted function pointer or return address",
+        };
+    } else if (isProcessorFault(log)) {
+        // VEXcode's memory permission error is always a data abort.
+        cause = explainDataAbort(
+            registers,
+            instruction,
+            dfsr === undefined ? undefined : decodeFaultStatus(dfsr, false),
+        );
+    } else {
+        return undefined;
+    }
+
+    const { description, ...rest } = cause;
+    const notes: string[] = [];
+    if (rest.baseRegister && rest.baseRegister !== "pc") {
+        const value = getRegister(registers, rest.baseRegister);
+        if (value !== undefined) {
+            notes.push(`${rest.baseRegister} was ${formatHex(value)}`);
+        }
+    }
+    if (rest.status) {
+        notes.push(rest.status.description);
+    }
+
+    let summary = description;
+    if (location) {
+        summary += ` at ${location}`;
+    }
+    if (notes.length > 0) {
+        summary += ` (${notes.join(", ")})`;
+    }
+    return { ...rest, summary };
+}
+
+/**
+ * Explains why crash dumps happened when they're symbolized, and remembers the explanations so they can
+ * be shown when the faulting address is clicked.
+ */
+export class FaultExplainer {
+    #explanations = new Map<string, Promise<FaultExplanation | undefined>>();
+
+    constructor(public disassembly: DisassemblyProvider) {}
+
+    /**
+     * Starts explaining a crash dump. The explanation is remembered right away, so that a request for it
+     * which arrives while the dump is still being symbolized waits for it.
+     * @param log the crash dump
+     * @param frames the dump's frames, which may still be being symbolized
+     * @param project the project which crashed
+     */
+    explain(
+        log: CrashLog,
+        frames: Promise<SymbolizedFrame[]>,
+        project: Project,
+    ): Promise<FaultExplanation | undefined> {
+        const pc = log.registers.get("pc") ?? log.frames[0]?.address;
+        if (!pc || !isProcessorFault(log)) {
+            return Promise.resolve(undefined);
+        }
+
+        const explanation = this.#explain(log, pc, frames, project).catch(
+            (err) => {
+                output.appendLine(
+                    `Couldn't explain the crash at ${pc}: ${inspect(err)}`,
+                );
+                return undefined;
+            },
+        );
+        const key = normalizeAddress(pc);
+        this.#explanations.delete(key);
+        this.#explanations.set(key, explanation);
+        for (const old of this.#explanations.keys()) {
+            if (this.#explanations.size <= MAX_REMEMBERED_EXPLANATIONS) {
+                break;
+            }
+            this.#explanations.delete(old);
+        }
+        return explanation;
+    }
+
+    /**
+     * Gets the explanation of the most recent crash at an address.
+     * @param address the faulting address
+     * @returns the explanation, or undefined if no crash at that address has been explained
+     */
+    async getExplanation(
+        address: string,
+    ): Promise<FaultExplanation | undefined> {
+        return await this.#explanations.get(normalizeAddress(address));
+    }
+
+    async #explain(
+        log: CrashLog,
+        pc: string,
+        frames: Promise<SymbolizedFrame[]>,
+        project: Project,
+    ): Promise<FaultExplanation | undefined> {
+        const [symbolized, instruction] = await Promise.all([
+            frames,
+            this.disassembly
+                .disassembleInstruction(pc, project)
+                .catch((err) => {
+                    output.appendLine(
+                        `Couldn't disassemble the faulting instruction at ${pc}: ${inspect(err)}`,
+                    );
+                    return undefined;
+                }),
+        ]);
+
+        const frame = symbolized.find(
+            ({ frame }) => frame.address === normalizeAddress(pc),
+        );
+        // The faulting instruction is often in a library function which was inlined into the project.
+        const resolved = frame?.resolved;
+        const sourceLocation = (
+            resolved &&
+            (findProjectFrame(resolved, project) ??
+                resolved.inlinedFrames[0] ??
+                resolved)
+        )?.sourceLocation;
+        const location =
+            sourceLocation &&
+            `${path.basename(sourceLocation.uri.path)}:${sourceLocation.position.line + 1}`;
+
+        const explanation = explainFault(log, instruction, location);
+        const dataAddress = explanation?.dataAddress;
+        if (
+            explanation &&
+            dataAddress !== undefined &&
+            dataAddress >= NEAR_NULL_LIMIT
+        ) {
+            explanation.data = await this.disassembly.symbolizer
+                .describeDataAddress(formatHex(dataAddress), project)
+                .catch((err) => {
+                    output.appendLine(
+                        `Couldn't describe the data address ${formatHex(dataAddress)}: ${inspect(err)}`,
+                    );
+                    return undefined;
+                });
+            if (explanation.data) {
+                explanation.summary += `; ${formatHex(dataAddress)} is ${formatDataAddress(explanation.data)}`;
+            }
+        }
+        if (explanation) {
+            output.appendLine(
+                `Explained the crash at ${pc}: ${explanation.summary}`,
+            );
+        }
+        return explanation;
+    }
+}
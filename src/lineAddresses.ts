@@ -0,0 +1,314 @@
+import * as vscode from "vscode";
+import * as path from "node:path";
+import { Symbolizer } from "./symbolization.js";
+import { AddressRange, DwarfInfo } from "./core/dwarf.js";
+import { ElfFile, STT_FUNC } from "./core/elf.js";
+import {
+    demangleElfSymbolName,
+    demangleSymbolName,
+} from "./core/demangling.js";
+import { Project } from "./projects.js";
+import { output } from "./logs.js";
+
+/**
+ * Some addresses which were generated from a line of source code, along with the function they're in.
+ */
+interface LineAddresses extends AddressRange {
+    /**
+     * The function whose code contains the addresses.
+     */
+    function?: FunctionRange;
+    /**
+     * The name of the function the line belongs to, if it was inlined into `function`.
+     */
+    inlinedFrom?: string;
+}
+
+interface FunctionRange extends AddressRange {
+    name: string;
+}
+
+/**
+ * What's known about a source file in one code object.
+ */
+interface LineSearchResult {
+    addresses: LineAddresses[];
+    /**
+     * Whether the code object's line tables mention the source file at all.
+     */
+    hasFile: boolean;
+}
+
+interface AddressQuickPickItem extends vscode.QuickPickItem {
+    address?: string;
+}
+
+function formatHex(address: number) {
+    return `0x${address.toString(16).padStart(8, "0")}`;
+}
+
+/**
+ * Finds the addresses which were generated from a line of source code, which is the reverse of
+ * symbolizing an address.
+ */
+export class LineAddressFinder {
+    constructor(public symbolizer: Symbolizer) {}
+
+    /**
+     * Lists the addresses of a line in a quick pick, and shows the disassembly of the one the user picks.
+     * @param document the source file
+     * @param line the zero-based line number
+     * @param project the project to find code objects in
+     */
+    async showAddressesForLine(
+        document: vscode.TextDocument,
+        line: number,
+        project: Project,
+    ) {
+        const codeObjects = await this.symbolizer.locateCodeObjects(project);
+        if (codeObjects.length === 0) {
+            throw new Error("No code objects were found in this project");
+        }
+
+        const lineName = `${path.basename(document.uri.path)}:${line + 1}`;
+        const results = await Promise.all(
+            codeObjects.map((codeObject) =>
+                this.#findInCodeObject(
+                    codeObject,
+                    document.uri,
+                    line + 1,
+                    project,
+                ),
+            ),
+        );
+        const addresses = results.flatMap((result) => result.addresses);
+
+        if (addresses.length === 0) {
+            const note = results.some((result) => result.hasFile)
+                ? `No instructions were generated for ${lineName}. It may have been optimized out, or it may not contain any code.`
+                : `${path.basename(document.uri.path)} isn't in the current build of ${project.name}. Rebuild the project if it's new.`;
+            vscode.window.showInformationMessage(note);
+            return;
+        }
+
+        const items: AddressQuickPickItem[] = [];
+        for (const range of addresses) {
+            items.push({
+                label: `${formatHex(range.start)} – ${formatHex(range.end)}`,
+                description: `${range.end - range.start} bytes`,
+                detail: range.inlinedFrom
+                    ? `Inlined from ${range.inlinedFrom} into ${range.function?.name ?? "an unknown function"}`
+                    : range.function && `In ${range.function.name}`,
+                address: formatHex(range.start),
+            });
+        }
+
+        const functions = addresses.flatMap((range) =>
+            range.function ? [range.function] : [],
+        );
+        const functionItems: AddressQuickPickItem[] = [];
+        const seenFunctions = new Set<string>();
+        for (const func of functions) {
+            const key = `${func.name}@${func.start}`;
+            if (seenFunctions.has(key)) {
+                continue;
+            }
+            seenFunctions.add(key);
+            functionItems.push({
+                label: `$(symbol-function) ${func.name}`,
+                description: `${formatHex(func.start)} – ${formatHex(func.end)}`,
+                detail: `${func.end - func.start} bytes`,
+                address: formatHex(func.start),
+            });
+        }
+        if (functionItems.length > 0) {
+            items.push(
+                {
+                    label: "Containing functions",
+                    kind: vscode.QuickPickItemKind.Separator,
+                },
+                ...functionItems,
+            );
+        }
+
+        if (await this.#isOutOfDate(document, codeObjects)) {
+            items.unshift({
+                label: "$(warning) The source file has changed since the project was built",
+                description: "Rebuild the project to see up-to-date addresses",
+            });
+        }
+
+        const picked = await vscode.window.showQuickPick(items, {
+            title: `Addresses for ${lineName}`,
+            placeHolder: "Choose an address to see its disassembly",
+            matchOnDetail: true,
+        });
+        if (picked?.address) {
+            await vscode.commands.executeCommand(
+                "symbolizer-for-vex-v5.show-disassembly",
+                picked.address,
+                project,
+            );
+        }
+    }
+
+    /**
+     * Searches one code object's line tables for a line.
+     * @param codeObject the code object to search
+     * @param source the source file containing the line
+     * @param line the 1-based line number
+     * @param project the project the code object belongs to
+     */
+    async #findInCodeObject(
+        codeObject: vscode.Uri,
+        source: vscode.Uri,
+        line: number,
+        project: Project,
+    ): Promise<LineSearchResult> {
+        const elf = ElfFile.parse(
+            await vscode.workspace.fs.readFile(codeObject),
+        );
+        const dwarf = DwarfInfo.fromElf(elf);
+        if (!dwarf) {
+            output.appendLine(
+                `${codeObject.fsPath} doesn't have any debugging information, so its lines can't be searched.`,
+            );
+            return { addresses: [], hasFile: false };
+        }
+
+        const files = await this.#findMatchingFiles(
+            dwarf.getSourceFiles(),
+            source,
+            project,
+        );
+        output.appendLine(
+            `Found ${files.length} files in ${codeObject.fsPath} matching ${source.fsPath}: ${files.join(", ")}`,
+        );
+
+        const addresses = dwarf
+            .findLineAddresses(files, line)
+            .map((range): LineAddresses => {
+                const scopes = dwarf.findScopes(range.start);
+                const outermost = scopes.at(0);
+                const innermost = scopes.at(-1);
+                return {
+                    ...range,
+                    function: outermost
+                        ? this.#getFunctionRange(
+                              outermost.name,
+                              outermost.ranges,
+                              range.start,
+                          )
+                        : this.#getSymbolRange(elf, range.start),
+                    inlinedFrom: innermost?.isInlined
+                        ? (innermost.name ?? "an unknown function")
+                        : undefined,
+                };
+            });
+        return { addresses, hasFile: files.length > 0 };
+    }
+
+    /**
+     * Finds the paths in the line tables which refer to a source file. Paths from the line tables are
+     * compared after mapping them the same way as symbolized locations, since the file may have been
+     * built somewhere else.
+     */
+    async #findMatchingFiles(
+        files: string[],
+        source: vscode.Uri,
+        project: Project,
+    ): Promise<string[]> {
+        const basename = path.basename(source.path);
+        const matching: string[] = [];
+        for (const file of files) {
+            if (path.basename(file.replaceAll("\\", "/")) !== basename) {
+                continue;
+            }
+
+            const uri = vscode.Uri.file(file);
+            if (uri.toString() === source.toString()) {
+                matching.push(file);
+                continue;
+            }
+
+            const mapped = await this.symbolizer.sourcePaths.mapLocation(
+                { uri, position: new vscode.Position(0, 0) },
+                project,
+            );
+            if (mapped.uri.toString() === source.toString()) {
+                matching.push(file);
+            }
+        }
+        return matching;
+    }
+
+    /**
+     * Gets the whole range of a function from the DWARF ranges of its scope. Functions can be split
+     * into pieces, such as when the compiler moves cold code away, so the piece containing the address
+     * is used.
+     */
+    #getFunctionRange(
+        name: string | undefined,
+        ranges: AddressRange[],
+        address: number,
+    ): FunctionRange | undefined {
+        const range =
+            ranges.find(
+                (range) => address >= range.start && address < range.end,
+            ) ?? ranges[0];
+        if (!range) {
+            return undefined;
+        }
+        return {
+            name: demangleSymbolName(
+                name ?? "??",
+                this.symbolizer.showRustSymbolHashes,
+            ),
+            start: range.start,
+            end: range.end,
+        };
+    }
+
+    #getSymbolRange(elf: ElfFile, address: number): FunctionRange | undefined {
+        const symbol = elf.findSymbol(address, STT_FUNC);
+        if (!symbol) {
+            return undefined;
+        }
+        // Thumb functions have the lowest bit of their address set.
+        const start = symbol.value & ~1;
+        return {
+            name: demangleElfSymbolName(
+                symbol.name,
+                this.symbolizer.showRustSymbolHashes,
+            ),
+            start,
+            end: start + symbol.size,
+        };
+    }
+
+    /**
+     * Checks whether the source file was changed after the code objects were built, in which case its
+     * line numbers may not match the addresses anymore.
+     */
+    async #isOutOfDate(
+        document: vscode.TextDocument,
+        codeObjects: vscode.Uri[],
+    ): Promise<boolean> {
+        if (document.isDirty) {
+            return true;
+        }
+
+        try {
+            const { mtime } = await vscode.workspace.fs.stat(document.uri);
+            const builtTimes = await Promise.all(
+                codeObjects.map(
+                    async (codeObject) =>
+                        (await vscode.workspace.fs.stat(codeObject)).mtime,
+                ),
+            );
+            return builtTimes.every((builtTime) => builtTime < mtime);
+        } catch {
+            return false;
+        }
+    }
+}
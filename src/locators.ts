@@ -1,18 +1,13 @@
 import * as vscode from "vscode";
 import { CodeObjectLocator } from "./symbolization.js";
 import { inspectPattern, output } from "./logs.js";
-import * as path from "node:path";
-import { inspect } from "node:util";
-
-interface TimestampedFile {
-    uri: vscode.Uri;
-    timestamp: number;
-}
+import * as core from "./core/locators.js";
+import * as coreTypes from "./core/types.js";
 
 /**
  * Describes a convention for where code object files are stored.
  */
-interface FilesystemConvention {
+export interface FilesystemConvention {
     /**
      * The name of the convention.
      */
@@ -26,76 +21,68 @@ interface FilesystemConvention {
 }
 
 /**
- * A convention for storing files which can be described as a list of relative paths.
+ * Lets the extension use one of the core's conventions, which list code objects by their paths.
  */
-export class SimpleFilesystemConvention implements FilesystemConvention {
-    constructor(
-        public readonly name: string,
-        /**
-         * A list of code object paths relative to the directory being searched.
-         */
-        public readonly paths: string[],
-    ) {}
+export class CoreFilesystemConvention implements FilesystemConvention {
+    constructor(public readonly convention: core.PathConvention) {}
 
-    getUris(projectDir: vscode.Uri): Promise<vscode.Uri[]> {
-        return Promise.resolve(
-            this.paths.map((path) => vscode.Uri.joinPath(projectDir, path)),
-        );
+    get name() {
+        return this.convention.name;
+    }
+
+    async getUris(projectDir: vscode.Uri): Promise<vscode.Uri[]> {
+        const paths = await this.convention.getPaths(projectDir.fsPath);
+        return paths.map((path) => vscode.Uri.file(path));
     }
 }
 
 /**
- * Finds code objects generated by cargo-v5, vexide's build tool.
+ * A convention for storing files which can be described as a list of relative paths.
  */
-export class VexideFilesystemConvention implements FilesystemConvention {
-    readonly name = "vexide";
-
-    async getUris(projectDir: vscode.Uri): Promise<vscode.Uri[]> {
-        const pattern = new vscode.RelativePattern(
-            projectDir,
-            "target/armv7a-vex-v5/{debug,release}/{examples/*,*}",
-        );
-
-        output.appendLine(
-            `Using the following pattern to search for vexide files: ${inspectPattern(
-                pattern,
-            )}`,
-        );
-
-        const files = await vscode.workspace.findFiles(pattern);
-        output.appendLine(
-            `Found these files using vexide convention, before filtering out files with extensions:\n${files.join(
-                "\n",
-            )}`,
-        );
-
-        // ELF files generated by cargo never have file extensions or dashes in their names.
-        const filtered = files.filter((file) => {
-            const basename = path.basename(file.fsPath);
-            return !/[\.\-]/.test(basename);
-        });
+export class SimpleFilesystemConvention extends CoreFilesystemConvention {
+    constructor(name: string, paths: string[]) {
+        super(new core.SimplePathConvention(name, paths));
+    }
+}
 
-        output.appendLine(
-            `Found these files using vexide convention, after removing files with extensions:\n${filtered.join(
-                "\n",
-            )}`,
-        );
-        return filtered;
+/**
+ * Finds code objects generated by cargo-v5, vexide's build tool.
+ */
+export class VexideFilesystemConvention extends CoreFilesystemConvention {
+    constructor() {
+        super(new core.VexidePathConvention());
     }
 }
 
 /**
  * Finds code objects generated by VEXCode's Makefile.
  */
-export class VEXCodeFilesystemConvention implements FilesystemConvention {
-    readonly name = "VEXCode";
+export class VEXCodeFilesystemConvention extends CoreFilesystemConvention {
+    constructor() {
+        super(new core.VEXCodePathConvention());
+    }
+}
+
+/**
+ * Finds code objects matching a glob pattern from the user's settings.
+ */
+export class GlobFilesystemConvention implements FilesystemConvention {
+    constructor(
+        /**
+         * A glob pattern relative to the directory being searched.
+         */
+        public readonly pattern: string,
+    ) {}
+
+    get name() {
+        return `Custom (${this.pattern})`;
+    }
 
     async getUris(projectDir: vscode.Uri): Promise<vscode.Uri[]> {
-        // VEXCode naming for ELF files is inconsistent, but they're always in `build/`.
-        const pattern = new vscode.RelativePattern(projectDir, "build/*.elf");
+        const pattern = new vscode.RelativePattern(projectDir, this.pattern);
 
         output.appendLine(
-            `Using pattern to search for VEXCode files: ${inspectPattern(
+            `Using custom pattern to search for files: ${inspectPattern(
                 pattern,
             )}`,
         );
@@ -103,6 +90,27 @@ export class VEXCodeFilesystemConvention implements FilesystemConvention {
     }
 }
 
+/**
+ * Lets the core use one of the extension's conventions, such as a glob from the user's settings or one
+ * which another extension registered.
+ */
+function toPathConvention(
+    convention: FilesystemConvention,
+): core.PathConvention {
+    if (convention instanceof CoreFilesystemConvention) {
+        return convention.convention;
+    }
+    return {
+        get name() {
+            return convention.name;
+        },
+        async getPaths(projectDir) {
+            const uris = await convention.getUris(vscode.Uri.file(projectDir));
+            return uris.map((uri) => uri.fsPath);
+        },
+    };
+}
+
 /**
  * Locates the most recent code objects in a project.
  */
@@ -115,53 +123,41 @@ export class RecentCodeObjectLocator implements CodeObjectLocator {
     ) {}
 
     get name() {
-        return `Recent Files (${this.conventions
-            .map((t) => t.name)
-            .join(", ")})`;
+        return this.#getCoreLocator().name;
     }
 
     async findObjectUris(folder: vscode.Uri): Promise<vscode.Uri[]> {
-        const files = await Promise.all(
-            this.conventions.map((convention) =>
-                this.getTimestampedFilesWith(convention, folder),
-            ),
-        );
-
-        return (
-            files
-                .flat()
-                // Big timestamp (more recent) first
-                .sort((a, b) => b.timestamp - a.timestamp)
-                .map((obj) => obj.uri)
+        const paths = await this.#getCoreLocator().findObjectPaths(
+            folder.fsPath,
         );
+        return paths.map((path) => vscode.Uri.file(path));
     }
 
-    /**
-     * Uses the specified convention to find files which actually exist on the filesystem.
-     * @param convention the convention to use when searching
-     * @param base the folder to search in
-     * @returns an unsorted array of the timestamped files found with the convention's search strategy
-     */
-    async getTimestampedFilesWith(
-        convention: FilesystemConvention,
-        base: vscode.Uri,
-    ): Promise<TimestampedFile[]> {
-        const files = await Promise.all(
-            (
-                await convention.getUris(base)
-            ).map(async (uri) => {
-                try {
-                    const stat = await vscode.workspace.fs.stat(uri);
-                    return {
-                        uri,
-                        timestamp: stat.mtime,
-                    };
-                } catch {
-                    return;
-                }
-            }),
+    #getCoreLocator() {
+        return new core.RecentPathCodeObjectLocator(
+            this.conventions.map(toPathConvention),
         );
-
-        return files.filter((file) => file !== undefined);
     }
 }
+
+/**
+ * Lets the core use one of the extension's locators, such as a caching locator or one which another
+ * extension registered. The core names files by their paths, so only local files can be found this way.
+ * @param locator the locator to wrap
+ * @returns the wrapped locator
+ */
+export function toCoreLocator(
+    locator: CodeObjectLocator,
+): coreTypes.CodeObjectLocator {
+    return {
+        get name() {
+            return locator.name;
+        },
+        async findObjectPaths(projectDir) {
+            const uris = await locator.findObjectUris(
+                vscode.Uri.file(projectDir),
+            );
+            return uris.map((uri) => uri.fsPath);
+        },
+    };
+}
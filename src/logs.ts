@@ -1,9 +1,12 @@
 import { inspect } from "node:util";
 import * as vscode from "vscode";
+import { setLogger } from "./core/logger.js";
 
 export const output = vscode.window.createOutputChannel(
     "Symbolizer for VEX V5",
 );
+// The core can't use the output channel directly, since it also runs outside of VS Code.
+setLogger(output);
 
 export function inspectPattern(pattern: vscode.GlobPattern): string {
     if (typeof pattern === "string") {
@@ -0,0 +1,481 @@
+import * as vscode from "vscode";
+import * as path from "node:path";
+import { inspect } from "node:util";
+import { CrashLog, parseAddressList, parseCrashLog } from "./core/crashLogs.js";
+import { SymbolizedFrame, symbolizeCrashLog } from "./crashReports.js";
+import { Symbolizer } from "./symbolization.js";
+import { Project } from "./projects.js";
+import { output } from "./logs.js";
+
+/**
+ * The debug type contributed in `package.json`.
+ */
+export const POST_MORTEM_DEBUG_TYPE = "vex-post-mortem";
+
+/**
+ * The settings of a post-mortem debug configuration.
+ */
+export interface PostMortemDebugConfiguration
+    extends vscode.DebugConfiguration {
+    /**
+     * The text of the crash log to debug.
+     */
+    crashLog?: string;
+    /**
+     * The path of a file containing the crash log to debug.
+     */
+    crashLogFile?: string;
+    /**
+     * The root directory of the project which crashed. It is detected automatically if this is missing.
+     */
+    projectDir?: string;
+}
+
+interface ProtocolRequest {
+    seq: number;
+    type: "request";
+    command: string;
+    arguments?: Record<string, unknown>;
+}
+
+interface ProtocolSource {
+    name: string;
+    path?: string;
+    /**
+     * Where a source without a local path can be found, such as a URL.
+     */
+    origin?: string;
+}
+
+interface ProtocolStackFrame {
+    id: number;
+    name: string;
+    line: number;
+    column: number;
+    source?: ProtocolSource;
+    instructionPointerReference?: string;
+    presentationHint?: "normal" | "label" | "subtle";
+}
+
+interface ProtocolVariable {
+    name: string;
+    value: string;
+    variablesReference: 0;
+}
+
+/**
+ * The only thread shown in the Call Stack view: the one which crashed.
+ */
+const CRASHED_THREAD_ID = 1;
+const REGISTERS_REFERENCE = 1;
+/**
+ * Variable references for the "Frame" scope of each stack frame start here, offset by the frame's ID.
+ */
+const FRAME_REFERENCE_BASE = 1000;
+
+/**
+ * Describes a source file to the debugger. Sources which were mapped to a website, like a PROS kernel
+ * file on GitHub, don't have a local path, so they're only named.
+ */
+function toProtocolSource(uri: vscode.Uri): ProtocolSource {
+    const name = path.posix.basename(uri.path);
+    return uri.scheme === "file"
+        ? { name, path: uri.fsPath }
+        : { name, origin: uri.toString() };
+}
+
+/**
+ * A debug adapter which "debugs" a crash that already happened by presenting a symbolized crash log
+ * through VS Code's normal debugging UI.
+ */
+export class PostMortemDebugSession implements vscode.DebugAdapter {
+    readonly #onDidSendMessage =
+        new vscode.EventEmitter<vscode.DebugProtocolMessage>();
+    readonly onDidSendMessage = this.#onDidSendMessage.event;
+
+    #seq = 1;
+    #linesStartAt1 = true;
+    #columnsStartAt1 = true;
+    #log: CrashLog | undefined;
+    #frames: SymbolizedFrame[] = [];
+    #stackFrames: ProtocolStackFrame[] = [];
+    /**
+     * Which crash log frame each stack frame came from, since inlined functions get frames of their own.
+     */
+    #stackFrameOrigins: SymbolizedFrame[] = [];
+
+    constructor(
+        public readonly symbolizer: Symbolizer,
+        /**
+         * The workspace folder which relative paths in the debug configuration are resolved against.
+         */
+        public readonly folder: vscode.WorkspaceFolder | undefined,
+    ) {}
+
+    handleMessage(message: vscode.DebugProtocolMessage): void {
+        const request = message as ProtocolRequest;
+        if (request.type !== "request") {
+            return;
+        }
+
+        this.#handleRequest(request).catch((err) => {
+            output.appendLine(
+                `Post-mortem request "${request.command}" failed: ${inspect(err)}`,
+            );
+            this.#respond(request, undefined, err);
+        });
+    }
+
+    dispose() {
+        this.#onDidSendMessage.dispose();
+    }
+
+    async #handleRequest(request: ProtocolRequest) {
+        const args = request.arguments ?? {};
+
+        switch (request.command) {
+            case "initialize":
+                this.#linesStartAt1 = args.linesStartAt1 !== false;
+                this.#columnsStartAt1 = args.columnsStartAt1 !== false;
+                this.#respond(request, {
+                    supportsConfigurationDoneRequest: true,
+                    supportsExceptionInfoRequest: true,
+                    supportsEvaluateForHovers: false,
+                });
+                break;
+            case "launch":
+                await this.#launch(args as PostMortemDebugConfiguration);
+                this.#respond(request);
+                // Configuration is only done once the frames are ready, so the crash can be shown right away.
+                this.#sendEvent("initialized");
+                break;
+            case "configurationDone":
+                this.#respond(request);
+                this.#sendEvent("stopped", {
+                    reason: "exception",
+                    description: this.#log?.title,
+                    text: this.#log?.details.join("\n"),
+                    threadId: CRASHED_THREAD_ID,
+                    allThreadsStopped: true,
+                });
+                break;
+            case "setBreakpoints":
+                // Nothing can run after a crash, so breakpoints can never be hit.
+                this.#respond(request, {
+                    breakpoints: (
+                        (args.breakpoints as unknown[] | undefined) ?? []
+                    ).map(() => ({
+                        verified: false,
+                        message: "The program has already crashed.",
+                    })),
+                });
+                break;
+            case "threads":
+                this.#respond(request, {
+                    threads: [
+                        {
+                            id: CRASHED_THREAD_ID,
+                            name: this.#getTaskName() ?? "Crashed task",
+                        },
+                    ],
+                });
+                break;
+            case "stackTrace":
+                this.#respond(request, {
+                    stackFrames: this.#stackFrames,
+                    totalFrames: this.#stackFrames.length,
+                });
+                break;
+            case "scopes":
+                this.#respond(request, {
+                    scopes: this.#getScopes(Number(args.frameId)),
+                });
+                break;
+            case "variables":
+                this.#respond(request, {
+                    variables: this.#getVariables(
+                        Number(args.variablesReference),
+                    ),
+                });
+                break;
+            case "evaluate": {
+                const register = this.#log?.registers.get(
+                    String(args.expression).trim().toLowerCase(),
+                );
+                if (!register) {
+                    throw new Error(
+                        "Only registers printed in the crash log can be evaluated.",
+                    );
+                }
+                this.#respond(request, {
+                    result: register,
+                    variablesReference: 0,
+                });
+                break;
+            }
+            case "exceptionInfo":
+                this.#respond(request, {
+                    exceptionId: this.#log?.title ?? "Crash",
+                    description: this.#log?.details.join("\n") || undefined,
+                    breakMode: "always",
+                });
+                break;
+            case "continue":
+            case "next":
+            case "stepIn":
+            case "stepOut":
+            case "pause":
+                throw new Error(
+                    "This is a post-mortem session, so the program can't be resumed.",
+                );
+            case "disconnect":
+            case "terminate":
+                this.#respond(request);
+                this.#sendEvent("terminated");
+                break;
+            default:
+                this.#respond(request);
+        }
+    }
+
+    async #launch(configuration: PostMortemDebugConfiguration) {
+        let text = configuration.crashLog;
+        if (!text && configuration.crashLogFile) {
+            text = new TextDecoder().decode(
+                await vscode.workspace.fs.readFile(
+                    this.#resolvePath(configuration.crashLogFile),
+                ),
+            );
+        }
+        if (!text) {
+            throw new Error(
+                "The debug configuration needs a `crashLog` or `crashLogFile`.",
+            );
+        }
+
+        const log = parseCrashLog(text) ?? parseAddressList(text);
+        if (!log || log.frames.length === 0) {
+            throw new Error("Couldn't find a backtrace in the crash log.");
+        }
+
+        this.#log = log;
+        this.#frames = await symbolizeCrashLog(
+            this.symbolizer,
+            log,
+            await this.#getProject(configuration),
+        );
+        this.#buildStackFrames();
+
+        this.#sendEvent("output", {
+            category: "console",
+            output: `${log.kind} crash: ${log.title}\n${log.details
+                .map((detail) => `${detail}\n`)
+                .join("")}`,
+        });
+    }
+
+    /**
+     * Finds the project to symbolize the crash with, asking the user if it isn't specified or obvious.
+     */
+    async #getProject(
+        configuration: PostMortemDebugConfiguration,
+    ): Promise<Project> {
+        if (configuration.projectDir) {
+            const uri = this.#resolvePath(configuration.projectDir);
+            const projects = await this.symbolizer.projects.findProjects();
+            const project = projects.find(
+                (project) => project.uri.toString() === uri.toString(),
+            );
+            if (!project) {
+                throw new Error(
+                    `${uri.fsPath} isn't a PROS, VEXcode or vexide project in this workspace.`,
+                );
+            }
+            return project;
+        }
+
+        const project = await this.symbolizer.getActiveProject();
+        if (!project) {
+            throw new Error(
+                "No project was chosen to symbolize the crash with.",
+            );
+        }
+        return project;
+    }
+
+    /**
+     * Resolves a path from the debug configuration, which may be relative to the workspace folder.
+     */
+    #resolvePath(configPath: string) {
+        if (path.isAbsolute(configPath)) {
+            return vscode.Uri.file(configPath);
+        }
+        if (!this.folder) {
+            throw new Error(
+                `"${configPath}" can't be found without a workspace folder.`,
+            );
+        }
+        return vscode.Uri.joinPath(this.folder.uri, configPath);
+    }
+
+    #buildStackFrames() {
+        const lineOffset = this.#linesStartAt1 ? 1 : 0;
+        const columnOffset = this.#columnsStartAt1 ? 1 : 0;
+
+        for (const symbolized of this.#frames) {
+            const { frame, resolved, error } = symbolized;
+            if (!resolved) {
+                this.#addStackFrame(symbolized, {
+                    name: `${frame.address} (${error ?? "unknown"})`,
+                    line: 0,
+                    column: 0,
+                    instructionPointerReference: frame.address,
+                    presentationHint: "subtle",
+                });
+                continue;
+            }
+
+            // Inlined functions don't have frames of their own at runtime, but they're still useful to step through.
+            for (const [index, inlined] of resolved.inlinedFrames.entries()) {
+                const location = inlined.sourceLocation;
+                const isInlined = index < resolved.inlinedFrames.length - 1;
+                this.#addStackFrame(symbolized, {
+                    name: isInlined
+                        ? `${inlined.symbolName} (inlined)`
+                        : inlined.symbolName,
+                    source: location && toProtocolSource(location.uri),
+                    line: location ? location.position.line + lineOffset : 0,
+                    column: location
+                        ? location.position.character + columnOffset
+                        : 0,
+                    instructionPointerReference: frame.address,
+                    presentationHint: location ? "normal" : "subtle",
+                });
+            }
+        }
+    }
+
+    #addStackFrame(
+        origin: SymbolizedFrame,
+        frame: Omit<ProtocolStackFrame, "id">,
+    ) {
+        this.#stackFrames.push({ id: this.#stackFrames.length, ...frame });
+        this.#stackFrameOrigins.push(origin);
+    }
+
+    #getScopes(frameId: number) {
+        const scopes = [
+            {
+                name: "Frame",
+                variablesReference: FRAME_REFERENCE_BASE + frameId,
+                expensive: false,
+            },
+        ];
+
+        // Registers were saved when the program crashed, so they only describe the innermost frame.
+        const isTopFrame = this.#stackFrameOrigins[frameId] === this.#frames[0];
+        if (isTopFrame && this.#log && this.#log.registers.size > 0) {
+            scopes.unshift({
+                name: "Registers",
+                variablesReference: REGISTERS_REFERENCE,
+                expensive: false,
+            });
+        }
+
+        return scopes;
+    }
+
+    #getVariables(reference: number): ProtocolVariable[] {
+        const variable = (name: string, value: string): ProtocolVariable => ({
+            name,
+            value,
+            variablesReference: 0,
+        });
+
+        if (reference === REGISTERS_REFERENCE) {
+            return Array.from(this.#log?.registers ?? [], ([name, value]) =>
+                variable(name, value),
+            );
+        }
+
+        const origin =
+            this.#stackFrameOrigins[reference - FRAME_REFERENCE_BASE];
+        if (!origin) {
+            return [];
+        }
+
+        const variables = [
+            variable("address", origin.frame.address),
+            variable("source", origin.frame.label),
+        ];
+        if (origin.resolved) {
+            variables.push(
+                variable(
+                    "code object",
+                    path.basename(origin.resolved.codeObject.fsPath),
+                ),
+            );
+        }
+        if (origin.error) {
+            variables.push(variable("error", origin.error));
+        }
+        return variables;
+    }
+
+    #getTaskName() {
+        const task = this.#log?.details.find((detail) =>
+            /^CURRENT TASK/i.test(detail),
+        );
+        return task?.replace(/^CURRENT TASK:\s*/i, "");
+    }
+
+    #respond(
+        request: ProtocolRequest,
+        body?: Record<string, unknown>,
+        error?: unknown,
+    ) {
+        this.#onDidSendMessage.fire({
+            seq: this.#seq++,
+            type: "response",
+            request_seq: request.seq,
+            command: request.command,
+            success: error === undefined,
+            message:
+                error === undefined
+                    ? undefined
+                    : error instanceof Error
+                      ? error.message
+                      : String(error),
+            body,
+        });
+    }
+
+    #sendEvent(event: string, body?: Record<string, unknown>) {
+        this.#onDidSendMessage.fire({
+            seq: this.#seq++,
+            type: "event",
+            event,
+            body,
+        });
+    }
+}
+
+/**
+ * Starts post-mortem debug sessions inside the extension host.
+ */
+export class PostMortemDebugAdapterFactory
+    implements vscode.DebugAdapterDescriptorFactory
+{
+    constructor(public symbolizer: Symbolizer) {}
+
+    createDebugAdapterDescriptor(
+        session: vscode.DebugSession,
+    ): vscode.ProviderResult<vscode.DebugAdapterDescriptor> {
+        return new vscode.DebugAdapterInlineImplementation(
+            new PostMortemDebugSession(
+                this.symbolizer,
+                session.workspaceFolder,
+            ),
+        );
+    }
+}
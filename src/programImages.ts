@@ -0,0 +1,18 @@
+import * as vscode from "vscode";
+import { AddressRange } from "./core/dwarf.js";
+
+export { imageContains } from "./core/programImages.js";
+
+/**
+ * The parts of a code object which contain code once it is loaded onto the brain.
+ */
+export interface ProgramImage {
+    /**
+     * The code object the image was read from.
+     */
+    codeObject: vscode.Uri;
+    /**
+     * The address ranges of the code object's executable sections, such as `.text` and `.init`.
+     */
+    ranges: AddressRange[];
+}
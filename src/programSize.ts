@@ -0,0 +1,491 @@
+import * as vscode from "vscode";
+import * as path from "node:path";
+import { inspect } from "node:util";
+import { Symbolizer } from "./symbolization.js";
+import { ElfFile, SHF_ALLOC, SHT_NOBITS, STT_FUNC } from "./core/elf.js";
+import { DwarfInfo } from "./core/dwarf.js";
+import { demangleElfSymbolName } from "./core/demangling.js";
+import { Project } from "./projects.js";
+import { output } from "./logs.js";
+
+/**
+ * Something which takes up space in a program, like a section, a source file or a function.
+ */
+export interface SizeEntry {
+    name: string;
+    /**
+     * The size in bytes.
+     */
+    size: number;
+    /**
+     * The address of the entry, for functions.
+     */
+    address?: number;
+    /**
+     * Extra information to show in the entry's tooltip, such as the full path of a source file.
+     */
+    detail?: string;
+    /**
+     * Whether the entry is part of the uploaded program. Sections like `.bss` take up memory on the
+     * brain but aren't stored in the file.
+     */
+    uploaded: boolean;
+}
+
+/**
+ * The sizes of everything in one build of a code object.
+ */
+export interface SizeBreakdown {
+    /**
+     * When the code object was built, as its modification time.
+     */
+    builtAt: number;
+    sections: SizeEntry[];
+    files: SizeEntry[];
+    functions: SizeEntry[];
+}
+
+type SizeCategory = "sections" | "files" | "functions";
+type SortOrder = "size" | "name" | "change";
+
+const CATEGORY_LABELS: Record<SizeCategory, string> = {
+    sections: "Sections",
+    files: "Source Files and Crates",
+    functions: "Functions",
+};
+
+const CATEGORY_ICONS: Record<SizeCategory, string> = {
+    sections: "symbol-namespace",
+    files: "file-code",
+    functions: "symbol-function",
+};
+
+/**
+ * Finds the crate which a Rust source file belongs to, using the places Cargo and rustup keep them.
+ * @param file the full path of the source file
+ * @returns the crate's name, or undefined if the file isn't in a dependency
+ */
+function getCrateName(file: string): string | undefined {
+    const normalized = file.replaceAll("\\", "/");
+    const match =
+        // The standard library, like `/rustc/<commit>/library/core/src/fmt/mod.rs`.
+        /\/rustc\/[0-9a-f]+\/library\/([^/]+)\//.exec(normalized) ??
+        // Crates from a registry, like `.cargo/registry/src/index.crates.io-<hash>/libm-0.2.8/src/lib.rs`.
+        /\/\.cargo\/registry\/src\/[^/]+\/([^/]+)\//.exec(normalized) ??
+        // Workspace members of git dependencies, like vexide's `packages/vexide-core/`.
+        /\/\.cargo\/git\/checkouts\/[^/]+\/[^/]+\/packages\/([^/]+)\//.exec(
+            normalized,
+        ) ??
+        /\/\.cargo\/git\/checkouts\/([^/]+)-[0-9a-f]+\//.exec(normalized);
+    return match?.[1];
+}
+
+/**
+ * Measures a code object's sections and functions, and attributes each function to the source file or
+ * crate it's defined in.
+ * @param elf the code object
+ * @param dwarf the code object's debugging information, if it has any
+ * @param builtAt when the code object was built
+ * @param project the project the code object belongs to, which source paths are shown relative to
+ * @param showRustSymbolHashes whether to keep the hashes at the end of Rust symbol names
+ * @returns the breakdown
+ */
+export function measureCodeObject(
+    elf: ElfFile,
+    dwarf: DwarfInfo | undefined,
+    builtAt: number,
+    project: Project,
+    showRustSymbolHashes = false,
+): SizeBreakdown {
+    const sections = elf.sections
+        .filter((section) => section.flags & SHF_ALLOC && section.size > 0)
+        .map((section) => ({
+            name: section.name,
+            size: section.size,
+            address: section.address,
+            uploaded: section.type !== SHT_NOBITS,
+        }));
+
+    // Aliases share an address, so only the first symbol at each address is counted.
+    const functions = new Map<number, SizeEntry>();
+    const files = new Map<string, SizeEntry>();
+    for (const symbol of elf.symbols) {
+        if (symbol.type !== STT_FUNC || symbol.size === 0) {
+            continue;
+        }
+
+        // Thumb functions have the lowest bit of their address set.
+        const address = symbol.value & ~1;
+        if (functions.has(address)) {
+            continue;
+        }
+
+        const name = demangleElfSymbolName(symbol.name, showRustSymbolHashes);
+        const file = dwarf?.findLine(address)?.file;
+        functions.set(address, {
+            name,
+            size: symbol.size,
+            address,
+            detail: file,
+            uploaded: true,
+        });
+
+        let group: string;
+        let detail: string | undefined;
+        if (file) {
+            const crate = getCrateName(file);
+            const relative = path.relative(project.uri.fsPath, file);
+            group = crate
+                ? `${crate} (crate)`
+                : !relative.startsWith("..") && !path.isAbsolute(relative)
+                  ? relative
+                  : file;
+            detail = crate ? undefined : file;
+        } else {
+            // Without debugging information, Rust functions can still be grouped by the crate in their name.
+            const crate = /^<?([A-Za-z_][A-Za-z0-9_]*)::/.exec(name)?.[1];
+            group = crate ? `${crate} (crate)` : "Unknown source";
+        }
+
+        const entry = files.get(group) ?? {
+            name: group,
+            size: 0,
+            detail,
+            uploaded: true,
+        };
+        entry.size += symbol.size;
+        files.set(group, entry);
+    }
+
+    return {
+        builtAt,
+        sections,
+        files: Array.from(files.values()),
+        functions: Array.from(functions.values()),
+    };
+}
+
+/**
+ * Formats a number of bytes like `812 B` or `14.2 KiB`.
+ * @param bytes the number of bytes, which may be negative
+ * @param signed whether to add a `+` before positive numbers
+ */
+function formatSize(bytes: number, signed = false): string {
+    const sign = bytes < 0 ? "-" : signed ? "+" : "";
+    const magnitude = Math.abs(bytes);
+    if (magnitude < 1024) {
+        return `${sign}${magnitude} B`;
+    }
+    if (magnitude < 1024 * 1024) {
+        return `${sign}${(magnitude / 1024).toFixed(1)} KiB`;
+    }
+    return `${sign}${(magnitude / 1024 / 1024).toFixed(2)} MiB`;
+}
+
+/**
+ * A row in the Program Size view.
+ */
+export type ProgramSizeNode =
+    | { kind: "category"; category: SizeCategory }
+    | {
+          kind: "entry";
+          category: SizeCategory;
+          entry: SizeEntry;
+          /**
+           * The size in the previous build, or undefined if there's nothing to compare with. Entries
+           * which are new in this build have a previous size of 0.
+           */
+          previousSize?: number;
+      };
+
+/**
+ * The breakdowns which have been saved for a code object.
+ */
+interface SavedBreakdowns {
+    current: SizeBreakdown;
+    previous?: SizeBreakdown;
+}
+
+/**
+ * Shows what takes up space in a project's most recently built code object, compared with the build
+ * before it.
+ */
+export class ProgramSizeProvider
+    implements vscode.TreeDataProvider<ProgramSizeNode>, vscode.Disposable
+{
+    static readonly viewId = "symbolizer-for-vex-v5.program-size";
+
+    readonly #onDidChangeTreeData = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this.#onDidChangeTreeData.event;
+
+    readonly #view: vscode.TreeView<ProgramSizeNode>;
+    #codeObject: vscode.Uri | undefined;
+    #project: Project | undefined;
+    #breakdowns: SavedBreakdowns | undefined;
+    #sortOrder: SortOrder = "size";
+    #fileWatcher: vscode.FileSystemWatcher | undefined;
+
+    constructor(
+        public symbolizer: Symbolizer,
+        /**
+         * Where breakdowns are saved so that the next build can be compared with them.
+         */
+        public storage: vscode.Memento,
+    ) {
+        this.#view = vscode.window.createTreeView(ProgramSizeProvider.viewId, {
+            treeDataProvider: this,
+            showCollapseAll: true,
+        });
+    }
+
+    /**
+     * Measures the most recently built code object in a project and shows it in the view.
+     * @param project the project to measure
+     */
+    async showProgramSize(project: Project) {
+        const [codeObject] = await this.symbolizer.locateCodeObjects(project);
+        if (!codeObject) {
+            throw new Error("No code objects were found in this project");
+        }
+
+        this.#project = project;
+        if (this.#codeObject?.toString() !== codeObject.toString()) {
+            this.#codeObject = codeObject;
+            this.#watch(codeObject);
+        }
+        await this.refresh();
+        await vscode.commands.executeCommand(
+            `${ProgramSizeProvider.viewId}.focus`,
+        );
+    }
+
+    /**
+     * Measures the code object in the view again, such as after it's rebuilt. The build that was shown
+     * before becomes the one the new build is compared with.
+     */
+    async refresh() {
+        const codeObject = this.#codeObject;
+        const project = this.#project;
+        if (!codeObject || !project) {
+            return;
+        }
+
+        const { mtime } = await vscode.workspace.fs.stat(codeObject);
+        const key = `programSize:${codeObject.toString()}`;
+        const saved = this.storage.get<SavedBreakdowns>(key);
+
+        if (saved?.current.builtAt === mtime) {
+            this.#breakdowns = saved;
+        } else {
+            output.appendLine(`Measuring the size of ${codeObject.fsPath}`);
+            const elf = ElfFile.parse(
+                await vscode.workspace.fs.readFile(codeObject),
+            );
+            const current = measureCodeObject(
+                elf,
+                DwarfInfo.fromElf(elf),
+                mtime,
+                project,
+                this.symbolizer.showRustSymbolHashes,
+            );
+            this.#breakdowns = { current, previous: saved?.current };
+            await this.storage.update(key, this.#breakdowns);
+        }
+
+        const uploaded = this.#breakdowns.current.sections
+            .filter((section) => section.uploaded)
+            .reduce((total, section) => total + section.size, 0);
+        const previous = this.#breakdowns.previous?.sections
+            .filter((section) => section.uploaded)
+            .reduce((total, section) => total + section.size, 0);
+        const change =
+            previous === undefined || previous === uploaded
+                ? ""
+                : ` (${formatSize(uploaded - previous, true)})`;
+        this.#view.description = `${path.basename(codeObject.path)}: ${formatSize(uploaded)}${change}`;
+        this.#onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Asks the user how the entries in the view should be sorted.
+     */
+    async chooseSortOrder() {
+        const orders: { label: string; order: SortOrder }[] = [
+            { label: "Largest First", order: "size" },
+            { label: "Name", order: "name" },
+            { label: "Largest Change First", order: "change" },
+        ];
+        const picked = await vscode.window.showQuickPick(
+            orders.map((item) => ({
+                ...item,
+                description:
+                    item.order === this.#sortOrder ? "Current" : undefined,
+            })),
+            { title: "Sort Program Size By" },
+        );
+        if (picked) {
+            this.#sortOrder = picked.order;
+            this.#onDidChangeTreeData.fire();
+        }
+    }
+
+    /**
+     * Shows the disassembly of a function in the view.
+     * @param node the function's row
+     */
+    async showDisassembly(node: ProgramSizeNode) {
+        if (node.kind !== "entry" || node.entry.address === undefined) {
+            return;
+        }
+        await vscode.commands.executeCommand(
+            "symbolizer-for-vex-v5.show-disassembly",
+            `0x${node.entry.address.toString(16)}`,
+            this.#project,
+        );
+    }
+
+    getChildren(node?: ProgramSizeNode): ProgramSizeNode[] {
+        const breakdowns = this.#breakdowns;
+        if (!breakdowns) {
+            return [];
+        }
+        if (!node) {
+            return (["sections", "files", "functions"] as const).map(
+                (category) => ({ kind: "category", category }),
+            );
+        }
+        if (node.kind !== "category") {
+            return [];
+        }
+
+        const { category } = node;
+        const current = breakdowns.current[category];
+        const previous = breakdowns.previous?.[category];
+        const previousSizes = new Map(
+            previous?.map((entry) => [entry.name, entry.size]),
+        );
+
+        const nodes: ProgramSizeNode[] = current.map((entry) => ({
+            kind: "entry",
+            category,
+            entry,
+            previousSize: previous && (previousSizes.get(entry.name) ?? 0),
+        }));
+
+        // Entries which were removed since the previous build are kept so the change is visible.
+        const currentNames = new Set(current.map((entry) => entry.name));
+        for (const entry of previous ?? []) {
+            if (!currentNames.has(entry.name)) {
+                nodes.push({
+                    kind: "entry",
+                    category,
+                    entry: { ...entry, size: 0, address: undefined },
+                    previousSize: entry.size,
+                });
+            }
+        }
+
+        return nodes.sort((a, b) => this.#compare(a, b));
+    }
+
+    getTreeItem(node: ProgramSizeNode): vscode.TreeItem {
+        if (node.kind === "category") {
+            const entries = this.#breakdowns?.current[node.category] ?? [];
+            const item = new vscode.TreeItem(
+                CATEGORY_LABELS[node.category],
+                node.category === "functions"
+                    ? vscode.TreeItemCollapsibleState.Collapsed
+                    : vscode.TreeItemCollapsibleState.Expanded,
+            );
+            item.description = `${entries.length}`;
+            item.iconPath = new vscode.ThemeIcon(CATEGORY_ICONS[node.category]);
+            return item;
+        }
+
+        const { entry, previousSize } = node;
+        const item = new vscode.TreeItem(entry.name);
+        const descriptions = [formatSize(entry.size)];
+        if (previousSize !== undefined && previousSize !== entry.size) {
+            descriptions.push(
+                previousSize === 0
+                    ? "new"
+                    : entry.size === 0
+                      ? "removed"
+                      : formatSize(entry.size - previousSize, true),
+            );
+        }
+        if (!entry.uploaded) {
+            descriptions.push("not uploaded");
+        }
+        item.description = descriptions.join(" · ");
+
+        const tooltip = [`${entry.name}: ${entry.size} bytes`];
+        if (previousSize !== undefined) {
+            tooltip.push(`Previous build: ${previousSize} bytes`);
+        }
+        if (entry.address !== undefined) {
+            tooltip.push(`Address: 0x${entry.address.toString(16)}`);
+        }
+        if (entry.detail) {
+            tooltip.push(entry.detail);
+        }
+        item.tooltip = tooltip.join("\n");
+
+        if (node.category === "functions" && entry.address !== undefined) {
+            item.contextValue = "function";
+            item.command = {
+                title: "Show Disassembly",
+                command: "symbolizer-for-vex-v5.program-size.show-disassembly",
+                arguments: [node],
+            };
+        }
+        return item;
+    }
+
+    dispose() {
+        this.#fileWatcher?.dispose();
+        this.#view.dispose();
+        this.#onDidChangeTreeData.dispose();
+    }
+
+    /**
+     * Measures the code object again whenever it's rebuilt, so that each build is compared with the
+     * one before it even if the view wasn't refreshed in between.
+     */
+    #watch(codeObject: vscode.Uri) {
+        this.#fileWatcher?.dispose();
+        this.#fileWatcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(
+                vscode.Uri.joinPath(codeObject, ".."),
+                path.basename(codeObject.path),
+            ),
+        );
+        const onChange = () =>
+            this.refresh().catch((err) =>
+                output.appendLine(
+                    `Couldn't measure the size of ${codeObject.fsPath}: ${inspect(err)}`,
+                ),
+            );
+        this.#fileWatcher.onDidChange(onChange);
+        this.#fileWatcher.onDidCreate(onChange);
+    }
+
+    #compare(a: ProgramSizeNode, b: ProgramSizeNode): number {
+        if (a.kind !== "entry" || b.kind !== "entry") {
+            return 0;
+        }
+
+        const byName = a.entry.name.localeCompare(b.entry.name);
+        if (this.#sortOrder === "name") {
+            return byName;
+        }
+        if (this.#sortOrder === "change") {
+            const change = (node: typeof a) =>
+                Math.abs(
+                    node.entry.size - (node.previousSize ?? node.entry.size),
+                );
+            return change(b) - change(a) || byName;
+        }
+        return b.entry.size - a.entry.size || byName;
+    }
+}
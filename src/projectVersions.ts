@@ -0,0 +1,137 @@
+import * as vscode from "vscode";
+import { inspect } from "node:util";
+import { Project } from "./projects.js";
+import { output } from "./logs.js";
+
+/**
+ * A package which Cargo has locked to an exact version in `Cargo.lock`.
+ */
+export interface LockedPackage {
+    name: string;
+    version: string;
+    /**
+     * Where the package comes from, such as `registry+https://github.com/rust-lang/crates.io-index` or
+     * `git+https://github.com/vexide/vexide?branch=main#<commit>`. Packages in the project's own
+     * workspace don't have a source.
+     */
+    source?: string;
+}
+
+/**
+ * Parses the packages out of a `Cargo.lock` file. Only the simple `key = "value"` fields are read.
+ * @param text the contents of the file
+ * @returns the packages
+ */
+function parseCargoLock(text: string): LockedPackage[] {
+    const packages: LockedPackage[] = [];
+    for (const block of text.split(/^\[\[package\]\]\s*$/m).slice(1)) {
+        const fields = new Map<string, string>();
+        for (const match of block.matchAll(/^(\w+)\s*=\s*"([^"]*)"\s*$/gm)) {
+            fields.set(match[1], match[2]);
+        }
+
+        const name = fields.get("name");
+        const version = fields.get("version");
+        if (name && version) {
+            packages.push({ name, version, source: fields.get("source") });
+        }
+    }
+    return packages;
+}
+
+/**
+ * Reads the exact versions of the frameworks a project was built with, reusing the previous result
+ * until the file they come from changes.
+ */
+export class ProjectVersionReader {
+    #files = new Map<string, { mtime: number; value: unknown }>();
+
+    /**
+     * Gets the version of the PROS kernel which a project uses.
+     * @param project the project to check
+     * @returns the version, such as `4.1.0`, or undefined if it isn't a PROS project
+     */
+    async getKernelVersion(project: Project): Promise<string | undefined> {
+        const state = await this.#read(
+            vscode.Uri.joinPath(project.uri, "project.pros"),
+            (text) => JSON.parse(text)?.["py/state"],
+        );
+        const version = state?.templates?.kernel?.version;
+        return typeof version === "string" ? version : undefined;
+    }
+
+    /**
+     * Gets the version of a package which Cargo locked for a project. The lockfile is searched for in
+     * the project and the directories above it, up to the workspace folder, since it belongs to the
+     * Cargo workspace.
+     * @param project the project to check
+     * @param name the name of the package
+     * @returns the package, or undefined if there isn't a lockfile or it doesn't have the package
+     */
+    async getLockedPackage(
+        project: Project,
+        name: string,
+    ): Promise<LockedPackage | undefined> {
+        let directory = project.uri;
+        for (;;) {
+            const packages = await this.#read(
+                vscode.Uri.joinPath(directory, "Cargo.lock"),
+                parseCargoLock,
+            );
+            if (packages) {
+                return packages.find((locked) => locked.name === name);
+            }
+
+            const parent = vscode.Uri.joinPath(directory, "..");
+            if (
+                directory.path === project.workspaceFolder.uri.path ||
+                parent.path === directory.path
+            ) {
+                return undefined;
+            }
+            directory = parent;
+        }
+    }
+
+    /**
+     * Forgets every file which has been read.
+     */
+    clear() {
+        this.#files.clear();
+    }
+
+    /**
+     * Reads and parses a file, or reuses the previous result if it hasn't changed.
+     * @returns the parsed file, or undefined if it doesn't exist or couldn't be parsed
+     */
+    async #read<T>(
+        uri: vscode.Uri,
+        parse: (text: string) => T,
+    ): Promise<T | undefined> {
+        let mtime: number;
+        try {
+            ({ mtime } = await vscode.workspace.fs.stat(uri));
+        } catch {
+            return undefined;
+        }
+
+        const key = uri.toString();
+        const cached = this.#files.get(key);
+        if (cached && cached.mtime === mtime) {
+            return cached.value as T | undefined;
+        }
+
+        let value: T | undefined;
+        try {
+            value = parse(
+                new TextDecoder().decode(
+                    await vscode.workspace.fs.readFile(uri),
+                ),
+            );
+        } catch (err) {
+            output.appendLine(`Couldn't read ${uri.fsPath}: ${inspect(err)}`);
+        }
+        this.#files.set(key, { mtime, value });
+        return value;
+    }
+}
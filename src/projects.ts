@@ -0,0 +1,302 @@
+import * as vscode from "vscode";
+import * as path from "node:path";
+import { inspect } from "node:util";
+import { output } from "./logs.js";
+
+/**
+ * The framework a robot project is built with, or `Folder` for a workspace folder which doesn't contain
+ * any recognizable projects.
+ */
+export type ProjectKind = "PROS" | "VEXcode" | "vexide" | "Folder";
+
+/**
+ * A robot project somewhere in the workspace.
+ */
+export interface Project {
+    /**
+     * The root directory of the project, which code objects are searched for in.
+     */
+    uri: vscode.Uri;
+    /**
+     * A short name for the project, such as its path relative to the workspace folder.
+     */
+    name: string;
+    kind: ProjectKind;
+    /**
+     * The workspace folder which contains the project.
+     */
+    workspaceFolder: vscode.WorkspaceFolder;
+}
+
+/**
+ * Files whose presence marks the root of a project.
+ */
+const PROJECT_MARKERS = "**/{project.pros,Cargo.toml,makefile,Makefile}";
+/**
+ * Directories which never contain project roots, but can contain a lot of files.
+ */
+const EXCLUDED_DIRECTORIES = "**/{node_modules,target,bin,build,.git}/**";
+
+/**
+ * Works out which kind of project a marker file belongs to.
+ * @param marker a file matching {@link PROJECT_MARKERS}
+ * @returns the kind of project, or undefined if the file doesn't mark a robot project
+ */
+async function getProjectKind(
+    marker: vscode.Uri,
+): Promise<ProjectKind | undefined> {
+    const directory = vscode.Uri.joinPath(marker, "..");
+    switch (path.basename(marker.path)) {
+        case "project.pros":
+            return "PROS";
+        case "Cargo.toml": {
+            const manifest = new TextDecoder().decode(
+                await vscode.workspace.fs.readFile(marker),
+            );
+            return /\bvexide\b/.test(manifest) ? "vexide" : undefined;
+        }
+        default:
+            // PROS projects have makefiles too, but VEXcode is the only one with a `vex/` directory.
+            try {
+                const { type } = await vscode.workspace.fs.stat(
+                    vscode.Uri.joinPath(directory, "vex"),
+                );
+                return type & vscode.FileType.Directory ? "VEXcode" : undefined;
+            } catch {
+                return undefined;
+            }
+    }
+}
+
+/**
+ * Gets the working directory of a terminal, if it's known.
+ */
+function getTerminalCwd(terminal: vscode.Terminal): vscode.Uri | undefined {
+    const cwd =
+        terminal.shellIntegration?.cwd ??
+        ("cwd" in terminal.creationOptions
+            ? terminal.creationOptions.cwd
+            : undefined);
+    return typeof cwd === "string" ? vscode.Uri.file(cwd) : cwd;
+}
+
+/**
+ * Finds the robot projects in every workspace folder and decides which one the user is working on.
+ */
+export class ProjectDiscovery implements vscode.Disposable {
+    #projects: Promise<Project[]> | undefined;
+    /**
+     * The project the user chose for each terminal, keyed by the project's URI.
+     */
+    #terminalChoices = new Map<vscode.Terminal, string>();
+    #disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        const watcher =
+            vscode.workspace.createFileSystemWatcher(PROJECT_MARKERS);
+        const forget = () => (this.#projects = undefined);
+        this.#disposables.push(
+            watcher,
+            watcher.onDidCreate(forget),
+            watcher.onDidDelete(forget),
+            vscode.workspace.onDidChangeWorkspaceFolders(forget),
+            vscode.window.onDidCloseTerminal((terminal) =>
+                this.#terminalChoices.delete(terminal),
+            ),
+        );
+    }
+
+    /**
+     * Finds every project in the workspace. Workspace folders without any recognizable projects are
+     * treated as projects themselves.
+     * @returns the projects
+     */
+    findProjects(): Promise<Project[]> {
+        this.#projects ??= this.#discover().catch((err) => {
+            this.#projects = undefined;
+            throw err;
+        });
+        return this.#projects;
+    }
+
+    /**
+     * Decides which project the user is working on, asking them if it isn't clear.
+     * @param terminal the terminal which printed the address being symbolized, if there is one
+     * @param canPick whether the user can be asked to choose a project
+     * @returns the project, or undefined if there are no projects, the user dismissed the prompt, or it
+     * isn't clear and `canPick` is false
+     */
+    async getActiveProject(
+        terminal?: vscode.Terminal,
+        canPick = true,
+    ): Promise<Project | undefined> {
+        const projects = await this.findProjects();
+        if (projects.length <= 1) {
+            return projects[0];
+        }
+
+        if (terminal) {
+            const choice = this.#terminalChoices.get(terminal);
+            const chosen = projects.find(
+                (project) => project.uri.toString() === choice,
+            );
+            if (chosen) {
+                return chosen;
+            }
+        }
+
+        // A terminal's output comes from the project it's running in, which may not be the open file's.
+        const hint = terminal
+            ? getTerminalCwd(terminal)
+            : vscode.window.activeTextEditor?.document.uri;
+        const containing = hint && this.#findContainingProject(projects, hint);
+        if (containing) {
+            return containing;
+        }
+
+        if (!canPick) {
+            return undefined;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            projects.map((project) => ({
+                label: project.name,
+                description: project.kind,
+                detail: project.uri.fsPath,
+                project,
+            })),
+            {
+                title: "Choose a Project",
+                placeHolder: terminal
+                    ? `Which project is running in "${terminal.name}"?`
+                    : "Which project should be used to symbolize this address?",
+                matchOnDetail: true,
+            },
+        );
+        if (picked && terminal) {
+            this.#terminalChoices.set(terminal, picked.project.uri.toString());
+        }
+        return picked?.project;
+    }
+
+    /**
+     * Gets the project which contains a file or directory. A directory which isn't inside any project
+     * is treated as a project itself.
+     * @param uri the file or directory
+     * @returns the project
+     */
+    async getProject(uri: vscode.Uri): Promise<Project> {
+        const projects = await this.findProjects();
+        const containing = this.#findContainingProject(projects, uri);
+        if (containing) {
+            return containing;
+        }
+
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+        if (!workspaceFolder) {
+            throw new Error(`${uri.fsPath} isn't in any workspace folder`);
+        }
+        return {
+            uri,
+            name:
+                path.posix.relative(workspaceFolder.uri.path, uri.path) ||
+                workspaceFolder.name,
+            kind: "Folder",
+            workspaceFolder,
+        };
+    }
+
+    dispose() {
+        for (const disposable of this.#disposables) {
+            disposable.dispose();
+        }
+        this.#terminalChoices.clear();
+    }
+
+    /**
+     * Finds the innermost project which contains a file or directory.
+     */
+    #findContainingProject(projects: Project[], uri: vscode.Uri) {
+        return projects
+            .filter((project) => {
+                const relative = path.posix.relative(
+                    project.uri.path,
+                    uri.path,
+                );
+                return (
+                    project.uri.scheme === uri.scheme &&
+                    !relative.startsWith("..") &&
+                    !path.posix.isAbsolute(relative)
+                );
+            })
+            .sort((a, b) => b.uri.path.length - a.uri.path.length)[0];
+    }
+
+    async #discover(): Promise<Project[]> {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        const projects: Project[] = [];
+
+        for (const folder of folders) {
+            const markers = await vscode.workspace.findFiles(
+                new vscode.RelativePattern(folder, PROJECT_MARKERS),
+                new vscode.RelativePattern(folder, EXCLUDED_DIRECTORIES),
+            );
+
+            const found = new Map<string, Project>();
+            for (const marker of markers) {
+                let kind: ProjectKind | undefined;
+                try {
+                    kind = await getProjectKind(marker);
+                } catch (err) {
+                    output.appendLine(
+                        `Couldn't check ${marker.fsPath} for a project: ${inspect(err)}`,
+                    );
+                }
+                if (!kind) {
+                    continue;
+                }
+
+                const uri = vscode.Uri.joinPath(marker, "..");
+                const existing = found.get(uri.toString());
+                // PROS projects also have makefiles, so `project.pros` always wins.
+                if (existing && existing.kind === "PROS") {
+                    continue;
+                }
+
+                const relative = path.posix.relative(folder.uri.path, uri.path);
+                const name =
+                    folders.length > 1
+                        ? path.posix.join(folder.name, relative)
+                        : relative || folder.name;
+                found.set(uri.toString(), {
+                    uri,
+                    name,
+                    kind,
+                    workspaceFolder: folder,
+                });
+            }
+
+            if (found.size === 0) {
+                projects.push({
+                    uri: folder.uri,
+                    name: folder.name,
+                    kind: "Folder",
+                    workspaceFolder: folder,
+                });
+            } else {
+                projects.push(
+                    ...Array.from(found.values()).sort((a, b) =>
+                        a.name.localeCompare(b.name),
+                    ),
+                );
+            }
+        }
+
+        output.appendLine(
+            `Found these projects: ${projects
+                .map((project) => `${project.name} (${project.kind})`)
+                .join(", ")}`,
+        );
+        return projects;
+    }
+}
@@ -1,192 +1,214 @@
 import * as vscode from "vscode";
 import {
     CodeObjectReader,
+    ResolvedFrame,
     ResolvedLocation,
     ResolvedSymbol,
 } from "./symbolization.js";
-import { promisify } from "node:util";
-import { execFile as execFileCb } from "node:child_process";
-import { EOL } from "node:os";
-import { output } from "./logs.js";
-
-const execFile = promisify(execFileCb);
+import * as core from "./core/readers.js";
+import * as coreTypes from "./core/types.js";
 
 /**
- * Reads code objects using an addr2line-style symbolizer.
+ * Gets the value of a settled result, or throws its error.
  */
-export class GNUBinutilsCodeObjectReader implements CodeObjectReader {
-    constructor(
-        public readonly name = "GNU Binutils",
-        /**
-         * The name or path of the executable to spawn.
-         */
-        public readonly executable = "addr2line",
-    ) {}
-
-    async isWorking(): Promise<boolean> {
-        output.appendLine(
-            `Checking addr2line named ${this.name} (${this.executable})`,
-        );
-        try {
-            await execFile(this.executable, ["--version"]);
-            return true;
-        } catch {
-            return false;
-        }
+function unwrapSettled<T>(result: PromiseSettledResult<T>): T {
+    if (result.status === "rejected") {
+        throw result.reason;
     }
+    return result.value;
+}
 
-    async resolveToSymbolInObject(
-        address: string,
-        codeObject: vscode.Uri,
-    ): Promise<ResolvedSymbol> {
-        const args = ["-f", "-C", "-e", codeObject.fsPath, "--", address];
-        output.appendLine(
-            `Using ${this.name} install to resolve symbol: ${
-                this.executable
-            } ${args.join(" ")}`,
-        );
-        const { stdout } = await execFile(this.executable, args);
+/**
+ * Converts a location from the core, which uses paths and 1-based numbers, to a location in VS Code.
+ */
+function toResolvedLocation(
+    location: coreTypes.SourceLocation,
+): ResolvedLocation {
+    return {
+        uri: vscode.Uri.file(location.path),
+        position: new vscode.Position(
+            location.line - 1,
+            Math.max(location.column - 1, 0),
+        ),
+    };
+}
 
-        const [symbolName, locationString] = stdout.trim().split(EOL);
-        if (symbolName === "??") {
-            throw new Error("The symbol does not exist");
-        }
+function toResolvedFrame(frame: coreTypes.ResolvedFrame): ResolvedFrame {
+    return {
+        symbolName: frame.symbolName,
+        sourceLocation:
+            frame.sourceLocation && toResolvedLocation(frame.sourceLocation),
+    };
+}
 
-        const sourceLocation = this.resolveLocation(locationString);
+/**
+ * Converts a symbol from the core, which names files by their paths, to a symbol in VS Code.
+ * @param symbol the symbol to convert
+ * @returns the converted symbol
+ */
+export function toResolvedSymbol(
+    symbol: coreTypes.ResolvedSymbol,
+): ResolvedSymbol {
+    return {
+        ...toResolvedFrame(symbol),
+        codeObject: vscode.Uri.file(symbol.codeObject),
+        inlinedFrames: symbol.inlinedFrames.map(toResolvedFrame),
+    };
+}
 
-        return {
-            sourceLocation,
-            symbolName,
-            codeObject,
-        };
-    }
+function toCoreFrame(frame: ResolvedFrame): coreTypes.ResolvedFrame {
+    const location = frame.sourceLocation;
+    return {
+        symbolName: frame.symbolName,
+        sourceLocation: location && {
+            path: location.uri.fsPath,
+            line: location.position.line + 1,
+            column: location.position.character + 1,
+        },
+    };
+}
 
-    resolveLocation(locationString: string): ResolvedLocation | undefined {
-        const lineNumberSplit = locationString.lastIndexOf(":");
-        const path = locationString.substring(0, lineNumberSplit);
-        const lineString = locationString.substring(lineNumberSplit + 1);
-        if (path === "??") {
-            return;
-        }
-
-        const position = new vscode.Position(
-            Number.parseInt(lineString) - 1,
-            0,
-        );
-        return {
-            position,
-            uri: vscode.Uri.file(path),
-        };
-    }
+/**
+ * Lets the core use one of the extension's readers, such as a caching reader or one which another
+ * extension registered. The core names files by their paths, so only local files can be read this way.
+ * @param reader the reader to wrap
+ * @returns the wrapped reader, which doesn't dispose of `reader` because the extension does that
+ */
+export function toCoreReader(
+    reader: CodeObjectReader,
+): coreTypes.CodeObjectReader {
+    return {
+        get name() {
+            return reader.name;
+        },
+        isWorking() {
+            return reader.isWorking();
+        },
+        async resolveToSymbolsInObject(addresses, codeObject) {
+            const results = await reader.resolveToSymbolsInObject(
+                addresses,
+                vscode.Uri.file(codeObject),
+            );
+            return results.map((result) =>
+                result.status === "fulfilled"
+                    ? {
+                          status: "fulfilled",
+                          value: {
+                              ...toCoreFrame(result.value),
+                              codeObject,
+                              inlinedFrames:
+                                  result.value.inlinedFrames.map(toCoreFrame),
+                          },
+                      }
+                    : result,
+            );
+        },
+        dispose() {},
+    };
 }
 
-export class PROSToolchainCodeObjectReader extends GNUBinutilsCodeObjectReader {
-    static #getOperatingSystem() {
-        if (process.platform === "win32") {
-            return "windows";
-        }
-        if (process.platform === "darwin") {
-            return "macos";
-        }
-        return "linux";
+/**
+ * Lets the extension use one of the core's readers, which read code objects by their paths.
+ */
+export class CoreCodeObjectReader implements CodeObjectReader {
+    constructor(public readonly reader: coreTypes.CodeObjectReader) {}
+
+    get name() {
+        return this.reader.name;
     }
 
-    constructor(globalStorageUri: vscode.Uri) {
-        const system = PROSToolchainCodeObjectReader.#getOperatingSystem();
+    isWorking(): Promise<boolean> {
+        return this.reader.isWorking();
+    }
 
-        let toolchainUri = vscode.Uri.joinPath(
-            globalStorageUri,
-            `sigbots.pros/install/pros-toolchain-${system}`,
+    async resolveToSymbolInObject(
+        address: string,
+        codeObject: vscode.Uri,
+    ): Promise<ResolvedSymbol> {
+        const [result] = await this.resolveToSymbolsInObject(
+            [address],
+            codeObject,
         );
-        if (system === "windows") {
-            toolchainUri = vscode.Uri.joinPath(toolchainUri, "usr");
-        }
+        return unwrapSettled(result);
+    }
 
-        const addr2lineUri = vscode.Uri.joinPath(
-            toolchainUri,
-            "bin/arm-none-eabi-addr2line",
+    async resolveToSymbolsInObject(
+        addresses: string[],
+        codeObject: vscode.Uri,
+    ): Promise<PromiseSettledResult<ResolvedSymbol>[]> {
+        const results = await this.reader.resolveToSymbolsInObject(
+            addresses,
+            codeObject.fsPath,
         );
+        return results.map((result) =>
+            result.status === "fulfilled"
+                ? { status: "fulfilled", value: toResolvedSymbol(result.value) }
+                : result,
+        );
+    }
 
-        super("PROS Toolchain", addr2lineUri.fsPath);
+    dispose() {
+        this.reader.dispose();
     }
 }
 
-export class LLVMCodeObjectReader implements CodeObjectReader {
-    constructor(
-        public readonly name = "LLVM",
-        public readonly executable = "llvm-symbolizer",
-    ) {}
+/**
+ * Reads code objects using an addr2line-style symbolizer.
+ */
+export class GNUBinutilsCodeObjectReader extends CoreCodeObjectReader {
+    constructor(name?: string, executable?: string) {
+        super(new core.GNUBinutilsCodeObjectReader(name, executable));
+    }
+}
 
-    async isWorking(): Promise<boolean> {
-        output.appendLine(
-            `Checking llvm-symbolizer named ${this.name} (${this.executable})`,
-        );
-        try {
-            await execFile(this.executable, ["--version"]);
-            return true;
-        } catch {
-            return false;
-        }
+/**
+ * Gets the `bin` directory of the toolchain which the PROS VS Code extension installs.
+ * @param globalStorageUri the directory which contains every extension's global storage
+ * @returns the directory, which may not exist
+ */
+export function getPROSToolchainBinUri(globalStorageUri: vscode.Uri) {
+    let system = "linux";
+    if (process.platform === "win32") {
+        system = "windows";
+    } else if (process.platform === "darwin") {
+        system = "macos";
     }
 
-    async resolveToSymbolInObject(
-        address: string,
-        codeObject: vscode.Uri,
-    ): Promise<ResolvedSymbol> {
-        const args = ["--output-style=JSON", "-e", codeObject.fsPath, address];
-        output.appendLine(
-            `Using ${this.name} install to resolve symbol: ${
-                this.executable
-            } ${args.join(" ")}`,
-        );
-        const { stdout } = await execFile(this.executable, args);
-
-        const entry = JSON.parse(stdout)[0] as LLVMSymbolizerEntry;
-        if (!entry) {
-            throw new Error("No symbolizer entry for this address");
-        }
-        const symbol = entry.Symbol[0];
-        if (!symbol) {
-            throw new Error("No symbol data for this address");
-        }
-        if (!symbol.FunctionName) {
-            throw new Error("The symbol does not exist");
-        }
-
-        return {
-            sourceLocation: this.resolveLocation(symbol),
-            symbolName: symbol.FunctionName,
-            codeObject,
-        };
+    let toolchainUri = vscode.Uri.joinPath(
+        globalStorageUri,
+        `sigbots.pros/install/pros-toolchain-${system}`,
+    );
+    if (system === "windows") {
+        toolchainUri = vscode.Uri.joinPath(toolchainUri, "usr");
     }
+    return vscode.Uri.joinPath(toolchainUri, "bin");
+}
+
+export class PROSToolchainCodeObjectReader extends GNUBinutilsCodeObjectReader {
+    constructor(globalStorageUri: vscode.Uri) {
+        const addr2lineUri = vscode.Uri.joinPath(
+            getPROSToolchainBinUri(globalStorageUri),
+            "arm-none-eabi-addr2line",
+        );
 
-    resolveLocation(
-        symbol: LLVMSymbolizerSymbol,
-    ): ResolvedLocation | undefined {
-        if (!symbol.FileName) {
-            return;
-        }
-
-        return {
-            uri: vscode.Uri.file(symbol.FileName),
-            position: new vscode.Position(symbol.Line - 1, symbol.Column - 1),
-        };
+        super("PROS Toolchain", addr2lineUri.fsPath);
     }
 }
 
-interface LLVMSymbolizerEntry {
-    Address: string;
-    ModuleName: string;
-    Symbol: LLVMSymbolizerSymbol[];
+export class LLVMCodeObjectReader extends CoreCodeObjectReader {
+    constructor(name?: string, executable?: string) {
+        super(new core.LLVMCodeObjectReader(name, executable));
+    }
 }
 
-interface LLVMSymbolizerSymbol {
-    Column: number;
-    Discriminator: number;
-    FileName: string;
-    Line: number;
-    StartAddress: string;
-    StartFileName: string;
-    StartLine: number;
-    FunctionName: string;
+/**
+ * Reads ELF files and their DWARF debugging information directly, without relying on an external tool.
+ *
+ * This is slower and less thorough than the other readers, but it works on machines which don't have a
+ * toolchain installed.
+ */
+export class BuiltinCodeObjectReader extends CoreCodeObjectReader {
+    constructor() {
+        super(new core.BuiltinCodeObjectReader());
+    }
 }
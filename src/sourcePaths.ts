@@ -0,0 +1,591 @@
+import * as vscode from "vscode";
+import * as os from "node:os";
+import * as path from "node:path";
+import { env } from "node:process";
+import { inspect, promisify } from "node:util";
+import { execFile as execFileCb } from "node:child_process";
+import {
+    RemoteSource,
+    ResolvedFrame,
+    ResolvedLocation,
+    ResolvedSymbol,
+} from "./symbolization.js";
+import { Project } from "./projects.js";
+import { ProjectVersionReader } from "./projectVersions.js";
+import { output } from "./logs.js";
+
+const execFile = promisify(execFileCb);
+
+/**
+ * Where a source file from a code object might be found instead of the path written in its debug info.
+ */
+interface SourceMapping {
+    /**
+     * Local files which might contain the source, in order of preference.
+     */
+    candidates: vscode.Uri[];
+    /**
+     * A web page which shows the source.
+     */
+    remote?: RemoteSource;
+}
+
+/**
+ * Describes a kind of source path which needs to be changed before it can be opened.
+ */
+interface SourcePathRule {
+    /**
+     * The name of the rule.
+     */
+    readonly name: string;
+
+    /**
+     * Works out where a source file might be found.
+     * @param sourcePath the path from the code object's debug info, with forward slashes
+     * @param line the zero-based line number in the file
+     * @param project the project which the code object belongs to
+     * @returns the possible locations, or undefined if the rule doesn't apply to the path
+     */
+    map(
+        sourcePath: string,
+        line: number,
+        project: Project,
+    ): Promise<SourceMapping | undefined>;
+}
+
+/**
+ * Creates a link to a line of a file in a GitHub repository.
+ * @param repo the owner and name of the repository, such as `purduesigbots/pros`
+ * @param ref the branch, tag or commit to link to
+ * @param file the path of the file in the repository
+ * @param line the zero-based line number
+ */
+function gitHubSource(
+    repo: string,
+    ref: string,
+    file: string,
+    line: number,
+): RemoteSource {
+    return {
+        name: `Open ${repo}`,
+        uri: vscode.Uri.from({
+            scheme: "https",
+            authority: "www.github.com",
+            path: path.posix.join("/", repo, "blob", ref, file),
+            fragment: `L${line + 1}`,
+        }),
+    };
+}
+
+/**
+ * Checks whether a file exists.
+ */
+async function exists(uri: vscode.Uri) {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Rewrites paths starting with a prefix from the user's settings.
+ */
+export class PrefixSourcePathRule implements SourcePathRule {
+    constructor(
+        /**
+         * The start of the paths to rewrite.
+         */
+        public readonly from: string,
+        /**
+         * What to replace the prefix with: a local directory, which may be relative to the project, or a URL.
+         */
+        public readonly to: string,
+    ) {}
+
+    get name() {
+        return `Custom (${this.from})`;
+    }
+
+    map(
+        sourcePath: string,
+        line: number,
+        project: Project,
+    ): Promise<SourceMapping | undefined> {
+        // Windows paths are compared the same way as the paths from debug info.
+        const from = vscode.Uri.file(this.from).path;
+        if (!sourcePath.startsWith(from)) {
+            return Promise.resolve(undefined);
+        }
+        const rest = sourcePath.substring(from.length);
+
+        if (/^[a-z][a-z0-9+.-]*:\/\//i.test(this.to)) {
+            const uri = vscode.Uri.parse(this.to + rest);
+            return Promise.resolve({
+                candidates: [],
+                remote: {
+                    name: `Open ${uri.authority}`,
+                    uri: uri.with({ fragment: `L${line + 1}` }),
+                },
+            });
+        }
+
+        const to = this.to
+            .replace("${workspaceFolder}", project.workspaceFolder.uri.fsPath)
+            .replace(/^~(?=$|[\\/])/, os.homedir());
+        const base = path.isAbsolute(to)
+            ? vscode.Uri.file(to)
+            : vscode.Uri.joinPath(project.uri, to);
+        return Promise.resolve({
+            candidates: [vscode.Uri.joinPath(base, rest)],
+        });
+    }
+}
+
+/**
+ * Maps sources from the PROS kernel, which is built on Azure Pipelines, to its GitHub repository at the
+ * version the project uses. Headers are also copied into each project's `include/` directory.
+ */
+class PROSSourcePathRule implements SourcePathRule {
+    readonly name = "PROS";
+
+    constructor(public readonly versions: ProjectVersionReader) {}
+
+    async map(
+        sourcePath: string,
+        line: number,
+        project: Project,
+    ): Promise<SourceMapping | undefined> {
+        const prosBase = "/home/vsts/work/1/s/";
+        if (!sourcePath.startsWith(prosBase)) {
+            return undefined;
+        }
+        const relative = sourcePath.substring(prosBase.length);
+
+        // Kernel releases are tagged with their version, like `4.1.0`.
+        const version = await this.versions.getKernelVersion(project);
+        return {
+            candidates: [vscode.Uri.joinPath(project.uri, relative)],
+            remote: gitHubSource(
+                "purduesigbots/pros",
+                version ?? "develop-pros-4",
+                relative,
+                line,
+            ),
+        };
+    }
+}
+
+/**
+ * Maps sources from libraries built with GitHub Actions, such as PROS templates, to their repositories.
+ */
+class GitHubActionsSourcePathRule implements SourcePathRule {
+    readonly name = "GitHub Actions";
+
+    /**
+     * The repositories of well-known libraries, keyed by the name of the checkout directory.
+     */
+    static readonly repos: Record<string, string> = {
+        LemLib: "LemLib/LemLib",
+        "EZ-Template": "EZ-Robotics/EZ-Template",
+    };
+
+    map(
+        sourcePath: string,
+        line: number,
+        project: Project,
+    ): Promise<SourceMapping | undefined> {
+        // Actions check out repositories to `/home/runner/work/<name>/<name>/`.
+        const match = /^\/home\/runner\/work\/([^/]+)\/\1\/(.+)$/.exec(
+            sourcePath,
+        );
+        if (!match) {
+            return Promise.resolve(undefined);
+        }
+        const [, name, relative] = match;
+
+        const repo = Object.hasOwn(GitHubActionsSourcePathRule.repos, name)
+            ? GitHubActionsSourcePathRule.repos[name]
+            : undefined;
+        return Promise.resolve({
+            candidates: [vscode.Uri.joinPath(project.uri, relative)],
+            remote: repo
+                ? gitHubSource(repo, "HEAD", relative, line)
+                : undefined,
+        });
+    }
+}
+
+/**
+ * Maps sources from the Rust standard library, which are built from `/rustc/<commit>/`, to the
+ * `rust-src` component of the project's toolchain or to GitHub.
+ */
+class RustSourcePathRule implements SourcePathRule {
+    readonly name = "Rust standard library";
+
+    /**
+     * The sysroot of each project's toolchain, keyed by the project's URI.
+     */
+    #sysroots = new Map<string, Promise<string | undefined>>();
+
+    async map(
+        sourcePath: string,
+        line: number,
+        project: Project,
+    ): Promise<SourceMapping | undefined> {
+        const match = /^\/rustc\/([0-9a-f]+)\/(.+)$/.exec(sourcePath);
+        if (!match) {
+            return undefined;
+        }
+        const [, commit, relative] = match;
+
+        const sysroot = await this.#getSysroot(project);
+        return {
+            candidates: sysroot
+                ? [
+                      vscode.Uri.joinPath(
+                          vscode.Uri.file(sysroot),
+                          "lib/rustlib/src/rust",
+                          relative,
+                      ),
+                  ]
+                : [],
+            remote: gitHubSource("rust-lang/rust", commit, relative, line),
+        };
+    }
+
+    /**
+     * Asks `rustc` where the project's toolchain is installed, which respects rustup overrides like
+     * `rust-toolchain.toml`.
+     */
+    #getSysroot(project: Project): Promise<string | undefined> {
+        const key = project.uri.toString();
+        let sysroot = this.#sysroots.get(key);
+        if (!sysroot) {
+            sysroot = execFile("rustc", ["--print", "sysroot"], {
+                cwd: project.uri.fsPath,
+            }).then(
+                ({ stdout }) => stdout.trim() || undefined,
+                (err) => {
+                    output.appendLine(
+                        `Couldn't find the Rust sysroot: ${inspect(err)}`,
+                    );
+                    return undefined;
+                },
+            );
+            this.#sysroots.set(key, sysroot);
+        }
+        return sysroot;
+    }
+}
+
+/**
+ * Maps sources from Cargo's registry and git checkouts, which may have been downloaded on another
+ * computer, to this computer's Cargo home. vexide's crates are linked to its GitHub repository at the
+ * version in the project's `Cargo.lock`, and other crates are linked to docs.rs.
+ */
+class CargoSourcePathRule implements SourcePathRule {
+    readonly name = "Cargo";
+
+    constructor(public readonly versions: ProjectVersionReader) {}
+
+    async map(
+        sourcePath: string,
+        line: number,
+        project: Project,
+    ): Promise<SourceMapping | undefined> {
+        const cargoHome = vscode.Uri.file(
+            env.CARGO_HOME || path.join(os.homedir(), ".cargo"),
+        );
+        // Other computers are assumed to use the default Cargo home.
+        const match = sourcePath.startsWith(`${cargoHome.path}/`)
+            ? [sourcePath, sourcePath.substring(cargoHome.path.length + 1)]
+            : /\/\.cargo\/((?:registry|git)\/.+)$/.exec(sourcePath);
+        if (!match) {
+            return undefined;
+        }
+        const [, relative] = match;
+
+        const candidates = [vscode.Uri.joinPath(cargoHome, relative)];
+
+        // Git dependencies are checked out to `git/checkouts/<repository>-<hash>/<commit>/`.
+        const gitMatch =
+            /^git\/checkouts\/vexide-[0-9a-f]+\/[0-9a-f]+\/(?:packages\/([^/]+)\/)?(.+)$/.exec(
+                relative,
+            );
+        if (gitMatch) {
+            const [, crate = "vexide", file] = gitMatch;
+            return {
+                candidates,
+                remote: await this.#getVexideSource(
+                    project,
+                    crate,
+                    undefined,
+                    file,
+                    line,
+                ),
+            };
+        }
+
+        // Registry sources are stored as `registry/src/<index>/<crate>-<version>/`, and the name of the
+        // index directory has changed between versions of Cargo.
+        const registryMatch = /^registry\/src\/[^/]+\/([^/]+)\/(.+)$/.exec(
+            relative,
+        );
+        if (!registryMatch) {
+            return { candidates };
+        }
+        const [, crate, file] = registryMatch;
+
+        const registry = vscode.Uri.joinPath(cargoHome, "registry/src");
+        try {
+            for (const [index, type] of await vscode.workspace.fs.readDirectory(
+                registry,
+            )) {
+                if (type & vscode.FileType.Directory) {
+                    candidates.push(
+                        vscode.Uri.joinPath(registry, index, crate, file),
+                    );
+                }
+            }
+        } catch {}
+
+        const versionMatch = /^(.+)-(\d+\.\d+\.\d+.*)$/.exec(crate);
+        if (!versionMatch) {
+            return { candidates };
+        }
+        const [, name, version] = versionMatch;
+
+        if (name === "vexide" || name.startsWith("vexide-")) {
+            return {
+                candidates,
+                remote: await this.#getVexideSource(
+                    project,
+                    name,
+                    version,
+                    file,
+                    line,
+                ),
+            };
+        }
+
+        return {
+            candidates,
+            remote: {
+                name: `Open ${name} on docs.rs`,
+                uri: vscode.Uri.from({
+                    scheme: "https",
+                    authority: "docs.rs",
+                    path: path.posix.join(
+                        "/crate",
+                        name,
+                        version,
+                        "source",
+                        file,
+                    ),
+                }),
+            },
+        };
+    }
+
+    /**
+     * Links to a file from one of vexide's crates, which all live in the vexide/vexide repository.
+     * @param project the project which depends on the crate
+     * @param crate the name of the crate
+     * @param version the version of the crate from its path, if it has one
+     * @param file the path of the file in the crate
+     * @param line the zero-based line number
+     */
+    async #getVexideSource(
+        project: Project,
+        crate: string,
+        version: string | undefined,
+        file: string,
+        line: number,
+    ): Promise<RemoteSource> {
+        const locked = await this.versions.getLockedPackage(project, crate);
+        // Git dependencies are locked to an exact commit, like `git+https://github.com/vexide/vexide?branch=main#<commit>`.
+        const commit = locked?.source?.match(
+            /^git\+https:\/\/github\.com\/vexide\/vexide\b.*#([0-9a-f]+)$/,
+        )?.[1];
+
+        let ref = commit;
+        if (!ref) {
+            // The repository is tagged with the version of the `vexide` crate, which the other crates are
+            // released alongside.
+            const vexide =
+                crate === "vexide"
+                    ? locked
+                    : await this.versions.getLockedPackage(project, "vexide");
+            ref = `v${vexide?.version ?? locked?.version ?? version}`;
+        }
+
+        return gitHubSource(
+            "vexide/vexide",
+            ref,
+            crate === "vexide"
+                ? file
+                : path.posix.join("packages", crate, file),
+            line,
+        );
+    }
+}
+
+/**
+ * Finds files from someone else's computer (such as a teammate who shared their ELF file) in the
+ * project, by looking for the longest end of the path which exists there.
+ */
+class ProjectSuffixSourcePathRule implements SourcePathRule {
+    readonly name = "Project";
+
+    map(
+        sourcePath: string,
+        _line: number,
+        project: Project,
+    ): Promise<SourceMapping | undefined> {
+        const parts = sourcePath.split("/").filter((part) => part !== "");
+        return Promise.resolve({
+            candidates: parts.map((_, index) =>
+                vscode.Uri.joinPath(project.uri, ...parts.slice(index)),
+            ),
+        });
+    }
+}
+
+/**
+ * Changes the source paths in symbols so that they point to files which exist on this computer, or to
+ * web pages which show them.
+ */
+export class SourcePathMapper {
+    /**
+     * Rules which are tried when a source file doesn't exist, in order of preference. Their links to
+     * remote sources are offered even if the file does exist.
+     */
+    readonly builtinRules: SourcePathRule[];
+
+    constructor(
+        /**
+         * Rules from the user's settings, which are tried before checking whether a file exists.
+         */
+        public readonly userRules: SourcePathRule[] = [],
+        /**
+         * Reads the versions of the frameworks each project uses, so that remote links match them.
+         */
+        public readonly versions = new ProjectVersionReader(),
+    ) {
+        this.builtinRules = [
+            new PROSSourcePathRule(versions),
+            new GitHubActionsSourcePathRule(),
+            new RustSourcePathRule(),
+            new CargoSourcePathRule(versions),
+            new ProjectSuffixSourcePathRule(),
+        ];
+    }
+
+    /**
+     * Finds where a source location can be opened.
+     * @param location the location from a code object's debug info
+     * @param project the project which the code object belongs to
+     * @returns a new location, or the same one if it doesn't need to change
+     */
+    async mapLocation(
+        location: ResolvedLocation,
+        project: Project,
+    ): Promise<ResolvedLocation> {
+        const sourcePath = location.uri.path;
+        const line = location.position.line;
+
+        for (const rule of this.userRules) {
+            const mapping = await rule.map(sourcePath, line, project);
+            if (mapping) {
+                return (await this.#apply(location, mapping, rule)) ?? location;
+            }
+        }
+
+        if (location.uri.scheme !== "file") {
+            return location;
+        }
+        if (await exists(location.uri)) {
+            for (const rule of this.builtinRules) {
+                const mapping = await rule.map(sourcePath, line, project);
+                if (mapping?.remote) {
+                    return { ...location, remote: mapping.remote };
+                }
+            }
+            return location;
+        }
+
+        for (const rule of this.builtinRules) {
+            const mapping = await rule.map(sourcePath, line, project);
+            const mapped =
+                mapping && (await this.#apply(location, mapping, rule));
+            if (mapped) {
+                return mapped;
+            }
+        }
+        return location;
+    }
+
+    /**
+     * Maps the source locations of a symbol and its inlined frames. The symbol itself isn't changed,
+     * because readers may reuse it.
+     * @param symbol the symbol to map
+     * @param project the project which the symbol's code object belongs to
+     * @returns a copy of the symbol with mapped locations
+     */
+    async mapSymbol(
+        symbol: ResolvedSymbol,
+        project: Project,
+    ): Promise<ResolvedSymbol> {
+        const [frame, ...inlinedFrames] = await Promise.all(
+            [symbol, ...symbol.inlinedFrames].map((frame) =>
+                this.#mapFrame(frame, project),
+            ),
+        );
+        return { ...symbol, ...frame, inlinedFrames };
+    }
+
+    async #mapFrame(
+        frame: ResolvedFrame,
+        project: Project,
+    ): Promise<ResolvedFrame> {
+        if (!frame.sourceLocation) {
+            return { ...frame };
+        }
+        return {
+            ...frame,
+            sourceLocation: await this.mapLocation(
+                frame.sourceLocation,
+                project,
+            ),
+        };
+    }
+
+    /**
+     * Applies a rule's mapping to a location.
+     * @returns the new location, or undefined if none of the candidates exist and there isn't a remote
+     */
+    async #apply(
+        location: ResolvedLocation,
+        mapping: SourceMapping,
+        rule: SourcePathRule,
+    ): Promise<ResolvedLocation | undefined> {
+        for (const candidate of mapping.candidates) {
+            if (await exists(candidate)) {
+                output.appendLine(
+                    `Mapped ${location.uri.path} to ${candidate.fsPath} using the ${rule.name} rule.`,
+                );
+                return { ...location, uri: candidate, remote: mapping.remote };
+            }
+        }
+
+        if (mapping.remote) {
+            output.appendLine(
+                `Mapped ${location.uri.path} to ${mapping.remote.uri} using the ${rule.name} rule.`,
+            );
+            return { ...location, remote: mapping.remote };
+        }
+        return undefined;
+    }
+}
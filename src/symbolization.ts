@@ -2,6 +2,22 @@ import * as vscode from "vscode";
 import { output } from "./logs.js";
 import { inspect } from "node:util";
 import * as path from "node:path";
+import { Project, ProjectDiscovery } from "./projects.js";
+import { SourcePathMapper } from "./sourcePaths.js";
+import { ProgramImage } from "./programImages.js";
+import { FaultExplainer } from "./faults.js";
+import { ElfFile, STT_OBJECT } from "./core/elf.js";
+import { DwarfInfo } from "./core/dwarf.js";
+import {
+    DataAddressDescription,
+    describeDataAddress,
+    findLoadedSection,
+} from "./dataAddresses.js";
+import * as core from "./core/symbolizer.js";
+import { toCoreLocator } from "./locators.js";
+import { toCoreReader, toResolvedSymbol } from "./readers.js";
+
+export type { AddressValidity } from "./core/symbolizer.js";
 
 /**
  * Locates code objects which contain useful metadata such that they can be used in symbolization.
@@ -19,6 +35,17 @@ export interface CodeObjectLocator {
     findObjectUris(folder: vscode.Uri): Promise<vscode.Uri[]>;
 }
 
+/**
+ * A web page which shows a source file that may not be on this computer.
+ */
+export interface RemoteSource {
+    /**
+     * The label of the button which opens the page, such as `Open purduesigbots/pros`.
+     */
+    name: string;
+    uri: vscode.Uri;
+}
+
 export interface ResolvedLocation {
     /**
      * The URI of the file in which the symbol is located.
@@ -28,30 +55,71 @@ export interface ResolvedLocation {
      * The line number and column of the symbol.
      */
     position: vscode.Position;
+    /**
+     * Where the file can be viewed online, if it's known.
+     */
+    remote?: RemoteSource;
 }
 
 /**
- * Metadata about an address such as its file and line number.
+ * A function which was running at an address.
  */
-export interface ResolvedSymbol {
+export interface ResolvedFrame {
     /**
      * The location in source code of the symbol.
      */
     sourceLocation?: ResolvedLocation;
+    /**
+     * The human-readable name of this symbol.
+     */
+    symbolName: string;
+}
+
+/**
+ * Metadata about an address such as its file and line number.
+ */
+export interface ResolvedSymbol extends ResolvedFrame {
     /**
      * The URI of the code object from which this metadata was read.
      */
     codeObject: vscode.Uri;
     /**
-     * The human-readable name of this symbol.
+     * Every function which was running at this address because of inlining, starting with the innermost
+     * inlined function (the same frame as this symbol) and ending with the function it was inlined into.
      */
-    symbolName: string;
+    inlinedFrames: ResolvedFrame[];
+}
+
+/**
+ * Finds the innermost function at an address whose source is in a project, walking out from the
+ * innermost inlined function to the function it was inlined into.
+ * @param symbol the symbol whose frames are searched
+ * @param project the project the source has to be in
+ * @returns the frame, or undefined if none of the frames' sources are in the project, such as in a
+ * library function which wasn't inlined into the project's code
+ */
+export function findProjectFrame(
+    symbol: ResolvedSymbol,
+    project: Project,
+): ResolvedFrame | undefined {
+    const frames =
+        symbol.inlinedFrames.length > 0 ? symbol.inlinedFrames : [symbol];
+    return frames.find(({ sourceLocation }) => {
+        if (sourceLocation?.uri.scheme !== project.uri.scheme) {
+            return false;
+        }
+        const relative = path.posix.relative(
+            project.uri.path,
+            sourceLocation.uri.path,
+        );
+        return !relative.startsWith("..") && !path.posix.isAbsolute(relative);
+    });
 }
 
 /**
  * Reads metadata from a code object such as an ELF file.
  */
-export interface CodeObjectReader {
+export interface CodeObjectReader extends vscode.Disposable {
     /**
      * The name of the reader.
      */
@@ -72,188 +140,354 @@ export interface CodeObjectReader {
         address: string,
         codeObject: vscode.Uri,
     ): Promise<ResolvedSymbol>;
+
+    /**
+     * Retrieves metadata for many addresses in the same code object at once.
+     * @param addresses the addresses to symbolize
+     * @param codeObject the code object to retrieve metadata from
+     * @returns the result for each address, in the same order as `addresses`
+     */
+    resolveToSymbolsInObject(
+        addresses: string[],
+        codeObject: vscode.Uri,
+    ): Promise<PromiseSettledResult<ResolvedSymbol>[]>;
 }
 
 /**
  * Handles requests to symbolize address by searching for code objects and reading their metadata.
  */
-export class Symbolizer {
+export class Symbolizer implements vscode.Disposable {
     constructor(
+        public projects: ProjectDiscovery,
         public locators: CodeObjectLocator[],
         public readers: CodeObjectReader[],
+        public addressValidity: core.AddressValidity = "programImages",
+        public sourcePaths = new SourcePathMapper(),
+        public showRustSymbolHashes = false,
     ) {}
 
-    #firstWorkingReader: CodeObjectReader | undefined = undefined;
-    /**
-     * Gets and caches the first code object reader which is working properly from the list of {@link readers}.
-     * @returns the code object reader, or undefined if none are working
-     */
-    async getWorkingReader(): Promise<CodeObjectReader | undefined> {
-        if (!this.#firstWorkingReader) {
-            output.appendLine("Trying to find a working code object reader.");
-            for (const reader of this.readers) {
-                try {
-                    if (await reader.isWorking()) {
-                        this.#firstWorkingReader = reader;
-                        output.appendLine(
-                            `The following reader will be used: ${inspect(
-                                reader,
-                            )}`,
-                        );
-                        break;
-                    }
-                } catch {}
-            }
-        } else {
-            if (!(await this.#firstWorkingReader.isWorking())) {
-                output.appendLine(
-                    "The current code reader has stopped working!",
-                );
-                this.#firstWorkingReader = undefined;
-                return await this.getWorkingReader();
-            }
+    /**
+     * Explains why crash dumps happened, so that the explanation can be shown when the faulting address
+     * is jumped to.
+     */
+    faultExplainer: FaultExplainer | undefined;
+
+    /**
+     * The core symbolizer which does the work, along with the lists it was created from, so that it's
+     * replaced when the locators or readers change.
+     */
+    #core:
+        | {
+              locators: CodeObjectLocator[];
+              readers: CodeObjectReader[];
+              symbolizer: core.Symbolizer;
+          }
+        | undefined = undefined;
+    /**
+     * The locators and readers which other extensions have registered, which are kept when the user's
+     * settings change.
+     */
+    #registeredLocators: CodeObjectLocator[] = [];
+    #registeredReaders: CodeObjectReader[] = [];
+
+    /**
+     * Gets the core symbolizer, which searches for code objects and reads them using this symbolizer's
+     * locators, readers and options.
+     */
+    #getCore(): core.Symbolizer {
+        if (
+            this.#core?.locators !== this.locators ||
+            this.#core.readers !== this.readers
+        ) {
+            this.#core?.symbolizer.dispose();
+            this.#core = {
+                locators: this.locators,
+                readers: this.readers,
+                symbolizer: new core.Symbolizer(
+                    this.locators.map(toCoreLocator),
+                    this.readers.map(toCoreReader),
+                ),
+            };
         }
 
-        return this.#firstWorkingReader;
+        const { symbolizer } = this.#core;
+        symbolizer.showRustSymbolHashes = this.showRustSymbolHashes;
+        symbolizer.addressValidity = this.addressValidity;
+        return symbolizer;
     }
 
     /**
-     * Gets the folder that the user is working in.
-     * @returns the folder, or undefined if there is no active folder
+     * Gets the project that the user is working on, asking them if it isn't clear.
+     * @param terminal the terminal which printed the address being symbolized, if there is one
+     * @param canPick whether the user can be asked to choose a project
+     * @returns the project, or undefined if there isn't an obvious one and the user didn't choose one
      */
-    getActiveFolder(): vscode.WorkspaceFolder | undefined {
-        const activeUri = vscode.window.activeTextEditor?.document.uri;
-        if (activeUri) {
-            const activeWorkspace =
-                vscode.workspace.getWorkspaceFolder(activeUri);
-            if (activeWorkspace) {
-                return activeWorkspace;
-            }
-        }
-        return vscode.workspace.workspaceFolders?.[0];
+    getActiveProject(
+        terminal?: vscode.Terminal,
+        canPick = true,
+    ): Promise<Project | undefined> {
+        return this.projects.getActiveProject(terminal, canPick);
     }
 
     /**
      * Resolves metadata about an address.
      * @param address the address to resolve
-     * @param folder the folder to search for metadata in
+     * @param project the project to search for metadata in
      * @returns the metadata
      */
     async resolveToSymbol(
         address: string,
-        folder: vscode.WorkspaceFolder,
+        project: Project,
     ): Promise<ResolvedSymbol> {
-        const readerRequest = this.getWorkingReader();
-
-        let locatedCodeObjects: vscode.Uri[] = [];
-        for (const locator of this.locators) {
-            output.appendLine(
-                `Looking for code objects using "${locator.name}"`,
-            );
-            try {
-                const found = await locator.findObjectUris(folder.uri);
-                output.appendLine(
-                    `The code object locator "${locator.name}" found ${found.length} objects.`,
-                );
-                if (found.length > 0) {
-                    locatedCodeObjects.push(...found);
-                    break;
-                }
-            } catch (err) {
-                output.appendLine(
-                    `The code object locator "${locator.name}" failed to find any objects: ${err}`,
-                );
-            }
+        const [result] = await this.resolveToSymbols([address], project);
+        if (result.status === "rejected") {
+            throw result.reason;
         }
+        return result.value;
+    }
 
-        if (locatedCodeObjects.length === 0) {
-            throw new Error("Cannot find any code objects in this project");
-        }
+    /**
+     * Resolves metadata about many addresses at once, such as every frame in a backtrace. This is much
+     * faster than resolving each address separately because each code object only has to be read once.
+     * @param addresses the addresses to resolve
+     * @param project the project to search for metadata in
+     * @returns the result for each address, in the same order as `addresses`
+     */
+    async resolveToSymbols(
+        addresses: string[],
+        project: Project,
+    ): Promise<PromiseSettledResult<ResolvedSymbol>[]> {
+        const results = await this.#getCore().resolveToSymbols(
+            addresses,
+            project.uri.fsPath,
+        );
 
-        output.appendLine(
-            "The following code objects were found, in order of preference:",
+        // Debug info often names files on other computers, such as CI servers, so point them somewhere useful.
+        return await Promise.all(
+            results.map(
+                async (
+                    result,
+                ): Promise<PromiseSettledResult<ResolvedSymbol>> =>
+                    result.status === "fulfilled"
+                        ? {
+                              status: "fulfilled",
+                              value: await this.sourcePaths.mapSymbol(
+                                  toResolvedSymbol(result.value),
+                                  project,
+                              ),
+                          }
+                        : result,
+            ),
         );
-        let itemNum = 1;
-        for (const codeObject of locatedCodeObjects) {
-            output.appendLine(`    ${itemNum}. ${codeObject.fsPath}`);
-            itemNum += 1;
-        }
+    }
+
+    /**
+     * Replaces the locators, readers, address validity rule, source path mapper and demangling options,
+     * such as after the user's settings change. The old readers are disposed.
+     * @param locators the new locators
+     * @param readers the new readers
+     * @param addressValidity the new address validity rule
+     * @param sourcePaths the new source path mapper
+     * @param showRustSymbolHashes whether to keep hashes in demangled Rust symbols
+     */
+    configure(
+        locators: CodeObjectLocator[],
+        readers: CodeObjectReader[],
+        addressValidity: core.AddressValidity,
+        sourcePaths: SourcePathMapper,
+        showRustSymbolHashes: boolean,
+    ) {
+        this.#disposeOwnReaders();
 
-        const reader = await readerRequest;
-        if (!reader) {
-            const readers = this.readers
-                .map((reader) => reader.name)
-                .join(", ");
-            throw new Error(
-                `Cannot find any working code object readers; install one of: ${readers}`,
+        this.locators = [...this.#registeredLocators, ...locators];
+        this.readers = [...this.#registeredReaders, ...readers];
+        this.addressValidity = addressValidity;
+        this.sourcePaths = sourcePaths;
+        this.showRustSymbolHashes = showRustSymbolHashes;
+    }
+
+    /**
+     * Adds a code object locator from another extension. It's tried before the locators from the user's
+     * settings, and it's kept when they change.
+     * @param locator the locator to add
+     * @returns a disposable which removes the locator
+     */
+    registerLocator(locator: CodeObjectLocator): vscode.Disposable {
+        this.#registeredLocators.unshift(locator);
+        this.locators = [locator, ...this.locators];
+        return new vscode.Disposable(() => {
+            this.#registeredLocators = this.#registeredLocators.filter(
+                (registered) => registered !== locator,
             );
-        }
+            this.locators = this.locators.filter(
+                (registered) => registered !== locator,
+            );
+        });
+    }
 
-        const errors = [];
-        let resolved: ResolvedSymbol | undefined;
-        for (const codeObject of locatedCodeObjects) {
-            output.appendLine(`Resolving ${codeObject.fsPath}`);
+    /**
+     * Adds a code object reader from another extension. It's tried before the readers from the user's
+     * settings, and it's kept when they change.
+     * @param reader the reader to add
+     * @returns a disposable which removes the reader
+     */
+    registerReader(reader: CodeObjectReader): vscode.Disposable {
+        this.#registeredReaders.unshift(reader);
+        this.readers = [reader, ...this.readers];
+        return new vscode.Disposable(() => {
+            this.#registeredReaders = this.#registeredReaders.filter(
+                (registered) => registered !== reader,
+            );
+            this.readers = this.readers.filter(
+                (registered) => registered !== reader,
+            );
+        });
+    }
+
+    /**
+     * Checks whether an address could be symbolized according to {@link addressValidity}.
+     * @param address the address to check
+     * @param images the program images of the project, or undefined if they aren't known
+     * @returns `true` if the address should be symbolized, `false` otherwise
+     */
+    isAddressValid(address: number, images: ProgramImage[] | undefined) {
+        return this.#getCore().isAddressValid(address, images);
+    }
+
+    /**
+     * Searches for the code objects in a project using the first locator which finds any.
+     * @param project the project to search in
+     * @returns the code objects, in order of preference
+     */
+    async locateCodeObjects(project: Project): Promise<vscode.Uri[]> {
+        const paths = await this.#getCore().locateCodeObjects(
+            project.uri.fsPath,
+        );
+        return paths.map((codeObject) => vscode.Uri.file(codeObject));
+    }
+
+    /**
+     * Reads which address ranges of the brain's memory are covered by the code in some code objects.
+     * @param codeObjects the code objects to read
+     * @returns the program images, or undefined if any of the code objects couldn't be read, in which
+     * case it isn't known which addresses are valid
+     */
+    async getProgramImages(
+        codeObjects: vscode.Uri[],
+    ): Promise<ProgramImage[] | undefined> {
+        const images = await this.#getCore().getProgramImages(
+            codeObjects.map((codeObject) => codeObject.fsPath),
+        );
+        return images?.map((image, index) => ({
+            codeObject: codeObjects[index],
+            ranges: image.ranges,
+        }));
+    }
+
+    /**
+     * Describes what a data address points to, like a global variable, a vtable or the heap. This is used
+     * for addresses that don't contain code, such as the pointer which a data abort tried to access.
+     * @param address the address to describe
+     * @param project the project to search for code objects in
+     * @returns the description, or undefined if none of the project's code objects could be read
+     */
+    async describeDataAddress(
+        address: string,
+        project: Project,
+    ): Promise<DataAddressDescription | undefined> {
+        const addressNumber = Number.parseInt(address);
+        const elfs: ElfFile[] = [];
+        for (const codeObject of await this.locateCodeObjects(project)) {
             try {
-                resolved = await reader.resolveToSymbolInObject(
-                    address,
-                    codeObject,
+                elfs.push(
+                    ElfFile.parse(
+                        await vscode.workspace.fs.readFile(codeObject),
+                    ),
                 );
-                output.appendLine(`Resolved to: ${inspect(resolved)}`);
-
-                const resultIsSuboptimal =
-                    resolved.sourceLocation === undefined;
-                if (resultIsSuboptimal) {
-                    output.appendLine(
-                        "This result is sub-optimal because there is no source location, so any remaining objects will be checked as well.",
-                    );
-                } else {
-                    output.appendLine(
-                        "This result seems reasonable, stopping here.",
-                    );
-                    break;
-                }
             } catch (err) {
                 output.appendLine(
-                    "This code object could not be resolved: " + inspect(err),
+                    `Couldn't read ${codeObject.fsPath} to describe ${address}: ${inspect(err)}`,
                 );
-                errors.push(err);
             }
         }
 
-        if (!resolved) {
-            throw new AggregateError(
-                errors,
-                "This address could not be resolved to a line",
-            );
+        // Split programs keep the data of each package in its own code object.
+        const elf =
+            elfs.find((elf) => elf.findSymbol(addressNumber, STT_OBJECT)) ??
+            elfs.find((elf) => findLoadedSection(elf, addressNumber)) ??
+            elfs[0];
+        if (!elf) {
+            return undefined;
         }
 
-        return resolved;
+        // Debugging information is only needed to find which file defines a symbol.
+        const dwarf = elf.findSymbol(addressNumber, STT_OBJECT)
+            ? DwarfInfo.fromElf(elf)
+            : undefined;
+        return describeDataAddress(
+            elf,
+            dwarf,
+            addressNumber,
+            this.showRustSymbolHashes,
+        );
+    }
+
+    /**
+     * Stops any processes which this extension's readers have started.
+     */
+    dispose() {
+        this.#disposeOwnReaders();
+        this.#core?.symbolizer.dispose();
+        this.#core = undefined;
+    }
+
+    /**
+     * Disposes of the readers which this extension created. Registered readers belong to other
+     * extensions, which dispose of them themselves.
+     */
+    #disposeOwnReaders() {
+        for (const reader of this.readers) {
+            if (!this.#registeredReaders.includes(reader)) {
+                reader.dispose();
+            }
+        }
     }
 
     /**
      * Jumps to the file & line number on which the specified address is located.
      * @param address the address to jump to
+     * @param project the project to search for metadata in, or undefined to use the active project
      */
-    async jumpToAddress(address: string): Promise<void> {
+    async jumpToAddress(address: string, project?: Project): Promise<void> {
         output.appendLine(
             `Attempting to symbolize and jump to the address ${address}.`,
         );
-        const folder = this.getActiveFolder();
+        const hasWorkspace = !!vscode.workspace.workspaceFolders?.length;
+        const activeProject = project ?? (await this.getActiveProject());
+        if (hasWorkspace && !activeProject) {
+            // The user dismissed the project picker.
+            return;
+        }
 
         try {
-            if (!folder) {
+            if (!activeProject) {
                 throw new Error("There is no active workspace");
             }
-            const resolved = await this.resolveToSymbol(address, folder);
+            const resolved = await this.resolveToSymbol(address, activeProject);
+            const frame = await this.#pickFrame(resolved);
+            if (!frame) {
+                return;
+            }
 
             const ENABLE_DEBUG_INFO = "Enable all debug metadata (recommended)";
+            const SHOW_DISASSEMBLY = "Show Disassembly";
             const extraActions: string[] = [];
 
-            const remoteRepos = this.#getRemoteRepos(resolved);
+            const remoteRepos = this.getRemoteRepos(frame);
             let showFullPath = false;
 
             try {
-                await this.#jumpToLine(resolved);
+                await this.jumpToLine(frame);
             } catch {
                 // No need to clog up the info message with debug data if the user can just hit the button to open in their browser
                 if (remoteRepos.size === 0) {
@@ -262,10 +496,10 @@ export class Symbolizer {
             }
 
             let sourceCodePath: string | undefined = undefined;
-            if (resolved.sourceLocation) {
+            if (frame.sourceLocation) {
                 sourceCodePath = showFullPath
-                    ? resolved.sourceLocation.uri.path
-                    : path.basename(resolved.sourceLocation.uri.path);
+                    ? frame.sourceLocation.uri.path
+                    : path.basename(frame.sourceLocation.uri.path);
             }
 
             const codeObjectFileName = path.basename(resolved.codeObject.path);
@@ -273,18 +507,31 @@ export class Symbolizer {
             // If VEXcode's debug info is disabled, sometimes you can still get symbol names but not source locations.
             // If this is the case, offer to enable debug info.
             const shouldEnableDebugInfo =
-                !resolved.sourceLocation &&
-                (await this.canAutoFixVEXCodeDebugInfo(folder.uri));
+                !frame.sourceLocation &&
+                (await this.canAutoFixVEXCodeDebugInfo(activeProject.uri));
             if (shouldEnableDebugInfo) {
                 extraActions.push(ENABLE_DEBUG_INFO);
             }
+            extraActions.push(SHOW_DISASSEMBLY);
 
-            let msg = resolved.symbolName;
+            let msg = frame.symbolName;
             if (sourceCodePath !== undefined) {
                 msg += ` in ${sourceCodePath}`;
             }
+            const frameIndex = resolved.inlinedFrames.indexOf(frame);
+            const caller = resolved.inlinedFrames[frameIndex + 1];
+            if (caller) {
+                msg += `, inlined into ${caller.symbolName}`;
+            }
             msg += ` (${codeObjectFileName})`;
 
+            // If this is where a crash dump faulted, say what most likely went wrong.
+            const explanation =
+                await this.faultExplainer?.getExplanation(address);
+            if (explanation) {
+                msg += `: ${explanation.summary}`;
+            }
+
             vscode.window
                 .showInformationMessage(
                     msg,
@@ -298,7 +545,17 @@ export class Symbolizer {
 
                     tryAsyncOrLogError(async () => {
                         if (action === ENABLE_DEBUG_INFO) {
-                            await this.autoFixVEXCodeDebugInfo(folder.uri);
+                            await this.autoFixVEXCodeDebugInfo(
+                                activeProject.uri,
+                            );
+                            return;
+                        }
+                        if (action === SHOW_DISASSEMBLY) {
+                            await vscode.commands.executeCommand(
+                                "symbolizer-for-vex-v5.show-disassembly",
+                                address,
+                                activeProject,
+                            );
                             return;
                         }
 
@@ -323,8 +580,8 @@ export class Symbolizer {
 
             if (
                 msg.includes("This address could not be resolved to a line") &&
-                folder &&
-                (await this.canAutoFixVEXCodeDebugInfo(folder.uri))
+                activeProject &&
+                (await this.canAutoFixVEXCodeDebugInfo(activeProject.uri))
             ) {
                 actions.push(RUN_AUTOFIX);
             }
@@ -349,7 +606,9 @@ export class Symbolizer {
                 .then(async (action) => {
                     if (action === RUN_AUTOFIX) {
                         try {
-                            await this.autoFixVEXCodeDebugInfo(folder!.uri);
+                            await this.autoFixVEXCodeDebugInfo(
+                                activeProject!.uri,
+                            );
                         } catch (err) {
                             vscode.window.showErrorMessage(
                                 `Couldn't enable debug info: ${err}`,
@@ -374,7 +633,7 @@ export class Symbolizer {
                             await vscode.commands.executeCommand(
                                 "pros.install",
                             );
-                            await this.jumpToAddress(address);
+                            await this.jumpToAddress(address, activeProject);
                         } else {
                             vscode.commands.executeCommand(
                                 "workbench.extensions.search",
@@ -387,34 +646,55 @@ export class Symbolizer {
     }
 
     /**
-     * Generates a map of names and their corresponding URIs for symbols which can only be viewed
+     * Asks the user which inlined frame of a symbol to open, if there is more than one.
+     * @param resolved the symbol whose frames will be offered
+     * @returns the chosen frame, or undefined if the user dismissed the prompt
+     */
+    async #pickFrame(
+        resolved: ResolvedSymbol,
+    ): Promise<ResolvedFrame | undefined> {
+        if (resolved.inlinedFrames.length <= 1) {
+            return resolved.inlinedFrames[0] ?? resolved;
+        }
+
+        const items = resolved.inlinedFrames.map((frame, index) => {
+            const location = frame.sourceLocation;
+            const caller = resolved.inlinedFrames[index + 1];
+            return {
+                label: frame.symbolName,
+                description: location
+                    ? `${path.basename(location.uri.path)}:${
+                          location.position.line + 1
+                      }`
+                    : undefined,
+                detail: caller
+                    ? `Inlined into ${caller.symbolName}`
+                    : "Containing function",
+                frame,
+            };
+        });
+
+        const picked = await vscode.window.showQuickPick(items, {
+            title: "Jump to Address",
+            placeHolder:
+                "This address is inside of inlined code. Choose a function to open.",
+            matchOnDescription: true,
+        });
+        return picked?.frame;
+    }
+
+    /**
+     * Generates a map of names and their corresponding URIs for symbols whose source code can be viewed
      * online.
      * @param resolved the symbol to generate the map for
      * @returns the map
      */
-    #getRemoteRepos(resolved: ResolvedSymbol): Map<string, vscode.Uri> {
-        const repos = new Map();
+    getRemoteRepos(resolved: ResolvedFrame): Map<string, vscode.Uri> {
+        const repos = new Map<string, vscode.Uri>();
 
-        const prosBase = "/home/vsts/work/1/s/";
-        if (resolved.sourceLocation?.uri.path.startsWith(prosBase)) {
-            const relative = resolved.sourceLocation.uri.path.replace(
-                prosBase,
-                "",
-            );
-            const full = path.resolve(
-                "purduesigbots/pros/blob/develop-pros-4/",
-                relative,
-            );
-
-            repos.set(
-                "Open purduesigbots/pros",
-                vscode.Uri.from({
-                    scheme: "https",
-                    authority: "www.github.com",
-                    path: full,
-                    fragment: `L${resolved.sourceLocation.position.line + 1}`,
-                }),
-            );
+        const remote = resolved.sourceLocation?.remote;
+        if (remote) {
+            repos.set(remote.name, remote.uri);
         }
 
         return repos;
@@ -424,7 +704,7 @@ export class Symbolizer {
      * Jumps to the line on which the specified symbol resides.
      * @param resolved the symbol to jump to
      */
-    async #jumpToLine(resolved: ResolvedSymbol) {
+    async jumpToLine(resolved: ResolvedFrame) {
         if (!resolved.sourceLocation) {
             return;
         }
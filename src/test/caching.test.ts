@@ -0,0 +1,60 @@
+import * as assert from "node:assert";
+import * as vscode from "vscode";
+import { CachingCodeObjectLocator, CodeObjectWatcher } from "../caching.js";
+import { CodeObjectLocator } from "../symbolization.js";
+
+/**
+ * Finds no code objects, but counts how many times it was asked to.
+ */
+class CountingLocator implements CodeObjectLocator {
+    readonly name = "counting";
+    searches = 0;
+
+    async findObjectUris(): Promise<vscode.Uri[]> {
+        this.searches++;
+        return [];
+    }
+}
+
+suite("Code object watcher", () => {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    let watcher: CodeObjectWatcher | undefined;
+
+    teardown(async () => {
+        watcher?.dispose();
+        watcher = undefined;
+        if (folder) {
+            await vscode.workspace.fs.delete(
+                vscode.Uri.joinPath(folder.uri, "custom-output"),
+                { recursive: true, useTrash: false },
+            );
+        }
+    });
+
+    test("forgets code objects when a file matching an extra glob changes", async function () {
+        if (!folder) {
+            this.skip();
+        }
+        watcher = new CodeObjectWatcher(["custom-output/**/*.elf"]);
+        const locator = new CountingLocator();
+        const caching = new CachingCodeObjectLocator(locator, watcher);
+
+        await caching.findObjectUris(folder.uri);
+        await caching.findObjectUris(folder.uri);
+        assert.strictEqual(locator.searches, 1);
+
+        const codeObject = vscode.Uri.joinPath(
+            folder.uri,
+            "custom-output",
+            "robot.elf",
+        );
+        const changed = new Promise<vscode.Uri>((resolve) =>
+            watcher?.onDidChange(resolve),
+        );
+        await vscode.workspace.fs.writeFile(codeObject, new Uint8Array());
+        assert.strictEqual((await changed).fsPath, codeObject.fsPath);
+
+        await caching.findObjectUris(folder.uri);
+        assert.strictEqual(locator.searches, 2);
+    });
+});
@@ -0,0 +1,217 @@
+import * as assert from "node:assert";
+import {
+    CrashLogCollector,
+    findAddressesInLine,
+    parseAddressList,
+    parseCrashLog,
+    parseCrashLogs,
+} from "../core/crashLogs.js";
+
+const PROS_DUMP = `DATA ABORT EXCEPTION
+
+PC: 0x380a1f8
+CURRENT TASK: User Operator Control (PROS)
+REGISTERS AT ABORT
+ r0: 0x00000000  r1: 0x0380c6d0  r2: 0x00000001  r3: 0x00000000
+ r14 (lr): 0x0380b061  pc: 0x0380a1f8  cpsr: 0x6000001f
+ dfsr: 0x00000805  dfar: 0x00000008
+BEGIN STACK TRACE
+    0x380a1f8
+    0x380b060
+END OF TRACE
+HEAP USED: 1832 bytes
+STACK REMAINING AT ABORT: 8106 bytes`;
+
+const VEXIDE_PANIC = `panicked at src/main.rs:10:5:
+called \`Option::unwrap()\` on a \`None\` value
+
+stack backtrace:
+  0: 0x380175c
+  1: 0x3804a12 - <unknown>`;
+
+const VEXCODE_ERROR = `Memory Permission Error !
+03801A24`;
+
+suite("Crash logs", () => {
+    test("parses a PROS data abort", () => {
+        const log = parseCrashLog(PROS_DUMP);
+
+        assert.ok(log);
+        assert.strictEqual(log.kind, "PROS");
+        assert.strictEqual(log.title, "DATA ABORT EXCEPTION");
+        assert.deepStrictEqual(log.details, [
+            "CURRENT TASK: User Operator Control (PROS)",
+            "HEAP USED: 1832 bytes",
+            "STACK REMAINING AT ABORT: 8106 bytes",
+        ]);
+        assert.deepStrictEqual(log.frames, [
+            { address: "0x380a1f8", label: "Frame 0", line: 9 },
+            { address: "0x380b060", label: "Frame 1", line: 10 },
+        ]);
+        assert.strictEqual(log.registers.get("r1"), "0x0380c6d0");
+        assert.strictEqual(log.registers.get("r14"), "0x0380b061");
+        assert.strictEqual(log.registers.get("dfsr"), "0x00000805");
+        assert.strictEqual(log.startLine, 0);
+        assert.strictEqual(log.endLine, 13);
+    });
+
+    test("uses the program counter when a PROS dump has no stack trace", () => {
+        const log = parseCrashLog(
+            "PREFETCH ABORT EXCEPTION\nPC: 0x00000000\n r0: 0x00000001",
+        );
+
+        assert.ok(log);
+        assert.strictEqual(log.title, "PREFETCH ABORT EXCEPTION");
+        assert.deepStrictEqual(log.frames, [
+            { address: "0x00000000", label: "Program counter", line: 1 },
+        ]);
+    });
+
+    test("parses a vexide panic and its backtrace", () => {
+        const log = parseCrashLog(VEXIDE_PANIC);
+
+        assert.ok(log);
+        assert.strictEqual(log.kind, "vexide");
+        assert.strictEqual(log.title, "panicked at src/main.rs:10:5");
+        assert.deepStrictEqual(log.details, [
+            "called `Option::unwrap()` on a `None` value",
+        ]);
+        assert.deepStrictEqual(log.frames, [
+            { address: "0x380175c", label: "Frame 0", line: 4 },
+            { address: "0x3804a12", label: "Frame 1", line: 5 },
+        ]);
+    });
+
+    test("parses a VEXcode memory permission error", () => {
+        const log = parseCrashLog(VEXCODE_ERROR);
+
+        assert.ok(log);
+        assert.strictEqual(log.kind, "VEXcode");
+        assert.deepStrictEqual(log.frames, [
+            { address: "0x03801a24", label: "Program counter", line: 1 },
+        ]);
+        assert.strictEqual(log.registers.get("pc"), "0x03801a24");
+    });
+
+    test("finds every crash in output with colors and carriage returns", () => {
+        const text = [
+            "\x1b[32mhello from the robot\x1b[0m",
+            ...VEXIDE_PANIC.split("\n"),
+            "",
+            ...PROS_DUMP.split("\n"),
+        ].join("\r\n");
+
+        const logs = parseCrashLogs(text);
+
+        assert.deepStrictEqual(
+            logs.map((log) => [log.kind, log.startLine, log.frames.length]),
+            [
+                ["vexide", 1, 2],
+                ["PROS", 8, 2],
+            ],
+        );
+    });
+
+    test("ignores output without crashes", () => {
+        assert.deepStrictEqual(
+            parseCrashLogs("Battery: 98%\nauton started\n"),
+            [],
+        );
+    });
+
+    test("treats every address in unknown text as a frame", () => {
+        const log = parseAddressList("crashed near 0x380A1F8 and 0380b060");
+
+        assert.ok(log);
+        assert.strictEqual(log.kind, "Unknown");
+        assert.deepStrictEqual(
+            log.frames.map(({ address, label }) => [address, label]),
+            [
+                ["0x380a1f8", "Address 1"],
+                ["0x0380b060", "Address 2"],
+            ],
+        );
+        assert.strictEqual(parseAddressList("no addresses here"), undefined);
+    });
+
+    test("doesn't mistake numbers outside of user memory for addresses", () => {
+        assert.strictEqual(
+            parseAddressList("uptime 12345678 ms, build a1b2c3d4"),
+            undefined,
+        );
+        assert.deepStrictEqual(
+            parseAddressList("pc 03801234")?.frames.map(
+                ({ address }) => address,
+            ),
+            ["0x03801234"],
+        );
+    });
+});
+
+suite("Addresses in a line", () => {
+    test("labels registers by their role", () => {
+        const addresses = findAddressesInLine(
+            " r14 (lr): 0x0380b061  pc: 0x0380a1f8  r2: 0x00000001",
+        );
+
+        assert.deepStrictEqual(
+            addresses.map(({ address, label }) => [address, label]),
+            [
+                ["0x0380b061", "Link register"],
+                ["0x0380a1f8", "Program counter"],
+                ["0x00000001", "Register r2"],
+            ],
+        );
+    });
+
+    test("skips status registers", () => {
+        const addresses = findAddressesInLine(
+            " cpsr: 0x6000001f  dfsr: 0x00000805  dfar: 0x00000008",
+        );
+
+        assert.deepStrictEqual(
+            addresses.map(({ address, label }) => [address, label]),
+            [["0x00000008", "Data fault address"]],
+        );
+    });
+
+    test("labels vexide frames with their number", () => {
+        const [address] = findAddressesInLine("  1: 0x3804a12 - <unknown>");
+
+        assert.deepStrictEqual(address, {
+            address: "0x3804a12",
+            index: 5,
+            label: "Frame 1",
+        });
+    });
+
+    test("finds plain addresses", () => {
+        assert.deepStrictEqual(findAddressesInLine("jumped to 0x380175c"), [
+            { address: "0x380175c", index: 10, label: "Address" },
+        ]);
+    });
+});
+
+suite("Crash log collector", () => {
+    test("reports a crash once the lines after it arrive", () => {
+        const collector = new CrashLogCollector();
+        const chunks = PROS_DUMP.match(/[^]{1,7}/g) ?? [];
+
+        const early = chunks.flatMap((chunk) => collector.write(chunk));
+        assert.deepStrictEqual(early, []);
+
+        const logs = collector.write("\nnext\nline\n");
+        assert.strictEqual(logs.length, 1);
+        assert.strictEqual(logs[0].frames.length, 2);
+        assert.deepStrictEqual(collector.flush(), []);
+    });
+
+    test("reports an unfinished crash when it's flushed", () => {
+        const collector = new CrashLogCollector();
+
+        assert.deepStrictEqual(collector.write(VEXIDE_PANIC), []);
+        const logs = collector.flush();
+        assert.strictEqual(logs.length, 1);
+        assert.strictEqual(logs[0].kind, "vexide");
+    });
+});
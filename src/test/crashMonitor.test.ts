@@ -0,0 +1,373 @@
+import * as assert from "node:assert";
+import { ChildProcessWithoutNullStreams, spawn } from "node:child_process";
+import { once } from "node:events";
+import * as readline from "node:readline";
+import * as vscode from "vscode";
+import { CrashMonitor, DeviceDecoder, decodeCobs } from "../crashMonitor.js";
+import { CrashStackProvider } from "../crashStack.js";
+import { SymbolizedFrame } from "../crashReports.js";
+import { CrashLog } from "../core/crashLogs.js";
+import {
+    CodeObjectLocator,
+    CodeObjectReader,
+    ResolvedSymbol,
+    Symbolizer,
+} from "../symbolization.js";
+import { Project, ProjectDiscovery } from "../projects.js";
+
+/**
+ * Output recorded from a PROS program which crashed, as it's printed to `sout`.
+ */
+const RECORDED_OUTPUT = `Starting opcontrol
+DATA ABORT EXCEPTION
+
+PC: 0x380a1f8
+CURRENT TASK: User Operator Control (PROS)
+REGISTERS AT ABORT
+ r0: 0x00000000  r1: 0x0380c6d0  r2: 0x00000001  r3: 0x00000000
+BEGIN STACK TRACE
+    0x380a1f8
+    0x380b060
+END OF TRACE
+HEAP USED: 1832 bytes
+STACK REMAINING AT ABORT: 8106 bytes
+`;
+
+/**
+ * Encodes bytes with Consistent Overhead Byte Stuffing, like the PROS kernel does.
+ */
+function encodeCobs(data: Uint8Array): Uint8Array {
+    const encoded: number[] = [];
+    let block: number[] = [];
+    for (const byte of data) {
+        if (byte !== 0) {
+            block.push(byte);
+        }
+        if (byte === 0 || block.length === 0xfe) {
+            encoded.push(block.length + 1, ...block);
+            block = [];
+        }
+    }
+    encoded.push(block.length + 1, ...block);
+    return Uint8Array.from(encoded);
+}
+
+/**
+ * Frames some text as a PROS stream, ending with the zero byte which separates frames.
+ */
+function frameStream(stream: string, text: string): Uint8Array {
+    const data = new TextEncoder().encode(stream + text);
+    return Uint8Array.from([...encodeCobs(data), 0]);
+}
+
+/**
+ * Splits bytes into chunks of different sizes, like the reads from a serial port.
+ */
+function splitIntoChunks(data: Uint8Array): Uint8Array[] {
+    const chunks: Uint8Array[] = [];
+    for (let start = 0, size = 1; start < data.length; size = (size % 13) + 1) {
+        chunks.push(data.subarray(start, start + size));
+        start += size;
+    }
+    return chunks;
+}
+
+/**
+ * Opens a pseudo-terminal which stands in for the robot's serial port. The terminal's name is printed
+ * first, then each chunk from the arguments is written once a line arrives on stdin, and the terminal
+ * stays open until stdin is closed.
+ */
+const PSEUDO_TERMINAL_SCRIPT = `
+import os, pty, sys, time
+master, slave = pty.openpty()
+print(os.ttyname(slave), flush=True)
+sys.stdin.readline()
+for chunk in sys.argv[1:]:
+    os.write(master, bytes.fromhex(chunk))
+    time.sleep(0.002)
+sys.stdin.read()
+`;
+
+/**
+ * Finds frames in a single code object, naming each function after its address.
+ */
+class FakeObjects implements CodeObjectLocator, CodeObjectReader {
+    readonly name = "fake";
+    readonly codeObject = vscode.Uri.file("/project/bin/hot.elf");
+    readonly requests: string[][] = [];
+
+    async findObjectUris(): Promise<vscode.Uri[]> {
+        return [this.codeObject];
+    }
+
+    async isWorking(): Promise<boolean> {
+        return true;
+    }
+
+    async resolveToSymbolInObject(address: string): Promise<ResolvedSymbol> {
+        const [result] = await this.resolveToSymbolsInObject([address]);
+        if (result.status === "rejected") {
+            throw result.reason;
+        }
+        return result.value;
+    }
+
+    async resolveToSymbolsInObject(
+        addresses: string[],
+    ): Promise<PromiseSettledResult<ResolvedSymbol>[]> {
+        this.requests.push(addresses);
+        return addresses.map((address) => ({
+            status: "fulfilled",
+            value: {
+                symbolName: `function_at_${address}`,
+                codeObject: this.codeObject,
+                inlinedFrames: [],
+            },
+        }));
+    }
+
+    dispose() {}
+}
+
+/**
+ * Remembers every crash which is shown, and lets the crash monitor's tests wait for one.
+ */
+class RecordingCrashStack extends CrashStackProvider {
+    readonly #shown: ((crash: [CrashLog, SymbolizedFrame[]]) => void)[] = [];
+
+    showCrash(log: CrashLog, frames: SymbolizedFrame[], project: Project) {
+        super.showCrash(log, frames, project);
+        this.#shown.shift()?.([log, frames]);
+    }
+
+    nextCrash(): Promise<[CrashLog, SymbolizedFrame[]]> {
+        return new Promise((resolve) => this.#shown.push(resolve));
+    }
+}
+
+suite("COBS", () => {
+    test("decodes frames with zero bytes", () => {
+        const data = Uint8Array.from([0x11, 0x00, 0x00, 0x22, 0x33]);
+
+        assert.deepStrictEqual(decodeCobs(encodeCobs(data)), data);
+        assert.deepStrictEqual(
+            decodeCobs(Uint8Array.from([0x03, 0x11, 0x22, 0x02, 0x33])),
+            Uint8Array.from([0x11, 0x22, 0x00, 0x33]),
+        );
+    });
+
+    test("decodes frames longer than one block", () => {
+        const data = Uint8Array.from({ length: 600 }, (_, index) =>
+            index % 300 === 0 ? 0 : index % 256 || 1,
+        );
+
+        assert.deepStrictEqual(decodeCobs(encodeCobs(data)), data);
+    });
+});
+
+suite("Device decoder", () => {
+    function decodeAll(decoder: DeviceDecoder, data: Uint8Array) {
+        return splitIntoChunks(data)
+            .map((chunk) => decoder.decode(chunk))
+            .join("");
+    }
+
+    test("keeps plain text from vexide and VEXcode once the device is quiet", () => {
+        const decoder = new DeviceDecoder();
+        const data = new TextEncoder().encode("héllo\nworld\n");
+
+        assert.strictEqual(decodeAll(decoder, data), "");
+        assert.strictEqual(decoder.flush(), "héllo\nworld\n");
+        assert.strictEqual(decoder.decode(data), "héllo\nworld\n");
+    });
+
+    test("only keeps the text streams of PROS frames", () => {
+        const decoder = new DeviceDecoder();
+        const data = Uint8Array.from([
+            ...frameStream("sout", "hello "),
+            ...frameStream("jinx", "\x01\x00\x02"),
+            ...frameStream("serr", "world\n"),
+        ]);
+
+        assert.strictEqual(decodeAll(decoder, data), "hello world\n");
+    });
+
+    test("waits for the end of a multi-line frame split across chunks", () => {
+        const decoder = new DeviceDecoder();
+        const frame = frameStream("sout", "first line\nsecond line\n");
+        const end = frame.length - 1;
+
+        assert.strictEqual(decoder.decode(frame.subarray(0, 8)), "");
+        assert.strictEqual(decoder.decode(frame.subarray(8, end)), "");
+        assert.strictEqual(
+            decoder.decode(frame.subarray(end)),
+            "first line\nsecond line\n",
+        );
+        assert.strictEqual(decoder.flush(), "");
+    });
+
+    test("skips a frame which was cut off when it started", () => {
+        const decoder = new DeviceDecoder();
+        const data = Uint8Array.from([
+            ...frameStream("sout", "lost\n").subarray(3),
+            ...frameStream("sout", "kept\n"),
+        ]);
+
+        assert.strictEqual(decodeAll(decoder, data), "kept\n");
+    });
+
+    test("waits for the next frame after going quiet at the end of a cut-off one", () => {
+        const decoder = new DeviceDecoder();
+
+        decoder.decode(frameStream("sout", "lost\n").subarray(3));
+        assert.strictEqual(decoder.flush(), "");
+        assert.strictEqual(
+            decoder.decode(frameStream("sout", "kept\n")),
+            "kept\n",
+        );
+    });
+
+    test("treats zero bytes which aren't between PROS frames as text", () => {
+        const decoder = new DeviceDecoder();
+
+        assert.strictEqual(
+            decodeAll(decoder, new TextEncoder().encode("a\0bout\0c\n")),
+            "a\0bout\0c\n",
+        );
+    });
+
+    test("treats a long run of output without frames as text", () => {
+        const decoder = new DeviceDecoder();
+        const line = "battery: 98%\n";
+
+        const text = decodeAll(
+            decoder,
+            new TextEncoder().encode(line.repeat(400)),
+        );
+
+        assert.ok(text.startsWith(line));
+        assert.strictEqual(text + decoder.flush(), line.repeat(400));
+    });
+});
+
+suite("Crash monitor", () => {
+    let terminal: ChildProcessWithoutNullStreams | undefined;
+
+    suiteSetup(function () {
+        if (process.platform === "win32") {
+            this.skip();
+        }
+    });
+
+    teardown(async () => {
+        if (terminal && terminal.exitCode === null) {
+            terminal.stdin.end();
+            await once(terminal, "exit");
+        }
+        terminal = undefined;
+    });
+
+    /**
+     * Opens a pseudo-terminal which will replay output once it's told to.
+     * @returns the path of the terminal's device
+     */
+    async function openPseudoTerminal(
+        chunks: Uint8Array[],
+    ): Promise<string | undefined> {
+        const child = spawn("python3", [
+            "-c",
+            PSEUDO_TERMINAL_SCRIPT,
+            ...chunks.map((chunk) => Buffer.from(chunk).toString("hex")),
+        ]);
+        child.on("error", () => {});
+        terminal = child;
+
+        const lines = readline.createInterface({ input: child.stdout });
+        const [devicePath] = await Promise.race([
+            once(lines, "line") as Promise<string[]>,
+            once(child, "exit").then(() => []),
+            once(child, "error").then(() => []),
+        ]);
+        lines.close();
+        return devicePath;
+    }
+
+    /**
+     * Replays recorded output to the crash monitor through a pseudo-terminal, standing in for the
+     * robot's serial port, and waits for it to symbolize a crash.
+     */
+    async function replay(context: Mocha.Context, data: Uint8Array) {
+        const devicePath = await openPseudoTerminal(splitIntoChunks(data));
+        if (!devicePath) {
+            // Python opens the pseudo-terminal, so the test can't run without it.
+            context.skip();
+        }
+
+        const objects = new FakeObjects();
+        const projects = new ProjectDiscovery();
+        const symbolizer = new Symbolizer(
+            projects,
+            [objects],
+            [objects],
+            "any",
+        );
+        const crashStack = new RecordingCrashStack(symbolizer);
+        const monitor = new CrashMonitor(symbolizer, crashStack);
+        const workspaceFolder = {
+            uri: vscode.Uri.file("/project"),
+            name: "project",
+            index: 0,
+        };
+        const project: Project = {
+            uri: workspaceFolder.uri,
+            name: "project",
+            kind: "PROS",
+            workspaceFolder,
+        };
+
+        try {
+            const shown = crashStack.nextCrash();
+            await monitor.start(devicePath, project);
+            terminal?.stdin.write("go\n");
+            const [log, frames] = await shown;
+            return { log, frames, requests: objects.requests, crashStack };
+        } finally {
+            monitor.dispose();
+            crashStack.dispose();
+            symbolizer.dispose();
+            projects.dispose();
+        }
+    }
+
+    test("symbolizes a crash sent in PROS frames", async function () {
+        const data = Uint8Array.from(
+            RECORDED_OUTPUT.split(/(?<=\n)/).flatMap((line) => [
+                ...frameStream("sout", line),
+            ]),
+        );
+
+        const { log, frames, requests, crashStack } = await replay(this, data);
+
+        assert.strictEqual(log.title, "DATA ABORT EXCEPTION");
+        assert.deepStrictEqual(requests, [["0x380a1f8", "0x380b060"]]);
+        assert.deepStrictEqual(
+            frames.map(({ resolved }) => resolved?.symbolName),
+            ["function_at_0x380a1f8", "function_at_0x380b060"],
+        );
+        assert.deepStrictEqual(
+            crashStack.getChildren().map(({ frame }) => frame?.symbolName),
+            ["function_at_0x380a1f8", "function_at_0x380b060"],
+        );
+    });
+
+    test("symbolizes a crash sent as plain text", async function () {
+        const data = new TextEncoder().encode(
+            "panicked at src/main.rs:10:5:\nexplicit panic\n\nstack backtrace:\n  0: 0x380175c\n",
+        );
+
+        const { log, requests } = await replay(this, data);
+
+        assert.strictEqual(log.kind, "vexide");
+        assert.deepStrictEqual(requests, [["0x380175c"]]);
+    });
+});
@@ -0,0 +1,79 @@
+import * as assert from "node:assert";
+import {
+    demangleCppSymbolName,
+    demangleElfSymbolName,
+    demangleSymbolName,
+} from "../core/demangling.js";
+
+suite("Demangling", () => {
+    test("demangles legacy Rust symbols", () => {
+        const name = "_ZN4core9panicking5panic17h1a2b3c4d5e6f7a8bE";
+
+        assert.strictEqual(
+            demangleSymbolName(name, false),
+            "core::panicking::panic",
+        );
+        assert.strictEqual(
+            demangleSymbolName(name, true),
+            "core::panicking::panic::h1a2b3c4d5e6f7a8b",
+        );
+    });
+
+    test("demangles v0 Rust symbols", () => {
+        assert.strictEqual(
+            demangleSymbolName("_RNvNtCs1234_7mycrate5motor4spin", false),
+            "mycrate::motor::spin",
+        );
+        assert.strictEqual(
+            demangleSymbolName("_RNvNtCs1234_7mycrate5motor4spin", true),
+            "mycrate[3c1c0]::motor::spin",
+        );
+        assert.strictEqual(
+            demangleSymbolName(
+                "_RNvMNtCs1234_7mycrate5motorNtB2_5Motor3new",
+                false,
+            ),
+            "<mycrate::motor::Motor>::new",
+        );
+    });
+
+    test("leaves C++ symbols for the toolchain to demangle", () => {
+        assert.strictEqual(
+            demangleSymbolName("_Z7computei", false),
+            "_Z7computei",
+        );
+    });
+
+    test("demangles C++ functions", () => {
+        const cases: [string, string][] = [
+            ["_Z7computei", "compute(int)"],
+            ["_ZN4pros5Motor4moveEi", "pros::Motor::move(int)"],
+            ["_ZNK5robot5Motor3sumEv", "robot::Motor::sum() const"],
+            [
+                "_ZNSt6vectorIiSaIiEE9push_backERKi",
+                "std::vector<int, std::allocator<int> >::push_back(int const&)",
+            ],
+            ["_ZTV5Motor", "vtable for Motor"],
+        ];
+
+        for (const [name, demangled] of cases) {
+            assert.strictEqual(demangleCppSymbolName(name), demangled);
+        }
+    });
+
+    test("leaves names which aren't mangled as they are", () => {
+        assert.strictEqual(demangleCppSymbolName("main"), "main");
+        assert.strictEqual(demangleCppSymbolName("_Zbogus"), "_Zbogus");
+    });
+
+    test("demangles symbol table names from either language", () => {
+        assert.strictEqual(
+            demangleElfSymbolName("_ZN3foo3bar17h0123456789abcdefE", false),
+            "foo::bar",
+        );
+        assert.strictEqual(
+            demangleElfSymbolName("_ZN5robot7counterE", false),
+            "robot::counter",
+        );
+    });
+});
@@ -0,0 +1,177 @@
+import * as assert from "node:assert";
+import { CrashLog } from "../core/crashLogs.js";
+import {
+    decodeFaultStatus,
+    explainFault,
+    parseMemoryAccess,
+} from "../faults.js";
+
+function dataAbort(registers: Record<string, string>): CrashLog {
+    return {
+        kind: "PROS",
+        title: "DATA ABORT EXCEPTION",
+        details: [],
+        registers: new Map(Object.entries(registers)),
+        frames: [],
+        startLine: 0,
+        endLine: 0,
+    };
+}
+
+suite("Fault status", () => {
+    test("decodes the status codes of a DFSR", () => {
+        const cases: [number, string, boolean][] = [
+            [0x001, "alignment fault", false],
+            [0x805, "translation fault (section)", true],
+            [0x007, "translation fault (page)", false],
+            [0x80d, "permission fault (section)", true],
+            [0x008, "synchronous external abort", false],
+            [0x406, "asynchronous external abort", false],
+            [0xc18, "asynchronous parity error on memory access", true],
+        ];
+
+        for (const [value, description, isWrite] of cases) {
+            assert.deepStrictEqual(
+                decodeFaultStatus(value, false),
+                { description, isWrite },
+                `DFSR 0x${value.toString(16)}`,
+            );
+        }
+    });
+
+    test("doesn't know whether an instruction fault was a write", () => {
+        assert.deepStrictEqual(decodeFaultStatus(0x80f, true), {
+            description: "permission fault (page)",
+            isWrite: undefined,
+        });
+    });
+
+    test("describes unknown status codes by their bits", () => {
+        assert.strictEqual(
+            decodeFaultStatus(0x40f, false).description,
+            "unknown fault (status 0b11111)",
+        );
+    });
+});
+
+suite("Memory accesses", () => {
+    test("reads immediate offsets", () => {
+        assert.deepStrictEqual(parseMemoryAccess("ldr r0, [r3, #8]"), {
+            operand: "[r3, #8]",
+            baseRegister: "r3",
+            offset: 8,
+            isWrite: false,
+            requiredAlignment: 1,
+        });
+        assert.strictEqual(
+            parseMemoryAccess("strb.w r1, [r2, #-0x10]")?.offset,
+            -16,
+        );
+    });
+
+    test("uses the base register as-is for post-indexed accesses", () => {
+        assert.deepStrictEqual(parseMemoryAccess("ldr r0, [r1], #4"), {
+            operand: "[r1]",
+            baseRegister: "r1",
+            offset: 0,
+            isWrite: false,
+            requiredAlignment: 1,
+        });
+    });
+
+    test("reads index registers", () => {
+        assert.deepStrictEqual(
+            parseMemoryAccess("str r0, [r1, -r2, lsl #2]")?.indexRegister,
+            { name: "r2", shift: 2, isSubtracted: true },
+        );
+    });
+
+    test("knows which accesses always need alignment", () => {
+        assert.strictEqual(
+            parseMemoryAccess("vldr d0, [r0, #4]")?.requiredAlignment,
+            4,
+        );
+        assert.strictEqual(
+            parseMemoryAccess("ldrd r0, r1, [r2]")?.requiredAlignment,
+            4,
+        );
+        assert.strictEqual(
+            parseMemoryAccess("ldrexh r0, [r1]")?.requiredAlignment,
+            2,
+        );
+    });
+
+    test("works out where multiple accesses start", () => {
+        assert.deepStrictEqual(parseMemoryAccess("push {r4-r7, lr}"), {
+            operand: "{r4-r7, lr}",
+            baseRegister: "sp",
+            offset: -20,
+            isWrite: true,
+            requiredAlignment: 4,
+        });
+        assert.deepStrictEqual(parseMemoryAccess("ldmib r7!, {r0, r1}"), {
+            operand: "r7!, {r0, r1}",
+            baseRegister: "r7",
+            offset: 4,
+            isWrite: false,
+            requiredAlignment: 4,
+        });
+    });
+
+    test("ignores instructions which don't access memory", () => {
+        assert.strictEqual(parseMemoryAccess("mov r0, r1"), undefined);
+        assert.strictEqual(parseMemoryAccess("bl 0x380a1f8"), undefined);
+    });
+});
+
+suite("Fault explanations", () => {
+    test("explains a null pointer dereference", () => {
+        const explanation = explainFault(
+            dataAbort({ r3: "0x00000000", dfsr: "0x00000005" }),
+            "ldr r0, [r3]",
+            "main.cpp:42",
+        );
+
+        assert.strictEqual(explanation?.kind, "nullDereference");
+        assert.strictEqual(
+            explanation.summary,
+            "null pointer dereference reading `[r3]` at main.cpp:42 (r3 was 0x00000000, translation fault (section))",
+        );
+    });
+
+    test("explains an access near null from the DFAR", () => {
+        const explanation = explainFault(
+            dataAbort({ dfar: "0x00000008", dfsr: "0x00000805" }),
+            undefined,
+            undefined,
+        );
+
+        assert.strictEqual(explanation?.kind, "nearNullAccess");
+        assert.strictEqual(explanation.dataAddress, 8);
+        assert.strictEqual(
+            explanation.summary,
+            "null pointer dereference (offset 8) writing 0x00000008 (translation fault (section))",
+        );
+    });
+
+    test("explains a call through a null function pointer", () => {
+        const explanation = explainFault(
+            { ...dataAbort({ pc: "0x00000000" }), title: "PREFETCH ABORT" },
+            undefined,
+            undefined,
+        );
+
+        assert.strictEqual(explanation?.kind, "nullCall");
+    });
+
+    test("doesn't explain panics", () => {
+        assert.strictEqual(
+            explainFault(
+                { ...dataAbort({}), kind: "vexide", title: "panicked" },
+                undefined,
+                undefined,
+            ),
+            undefined,
+        );
+    });
+});
@@ -0,0 +1,70 @@
+import * as assert from "node:assert";
+import * as vscode from "vscode";
+import { Project } from "../projects.js";
+import {
+    findProjectFrame,
+    ResolvedFrame,
+    ResolvedSymbol,
+} from "../symbolization.js";
+
+const workspaceFolder = {
+    uri: vscode.Uri.file("/robot"),
+    name: "robot",
+    index: 0,
+};
+const PROJECT: Project = {
+    uri: workspaceFolder.uri,
+    name: "robot",
+    kind: "PROS",
+    workspaceFolder,
+};
+
+function frameAt(symbolName: string, file: string): ResolvedFrame {
+    return {
+        symbolName,
+        sourceLocation: {
+            uri: vscode.Uri.file(file),
+            position: new vscode.Position(41, 0),
+        },
+    };
+}
+
+function symbolWith(inlinedFrames: ResolvedFrame[]): ResolvedSymbol {
+    return {
+        ...inlinedFrames[0],
+        codeObject: vscode.Uri.file("/robot/bin/hot.package.elf"),
+        inlinedFrames,
+    };
+}
+
+suite("Project frames", () => {
+    test("walks out of library code which was inlined into the project", () => {
+        const caller = frameAt("opcontrol()", "/robot/src/main.cpp");
+        const symbol = symbolWith([
+            frameAt(
+                "std::vector<int>::at(unsigned int)",
+                "/usr/include/vector",
+            ),
+            frameAt("Drive::speed()", "/robot/include/drive.hpp"),
+            caller,
+        ]);
+
+        assert.strictEqual(
+            findProjectFrame(symbol, PROJECT)?.symbolName,
+            "Drive::speed()",
+        );
+        assert.strictEqual(
+            findProjectFrame(symbolWith([caller]), PROJECT),
+            caller,
+        );
+    });
+
+    test("doesn't find frames outside of the project", () => {
+        const symbol = symbolWith([
+            frameAt("memcpy", "/robot-libs/memcpy.c"),
+            { symbolName: "pros::Motor::move(int)" },
+        ]);
+
+        assert.strictEqual(findProjectFrame(symbol, PROJECT), undefined);
+    });
+});